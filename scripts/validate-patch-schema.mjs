@@ -3,10 +3,18 @@ import path from 'node:path';
 
 const root = process.cwd();
 const schemaPath = path.join(root, 'schemas/patch.schema.json');
+const versionsDir = path.join(root, 'schemas/versions');
+const sharedPath = path.join(root, 'src/patch/document/shared.ts');
 const packageJsonPath = path.join(root, 'package.json');
 
 const errors = [];
 
+const versionMatch = fs.readFileSync(sharedPath, 'utf8').match(/PATCH_DOCUMENT_VERSION\s*=\s*(\d+)/);
+const currentVersion = versionMatch ? Number(versionMatch[1]) : null;
+if (currentVersion === null) {
+    errors.push('src/patch/document/shared.ts must declare a numeric PATCH_DOCUMENT_VERSION');
+}
+
 if (!fs.existsSync(schemaPath)) {
     errors.push('schemas/patch.schema.json is missing');
 }
@@ -39,8 +47,8 @@ if (schema) {
         }
     }
 
-    if (schema.properties?.version?.const !== 1) {
-        errors.push('schemas/patch.schema.json must lock PatchDocument.version to 1');
+    if (currentVersion !== null && schema.properties?.version?.const !== currentVersion) {
+        errors.push(`schemas/patch.schema.json must lock PatchDocument.version to ${currentVersion}`);
     }
 
     const nodeTypeEnum = schema.$defs?.nodeType?.enum;
@@ -57,6 +65,24 @@ if (schema) {
     }
 }
 
+// Once the version is bumped, every earlier document version needs a frozen schema.
+for (let version = 1; currentVersion !== null && version < currentVersion; version += 1) {
+    const relative = `schemas/versions/patch.v${version}.schema.json`;
+    const versionPath = path.join(versionsDir, `patch.v${version}.schema.json`);
+    if (!fs.existsSync(versionPath)) {
+        errors.push(`${relative} is missing; freeze the schema of every earlier patch version`);
+        continue;
+    }
+    try {
+        const versionSchema = JSON.parse(fs.readFileSync(versionPath, 'utf8'));
+        if (versionSchema.properties?.version?.const !== version) {
+            errors.push(`${relative} must lock PatchDocument.version to ${version}`);
+        }
+    } catch (error) {
+        errors.push(`${relative} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 if (packageJson) {
     if (packageJson.exports?.['./patch/schema.json'] !== './schemas/patch.schema.json') {
         errors.push('package.json must export "./patch/schema.json" -> "./schemas/patch.schema.json"');
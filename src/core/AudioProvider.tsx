@@ -26,7 +26,7 @@ const AudioContext = createContext<AudioContextState | null>(null);
  * Root provider that owns the AudioContext and manages the audio graph.
  *
  * Features:
- * - Creates and owns the AudioContext (SSR-safe)
+ * - Creates and owns the AudioContext (SSR-safe), or adopts a caller-owned one
  * - Handles user gesture unlock automatically
  * - Provides master bus (GainNode) for global volume control
  * - Exposes context state via useAudio() hook
@@ -40,6 +40,7 @@ const AudioContext = createContext<AudioContextState | null>(null);
  */
 export const AudioProvider: FC<AudioProviderProps> = ({
     children,
+    context: externalContext,
     contextOptions,
     manualUnlock = false,
     createOnUserGesture = false,
@@ -69,14 +70,20 @@ export const AudioProvider: FC<AudioProviderProps> = ({
         if (contextRef.current) return contextRef.current;
 
         try {
-            const AudioContextClass =
-                window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+            let ctx: AudioContext;
+            if (externalContext) {
+                ctx = externalContext as AudioContext;
+            } else {
+                const AudioContextClass =
+                    window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
 
-            if (!AudioContextClass) {
-                throw new Error('WebAudio API not supported');
+                if (!AudioContextClass) {
+                    throw new Error('WebAudio API not supported');
+                }
+
+                ctx = new AudioContextClass(contextOptions);
             }
 
-            const ctx = new AudioContextClass(contextOptions);
             const masterBus = ctx.createGain();
             masterBus.gain.value = initialMasterGain;
             masterBus.connect(ctx.destination);
@@ -87,7 +94,8 @@ export const AudioProvider: FC<AudioProviderProps> = ({
             setState(ctx.state as AudioState);
             log('AudioContext created', { state: ctx.state, sampleRate: ctx.sampleRate });
 
-            unlockedRef.current = ctx.state === 'running';
+            // Caller-owned contexts (offline rendering) never wait for a gesture.
+            unlockedRef.current = ctx.state === 'running' || Boolean(externalContext);
             setIsUnlocked(unlockedRef.current);
             if (unlockedRef.current && !manualUnlock) {
                 onUnlock?.();
@@ -112,7 +120,11 @@ export const AudioProvider: FC<AudioProviderProps> = ({
 
             contextCleanupRef.current = () => {
                 ctx.removeEventListener('statechange', handleStateChange);
-                ctx.close();
+                if (externalContext) {
+                    masterBus.disconnect();
+                } else {
+                    ctx.close();
+                }
             };
 
             return ctx;
@@ -121,7 +133,7 @@ export const AudioProvider: FC<AudioProviderProps> = ({
             onError?.(error as Error);
             return null;
         }
-    }, [contextOptions, initialMasterGain, log, manualUnlock, onError, onStateChange, onUnlock]);
+    }, [contextOptions, externalContext, initialMasterGain, log, manualUnlock, onError, onStateChange, onUnlock]);
 
     // Unlock function
     const unlock = useCallback(async () => {
@@ -164,7 +176,7 @@ export const AudioProvider: FC<AudioProviderProps> = ({
         unlockCleanupRef.current?.();
         unlockCleanupRef.current = null;
 
-        if (createOnUserGesture) {
+        if (createOnUserGesture && !externalContext) {
             if (!manualUnlock) {
                 log('Waiting for user gesture to create AudioContext');
                 unlockCleanupRef.current = setupGestureUnlock(() => {
@@ -178,7 +190,7 @@ export const AudioProvider: FC<AudioProviderProps> = ({
         const ctx = createContext();
         if (!ctx) return;
 
-        if (!manualUnlock) {
+        if (!manualUnlock && !externalContext) {
             unlockCleanupRef.current = setupUnlock(ctx, () => {
                 if (unlockedRef.current) return;
                 unlockedRef.current = true;
@@ -47,12 +47,36 @@ export interface LFOOutput {
     readonly __lfoOutput: true;
 }
 
+// =============================================================================
+// Modulation Signal Type
+// =============================================================================
+
+/**
+ * Audio-rate signal that can be passed to modulatable props, e.g. a
+ * `ConstantSourceNode` driven from outside React.
+ * Like an LFO output, its node is connected to the AudioParam and adds to
+ * the base value.
+ */
+export interface ModulationSignal {
+    /**
+     * The node connected to AudioParams.
+     */
+    readonly node: AudioNode;
+
+    /**
+     * Marker to identify modulation signals at runtime.
+     * @internal
+     */
+    readonly __modulationSignal: true;
+}
+
 // =============================================================================
 // Modulatable Value Type
 // =============================================================================
 
 /**
- * A value that can be either a fixed number or modulated by an LFO.
+ * A value that can be either a fixed number or modulated by an LFO or a
+ * modulation signal.
  * 
  * When a number is provided, the parameter is set to that fixed value.
  * When an LFOOutput is provided, the LFO modulates the parameter around
@@ -68,7 +92,7 @@ export interface LFOOutput {
  * <Filter frequency={lfo} /> // Oscillates ±500 around 0
  * ```
  */
-export type ModulatableValue = number | LFOOutput;
+export type ModulatableValue = number | LFOOutput | ModulationSignal;
 
 // =============================================================================
 // Type Guards
@@ -90,9 +114,38 @@ export function isLFOOutput(value: ModulatableValue | undefined | null): value i
     );
 }
 
+/**
+ * Check if a value is a ModulationSignal.
+ *
+ * @param value - The value to check
+ * @returns true if the value is a ModulationSignal
+ */
+export function isModulationSignal(value: ModulatableValue | undefined | null): value is ModulationSignal {
+    return (
+        value !== null &&
+        value !== undefined &&
+        typeof value === 'object' &&
+        '__modulationSignal' in value &&
+        value.__modulationSignal === true
+    );
+}
+
+/**
+ * Check if a value is connected to the AudioParam rather than set on it:
+ * an LFO output or a modulation signal.
+ *
+ * @param value - The value to check
+ * @returns true if the value carries a node to connect
+ */
+export function isModulationSource(
+    value: ModulatableValue | undefined | null
+): value is LFOOutput | ModulationSignal {
+    return isLFOOutput(value) || isModulationSignal(value);
+}
+
 /**
  * Get the numeric value from a ModulatableValue.
- * Returns 0 for LFO outputs (since LFO adds to the base value).
+ * Returns 0 for LFO outputs and modulation signals (since they add to the base value).
  * 
  * @param value - The modulatable value
  * @param defaultValue - Default value if undefined
@@ -103,6 +156,6 @@ export function getNumericValue(
     defaultValue: number = 0
 ): number {
     if (value === undefined) return defaultValue;
-    if (isLFOOutput(value)) return 0; // LFO adds to base value
+    if (isModulationSource(value)) return 0; // Modulation adds to base value
     return value;
 }
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { useAudio } from './AudioProvider';
+import type {
+    AudioAssetListener,
+    AudioAssetManager,
+    AudioAssetState,
+    PreloadAssetsOptions,
+} from './types';
+
+interface AssetEntry<T> {
+    promise: Promise<T>;
+    status: 'loading' | 'loaded' | 'error';
+    value: T | null;
+    error: Error | null;
+}
+
+const IDLE_STATE: AudioAssetState = { status: 'idle', buffer: null, error: null };
+
+const managersByContext = new WeakMap<BaseAudioContext, AudioAssetManager>();
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+async function fetchAsset(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load asset "${url}" (${response.status} ${response.statusText}).`);
+    }
+    return response.arrayBuffer();
+}
+
+function createAudioAssetManager(context: BaseAudioContext): AudioAssetManager {
+    const buffers = new Map<string, AssetEntry<AudioBuffer>>();
+    const files = new Map<string, AssetEntry<ArrayBuffer>>();
+    const listeners = new Set<AudioAssetListener>();
+
+    const emit = (url: string, entry: AssetEntry<unknown>) => {
+        const entries = [...buffers.values(), ...files.values()];
+        const progress = {
+            url,
+            status: entry.status,
+            completed: entries.filter((item) => item.status !== 'loading').length,
+            total: entries.length,
+            ...(entry.error ? { error: entry.error } : {}),
+        };
+        Array.from(listeners).forEach((listener) => listener(progress));
+    };
+
+    const request = <T>(cache: Map<string, AssetEntry<T>>, url: string, load: () => Promise<T>): Promise<T> => {
+        const cached = cache.get(url);
+        if (cached && cached.status !== 'error') return cached.promise;
+
+        const entry: AssetEntry<T> = {
+            status: 'loading',
+            value: null,
+            error: null,
+            promise: load().then(
+                (value) => {
+                    entry.status = 'loaded';
+                    entry.value = value;
+                    if (cache.get(url) === entry) emit(url, entry);
+                    return value;
+                },
+                (error: unknown) => {
+                    entry.status = 'error';
+                    entry.error = toError(error);
+                    if (cache.get(url) === entry) emit(url, entry);
+                    throw entry.error;
+                }
+            ),
+        };
+        cache.set(url, entry);
+        emit(url, entry);
+        return entry.promise;
+    };
+
+    return {
+        context,
+        load: (url) => request(buffers, url, () => fetchAsset(url).then((data) => context.decodeAudioData(data))),
+        loadData: (url) => request(files, url, () => fetchAsset(url)),
+        get: (url) => {
+            const entry = buffers.get(url);
+            if (!entry) return IDLE_STATE;
+            return { status: entry.status, buffer: entry.value, error: entry.error };
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        evict: (url) => {
+            if (url === undefined) {
+                buffers.clear();
+                files.clear();
+                return;
+            }
+            buffers.delete(url);
+            files.delete(url);
+        },
+    };
+}
+
+/**
+ * Get the shared asset cache of an audio context.
+ *
+ * `Sampler`, `TriggeredSampler`, `GranularSampler`, `Convolver`, `Reverb`
+ * and `MidiFilePlayer` load their URLs through it, so components using the
+ * same file fetch and decode it once.
+ *
+ * @param context - Audio context that decodes the buffers.
+ * @returns The context's asset manager.
+ */
+export function getAudioAssetManager(context: BaseAudioContext): AudioAssetManager {
+    let manager = managersByContext.get(context);
+    if (!manager) {
+        manager = createAudioAssetManager(context);
+        managersByContext.set(context, manager);
+    }
+    return manager;
+}
+
+/**
+ * Track a batch of loads and report `completed` / `total` for the batch only.
+ * @internal
+ */
+export function loadAssetBatch<T>(
+    tasks: ReadonlyArray<{ url: string; load: () => Promise<T> }>,
+    onProgress?: AudioAssetListener
+): Promise<T[]> {
+    let completed = 0;
+    const total = tasks.length;
+
+    return Promise.all(tasks.map(({ url, load }) => {
+        onProgress?.({ url, status: 'loading', completed, total });
+        return load().then(
+            (value) => {
+                completed += 1;
+                onProgress?.({ url, status: 'loaded', completed, total });
+                return value;
+            },
+            (error: unknown) => {
+                completed += 1;
+                onProgress?.({ url, status: 'error', completed, total, error: toError(error) });
+                throw error;
+            }
+        );
+    }));
+}
+
+/**
+ * Fetch and decode audio files into the context's asset cache before playback.
+ *
+ * @param context - Audio context that will play the buffers.
+ * @param urls - Audio file URLs; duplicates load once.
+ * @param options - Batch progress callback.
+ * @returns Decoded buffers in `urls` order; rejects with the first failure.
+ */
+export function preloadAssets(
+    context: BaseAudioContext,
+    urls: readonly string[],
+    options: PreloadAssetsOptions = {}
+): Promise<AudioBuffer[]> {
+    const manager = getAudioAssetManager(context);
+    const unique = Array.from(new Set(urls));
+    return loadAssetBatch(unique.map((url) => ({ url, load: () => manager.load(url) })), options.onProgress)
+        .then((buffers) => {
+            const byUrl = new Map(unique.map((url, index) => [url, buffers[index]]));
+            return urls.map((url) => byUrl.get(url) as AudioBuffer);
+        });
+}
+
+/**
+ * Load an audio file through the shared asset cache.
+ *
+ * @param src - Audio file URL, or a decoded buffer to pass through.
+ * @returns Loading status, the decoded buffer, and the load error.
+ *
+ * @example
+ * ```tsx
+ * const { status, buffer } = useAudioAsset('/samples/kick.wav');
+ * if (status === 'loading') return <Spinner />;
+ * ```
+ */
+export function useAudioAsset(src: string | AudioBuffer | null | undefined): AudioAssetState {
+    const { context } = useAudio();
+    const [state, setState] = useState<AudioAssetState>(IDLE_STATE);
+
+    useEffect(() => {
+        if (!src) {
+            setState(IDLE_STATE);
+            return;
+        }
+        if (typeof src !== 'string') {
+            setState({ status: 'loaded', buffer: src, error: null });
+            return;
+        }
+        if (!context) {
+            setState(IDLE_STATE);
+            return;
+        }
+
+        const manager = getAudioAssetManager(context);
+        const current = manager.get(src);
+        if (current.status === 'loaded') {
+            setState(current);
+            return;
+        }
+
+        let cancelled = false;
+        setState({ status: 'loading', buffer: null, error: null });
+        manager.load(src).then(
+            (buffer) => {
+                if (!cancelled) setState({ status: 'loaded', buffer, error: null });
+            },
+            (error: unknown) => {
+                if (!cancelled) setState({ status: 'error', buffer: null, error: toError(error) });
+            }
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [context, src]);
+
+    return state;
+}
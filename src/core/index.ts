@@ -9,6 +9,12 @@ export type {
     AudioProviderProps,
     AudioContextState,
     AudioOutContextValue,
+    AudioAssetStatus,
+    AudioAssetState,
+    AudioAssetProgress,
+    AudioAssetListener,
+    AudioAssetManager,
+    PreloadAssetsOptions,
 } from './types';
 
 // Modulatable Value Types
@@ -16,8 +22,9 @@ export type {
     LFOOutput,
     LFOWaveform,
     ModulatableValue,
+    ModulationSignal,
 } from './ModulatableValue';
-export { isLFOOutput, getNumericValue } from './ModulatableValue';
+export { isLFOOutput, isModulationSignal, isModulationSource, getNumericValue } from './ModulatableValue';
 
 // Components (signatures only - implementation not included)
 export { AudioProvider } from './AudioProvider';
@@ -25,6 +32,9 @@ export { AudioProvider } from './AudioProvider';
 // Hooks
 export { useAudio } from './useAudio';
 
+// Assets
+export { getAudioAssetManager, preloadAssets, useAudioAsset } from './assets';
+
 // Internal (for advanced use cases)
 export { AudioOutProvider, useAudioOut } from './AudioOutContext';
 
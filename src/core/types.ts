@@ -25,6 +25,13 @@ export type AudioState = 'suspended' | 'running' | 'closed';
 export interface AudioProviderProps {
     children: ReactNode;
 
+    /**
+     * Use an existing context instead of creating one, e.g. an
+     * `OfflineAudioContext` for rendering to a buffer.
+     * The provider treats it as unlocked and does not close it on unmount.
+     */
+    context?: BaseAudioContext;
+
     /**
      * Override default AudioContext options.
      * @see https://developer.mozilla.org/en-US/docs/Web/API/AudioContext/AudioContext
@@ -158,3 +165,86 @@ export interface AudioOutContextValue {
      */
     setOutputNode: (node: AudioNode) => void;
 }
+
+// =============================================================================
+// Audio Assets
+// =============================================================================
+
+/**
+ * Loading status of an audio asset.
+ */
+export type AudioAssetStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+/**
+ * Snapshot of a decoded audio asset.
+ */
+export interface AudioAssetState {
+    status: AudioAssetStatus;
+    /** Decoded buffer once `status` is `'loaded'` */
+    buffer: AudioBuffer | null;
+    /** Load or decode failure once `status` is `'error'` */
+    error: Error | null;
+}
+
+/**
+ * Progress event emitted when an asset starts or finishes loading.
+ */
+export interface AudioAssetProgress {
+    /** Asset that changed status */
+    url: string;
+    status: AudioAssetStatus;
+    /** Assets that finished loading or failed so far */
+    completed: number;
+    /** Assets requested so far */
+    total: number;
+    error?: Error;
+}
+
+/**
+ * Listener for asset progress events.
+ */
+export type AudioAssetListener = (progress: AudioAssetProgress) => void;
+
+/**
+ * URL-keyed asset cache of one audio context.
+ * Concurrent loads of the same URL share one fetch and decode.
+ */
+export interface AudioAssetManager {
+    /** Context that decodes the buffers */
+    context: BaseAudioContext;
+
+    /**
+     * Fetch and decode an audio file, or return the cached buffer.
+     * Failed loads are retried on the next call.
+     */
+    load: (url: string) => Promise<AudioBuffer>;
+
+    /**
+     * Fetch a raw file (e.g. a Standard MIDI File), or return the cached bytes.
+     */
+    loadData: (url: string) => Promise<ArrayBuffer>;
+
+    /**
+     * Current state of an audio file; `'idle'` when it was never requested.
+     */
+    get: (url: string) => AudioAssetState;
+
+    /**
+     * Receive progress events for every load of this manager.
+     * @returns Unsubscribe function
+     */
+    subscribe: (listener: AudioAssetListener) => () => void;
+
+    /**
+     * Drop a cached asset, or every asset when `url` is omitted.
+     */
+    evict: (url?: string) => void;
+}
+
+/**
+ * Options for `preloadAssets`.
+ */
+export interface PreloadAssetsOptions {
+    /** Called when each asset of the batch starts or finishes loading */
+    onProgress?: AudioAssetListener;
+}
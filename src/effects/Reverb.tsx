@@ -1,6 +1,7 @@
 import { useEffect, useRef, type FC } from 'react';
 import type { ReverbProps } from './types';
 import { useAudio } from '../core/AudioProvider';
+import { getAudioAssetManager } from '../core/assets';
 import { useAudioOut, AudioOutProvider } from '../core/AudioOutContext';
 
 /**
@@ -122,9 +123,7 @@ export const Reverb: FC<ReverbProps> = ({
 
         if (typeof impulse === 'string') {
             // Load from URL
-            fetch(impulse)
-                .then((response) => response.arrayBuffer())
-                .then((arrayBuffer) => context.decodeAudioData(arrayBuffer))
+            getAudioAssetManager(context).load(impulse)
                 .then((buffer) => {
                     if (convolverRef.current) {
                         convolverRef.current.buffer = buffer;
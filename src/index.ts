@@ -12,11 +12,17 @@ export {
     AudioProvider,
     // Hooks
     useAudio,
+    // Assets
+    getAudioAssetManager,
+    preloadAssets,
+    useAudioAsset,
     // Internal (advanced use)
     AudioOutProvider,
     useAudioOut,
     // Modulatable utilities
     isLFOOutput,
+    isModulationSignal,
+    isModulationSource,
     getNumericValue,
 } from './core';
 
@@ -26,8 +32,16 @@ export type {
     AudioProviderProps,
     AudioContextState,
     AudioOutContextValue,
+    // Asset types
+    AudioAssetStatus,
+    AudioAssetState,
+    AudioAssetProgress,
+    AudioAssetListener,
+    AudioAssetManager,
+    PreloadAssetsOptions,
     // Modulatable types
     ModulatableValue,
+    ModulationSignal,
     LFOOutput,
     LFOWaveform,
 } from './core';
@@ -40,6 +54,7 @@ export {
     Gain,
     Filter,
     Osc,
+    WavetableOsc,
     Delay,
     Compressor,
     Convolver,
@@ -51,6 +66,10 @@ export {
     DEFAULT_ADSR,
     // Hooks
     useAudioNode,
+    usePeriodicWave,
+    // Wavetables
+    createWavetableWave,
+    getWavetableCoefficients,
 } from './nodes';
 
 export type {
@@ -60,6 +79,12 @@ export type {
     FilterType,
     OscProps,
     OscillatorType,
+    WavetableOscProps,
+    WavetableSource,
+    WavetableCoefficients,
+    WavetableSample,
+    PeriodicWaveOptions,
+    ResolvedWavetable,
     DelayProps,
     CompressorProps,
     ConvolverProps,
@@ -85,6 +110,10 @@ export {
     useStep,
     useBar,
     usePhrase,
+    // Scheduling
+    getSchedulerClock,
+    timePositionToSeconds,
+    secondsToTimePosition,
 } from './transport';
 
 export type {
@@ -92,6 +121,13 @@ export type {
     TransportConfig,
     TransportState,
     TransportEvents,
+    TransportTick,
+    SchedulerClock,
+    SchedulerClockListener,
+    TempoMapPoint,
+    TempoMapConfig,
+    TransportLoopRegion,
+    TransportMarker,
 } from './transport';
 
 // -----------------------------------------------------------------------------
@@ -112,6 +148,7 @@ export {
 
 export type {
     Pattern,
+    TrackNote,
     TriggerEvent,
     EventTriggerMode,
     SequencerProps,
@@ -152,6 +189,7 @@ export type {
 export {
     Sampler,
     TriggeredSampler,
+    GranularSampler,
     Noise,
     NoiseBurst,
     MediaStream,
@@ -165,6 +203,8 @@ export type {
     SourceNodeProps,
     SamplerProps,
     TriggeredSamplerProps,
+    GranularSamplerProps,
+    GrainWindow,
     NoiseProps,
     NoiseType,
     NoiseBurstProps,
@@ -223,53 +263,129 @@ export type {
 // -----------------------------------------------------------------------------
 export {
     createMidiRuntime,
+    createWebMidiBackend,
+    createVirtualMidiBackend,
     MidiProvider,
+    MidiLearnProvider,
     MidiNoteInput,
     MidiCCInput,
     MidiNoteOutput,
     MidiCCOutput,
     MidiTransportSync,
+    MidiFilePlayer,
+    parseMidiFile,
+    midiTicksToSeconds,
+    patternsToMidiFile,
+    parseMidiLearnMap,
+    serializeMidiLearnMap,
     useMidi,
     useMidiNote,
     useMidiCC,
+    useMidiPitchBend,
+    useMidiAftertouch,
+    useMidiProgram,
+    useMpeNotes,
+    useMidiSysex,
     useMidiClock,
+    useMidiLearn,
+    useMidiLearnValue,
+    useMidiRecorder,
 } from './midi';
 
 export type {
+    MidiAccessRequestOptions,
     MidiAccessStatus,
+    MidiAftertouchFilterOptions,
+    MidiAftertouchSendOptions,
+    MidiAftertouchState,
+    MidiAftertouchValue,
+    MidiBackend,
+    MidiBackendAccess,
+    MidiBackendInput,
+    MidiBackendOutput,
+    MidiBackendPort,
     MidiCCFilterOptions,
     MidiCCInputProps,
     MidiCCOutputProps,
     MidiCCState,
     MidiCCValue,
     MidiChannelFilter,
+    MidiChannelMessageFilterOptions,
     MidiClockFilterOptions,
     MidiClockState,
     MidiClockValue,
     MidiContextValue,
+    MidiFile,
+    MidiFileFormat,
+    MidiFileNote,
+    MidiFilePlayerProps,
+    MidiFileTempo,
+    MidiFileTimeSignature,
+    MidiFileTrack,
+    MidiFileWriteOptions,
     MidiInputEventData,
+    MidiLearnBinding,
+    MidiLearnContextValue,
+    MidiLearnMap,
+    MidiLearnProviderProps,
+    MidiLearnSourceKind,
+    MidiLearnTarget,
+    MidiLearnValue,
+    MidiLearnValueOptions,
     MidiListenMode,
     MidiMessageKind,
+    MidiMpeNote,
+    MidiMpeNotesOptions,
+    MidiMpeNotesValue,
+    MidiMpeOptions,
+    MidiMpeState,
+    MidiMpeVoice,
+    MidiMpeZone,
+    MidiMpeZoneName,
+    MidiMpeZoneOptions,
     MidiNoteFilter,
+    MidiNoteExpression,
     MidiNoteFilterOptions,
     MidiNoteInputProps,
     MidiNoteOutputProps,
     MidiNoteState,
     MidiNoteValue,
     MidiOutputEventData,
+    MidiPatternTrack,
+    MidiPitchBendSendOptions,
+    MidiPitchBendState,
+    MidiPitchBendValue,
     MidiPortDescriptor,
     MidiPortSelection,
+    MidiProgramSendOptions,
+    MidiProgramState,
+    MidiProgramValue,
     MidiProviderProps,
+    MidiRecordedNote,
+    MidiRecorderMode,
+    MidiRecorderOptions,
+    MidiRecorderValue,
     MidiRuntime,
     MidiRuntimeOptions,
     MidiRuntimeSnapshot,
     MidiSendOptions,
+    MidiSongPositionSendOptions,
     MidiSourceInfo,
     MidiStateChangeEvent,
+    MidiSysexFilterOptions,
+    MidiSysexSendOptions,
+    MidiSysexValue,
     MidiTransportSyncMode,
     MidiTransportSyncProps,
     MidiValue,
     MidiValueFormat,
+    VirtualMidiBackend,
+    VirtualMidiBackendOptions,
+    VirtualMidiInput,
+    VirtualMidiOutput,
+    VirtualMidiPlayback,
+    VirtualMidiPortOptions,
+    VirtualMidiScriptEvent,
 } from './midi';
 
 // -----------------------------------------------------------------------------
@@ -281,19 +397,36 @@ export {
     graphDocumentToPatch,
     patchToGraphDocument,
     migratePatchDocument,
+    migratePatchDocumentWithReport,
+    downgradePatchDocument,
+    validatePatchDocument,
+    registerPatchNodeType,
+    createPatchSchema,
+    generatePatchModule,
     Patch,
     PatchOutput,
     importPatch,
     PatchRenderer,
+    patchToMidiFile,
+    setPatchNodeNotes,
+    preloadPatchAssets,
 } from './patch';
 
 export type {
+    GeneratePatchModuleOptions,
     ImportPatchOptions,
     PatchAudioMetadata,
     PatchConnection,
+    PatchDiagnostic,
+    PatchDiagnosticCode,
+    PatchDiagnosticSeverity,
     PatchDocument,
     PatchEvent,
+    PatchEventKey,
+    PatchHandle,
     PatchInput,
+    PatchInputKey,
+    PatchInputListener,
     PatchInterface,
     PatchMidiBindings,
     PatchMidiCCInput,
@@ -305,17 +438,39 @@ export type {
     PatchMidiOutput,
     PatchMidiOutputBindings,
     PatchMidiSyncOutput,
+    PatchMigrationReport,
+    PatchMigrationStepReport,
     PatchNode,
+    PatchNodeBuildContext,
+    PatchNodeControlValue,
     PatchNodeData,
+    PatchNodeTypeDefinition,
     PatchPosition,
     PatchOutputProps,
     PatchProps,
     PatchRuntimeProps,
+    PatchSetInputOptions,
     PatchSlot,
     PatchRendererProps,
+    PatchValidationReport,
+    PreloadPatchAssetsOptions,
     SlotType,
+    VersionedPatchDocument,
 } from './patch';
 
+// -----------------------------------------------------------------------------
+// Offline
+// -----------------------------------------------------------------------------
+export { renderOffline, renderPatchOffline, encodeWav } from './offline';
+
+export type {
+    OfflineRenderResult,
+    RenderOfflineOptions,
+    RenderPatchOfflineOptions,
+    WavBitDepth,
+    WavEncodeOptions,
+} from './offline';
+
 // -----------------------------------------------------------------------------
 // Utils
 // -----------------------------------------------------------------------------
@@ -404,4 +559,5 @@ export type {
     VoiceProps,
     VoiceRenderProps,
     PolyVoiceProps,
+    VoiceStealPolicy,
 } from './synths';
@@ -0,0 +1,254 @@
+import { useCallback, useContext, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { useAudio } from '../core/AudioProvider';
+import { getAudioAssetManager } from '../core/assets';
+import { TriggerProvider } from '../sequencer/TriggerContext';
+import type { TriggerEvent } from '../sequencer/types';
+import { TransportContext } from '../transport/TransportContext';
+import { getSchedulerClock } from '../transport/clock';
+import { parseMidiFile } from './smf';
+import type { MidiFile, MidiFileNote, MidiFilePlayerProps } from './types';
+
+function isMidiFile(value: unknown): value is MidiFile {
+    return typeof value === 'object'
+        && value !== null
+        && Array.isArray((value as MidiFile).tracks)
+        && typeof (value as MidiFile).ticksPerQuarter === 'number';
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Group notes by the transport step they start on.
+ */
+function groupNotesByStep(notes: readonly MidiFileNote[], ticksPerStep: number): Map<number, MidiFileNote[]> {
+    const notesByStep = new Map<number, MidiFileNote[]>();
+    notes.forEach((note) => {
+        const step = Math.floor(note.startTick / ticksPerStep);
+        const stepNotes = notesByStep.get(step) ?? [];
+        stepNotes.push(note);
+        notesByStep.set(step, stepNotes);
+    });
+    return notesByStep;
+}
+
+/**
+ * Plays the notes of a Standard MIDI File as trigger events.
+ *
+ * Children receive one `TriggerEvent` per note through the trigger context,
+ * so `Voice`, `PolyVoice` and `TriggeredSampler` work as with a `Track`.
+ * Inside a `TransportProvider` and without `autoStart`, notes are scheduled
+ * from the transport steps, so playback follows its play state, position
+ * (pause, seek, loop region) and tempo.
+ */
+export const MidiFilePlayer: FC<MidiFilePlayerProps> = ({
+    children,
+    src,
+    tracks = null,
+    loop = false,
+    bpm,
+    autoStart = false,
+    trackId = 'midi-player',
+    lookAhead = 0.1,
+    scheduleInterval = 25,
+    onLoad,
+    onError,
+    onEnd,
+}) => {
+    const { context, isUnlocked } = useAudio();
+    const transport = useContext(TransportContext);
+    const [file, setFile] = useState<MidiFile | null>(null);
+
+    const subscribersRef = useRef<Set<(event: TriggerEvent) => void>>(new Set());
+    const currentTriggerRef = useRef<TriggerEvent | null>(null);
+    const callbacksRef = useRef({ onLoad, onError, onEnd });
+
+    useEffect(() => {
+        callbacksRef.current = { onLoad, onError, onEnd };
+    }, [onLoad, onError, onEnd]);
+
+    // Only URL sources wait for the context, so in-memory files load once
+    const assetContext = typeof src === 'string' ? context : null;
+    useEffect(() => {
+        if (!src) {
+            setFile(null);
+            return;
+        }
+
+        if (isMidiFile(src)) {
+            setFile(src);
+            callbacksRef.current.onLoad?.(src);
+            return;
+        }
+
+        // URLs load through the context's asset cache
+        let load: Promise<ArrayBuffer | Uint8Array>;
+        if (typeof src !== 'string') {
+            load = Promise.resolve(src);
+        } else if (assetContext) {
+            load = getAudioAssetManager(assetContext).loadData(src);
+        } else {
+            return;
+        }
+
+        let cancelled = false;
+
+        load
+            .then((data) => {
+                if (cancelled) return;
+                const parsed = parseMidiFile(data);
+                setFile(parsed);
+                callbacksRef.current.onLoad?.(parsed);
+            })
+            .catch((error: unknown) => {
+                if (cancelled) return;
+                setFile(null);
+                callbacksRef.current.onError?.(toError(error));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [assetContext, src]);
+
+    const trackSelection = tracks ? tracks.join(',') : '';
+    const notes = useMemo<MidiFileNote[]>(() => {
+        if (!file) return [];
+        const selected = trackSelection
+            ? new Set(trackSelection.split(',').map(Number))
+            : null;
+        return file.tracks
+            .filter((track) => !selected || selected.has(track.index))
+            .flatMap((track) => track.notes)
+            .sort((a, b) => a.startTick - b.startTick || a.note - b.note);
+    }, [file, trackSelection]);
+
+    const followsTransport = Boolean(transport) && !autoStart;
+    const isPlaying = !followsTransport && autoStart && isUnlocked;
+    const tempo = bpm ?? transport?.bpm;
+    const secondsPerTick = file && tempo ? 60 / tempo / file.ticksPerQuarter : null;
+
+    const emit = useCallback((event: TriggerEvent) => {
+        currentTriggerRef.current = event;
+        subscribersRef.current.forEach((callback) => callback(event));
+    }, []);
+
+    // Own clock: the playback position survives tempo changes
+    const playbackRef = useRef<{ cycleStart: number; nextIndex: number } | null>(null);
+    const secondsPerTickRef = useRef(secondsPerTick);
+    useEffect(() => {
+        const previous = secondsPerTickRef.current;
+        secondsPerTickRef.current = secondsPerTick;
+        const playback = playbackRef.current;
+        if (!playback || !context || !previous || !secondsPerTick || previous === secondsPerTick) return;
+        // Keep the file position reached so far and play the rest at the new tempo
+        const elapsed = context.currentTime - playback.cycleStart;
+        playback.cycleStart = context.currentTime - elapsed * (secondsPerTick / previous);
+    }, [context, secondsPerTick]);
+
+    useEffect(() => {
+        if (!isPlaying || !context || !file || notes.length === 0) return;
+
+        const stepTicks = file.ticksPerQuarter / 4;
+        const playback = { cycleStart: context.currentTime, nextIndex: 0 };
+        playbackRef.current = playback;
+        let finished = false;
+
+        const scheduler = (currentTime: number) => {
+            if (finished) return;
+            const horizon = currentTime + lookAhead;
+            const tickSeconds = secondsPerTickRef.current;
+            const loopDuration = tickSeconds ? file.durationTicks * tickSeconds : file.duration;
+
+            while (!finished) {
+                if (playback.nextIndex >= notes.length) {
+                    if (!loop || loopDuration <= 0) {
+                        finished = true;
+                        callbacksRef.current.onEnd?.();
+                        return;
+                    }
+                    playback.cycleStart += loopDuration;
+                    playback.nextIndex = 0;
+                }
+
+                const note = notes[playback.nextIndex];
+                const time = playback.cycleStart + (tickSeconds ? note.startTick * tickSeconds : note.startTime);
+                if (time >= horizon) return;
+
+                emit({
+                    step: Math.floor(note.startTick / stepTicks),
+                    velocity: note.velocity,
+                    time,
+                    duration: tickSeconds ? note.durationTicks * tickSeconds : note.duration,
+                    trackId,
+                    note: note.note,
+                    data: { channel: note.channel, track: note.track },
+                });
+                playback.nextIndex += 1;
+            }
+        };
+
+        scheduler(context.currentTime);
+        const unsubscribe = getSchedulerClock(context, scheduleInterval).subscribe(scheduler);
+        return () => {
+            unsubscribe();
+            if (playbackRef.current === playback) playbackRef.current = null;
+        };
+    }, [isPlaying, context, file, notes, loop, lookAhead, scheduleInterval, trackId, emit]);
+
+    // Following a transport: play the notes of each scheduled step, so the
+    // file position is the transport position
+    const transportSubscribe = followsTransport ? transport?.subscribe : undefined;
+    const stepsPerBeat = transport ? Math.max(1, Math.round(transport.beatDuration / transport.stepDuration)) : 4;
+    useEffect(() => {
+        if (!transportSubscribe || !file || notes.length === 0) return;
+
+        const ticksPerStep = file.ticksPerQuarter / stepsPerBeat;
+        const fileSteps = Math.max(1, Math.ceil(file.durationTicks / ticksPerStep));
+        const notesByStep = groupNotesByStep(notes, ticksPerStep);
+        let ended = false;
+
+        return transportSubscribe((tick) => {
+            if (!loop && tick.totalSteps >= fileSteps) {
+                if (!ended) {
+                    ended = true;
+                    callbacksRef.current.onEnd?.();
+                }
+                return;
+            }
+            ended = false;
+
+            const step = tick.totalSteps % fileSteps;
+            const tickSeconds = tick.duration / ticksPerStep;
+            notesByStep.get(step)?.forEach((note) => {
+                emit({
+                    step,
+                    velocity: note.velocity,
+                    time: tick.time + (note.startTick - step * ticksPerStep) * tickSeconds,
+                    duration: note.durationTicks * tickSeconds,
+                    trackId,
+                    note: note.note,
+                    data: { channel: note.channel, track: note.track },
+                });
+            });
+        });
+    }, [transportSubscribe, file, notes, stepsPerBeat, loop, trackId, emit]);
+
+    const subscribeToTrigger = useCallback((callback: (event: TriggerEvent) => void) => {
+        subscribersRef.current.add(callback);
+        return () => {
+            subscribersRef.current.delete(callback);
+        };
+    }, []);
+
+    return (
+        <TriggerProvider
+            trackId={trackId}
+            subscribe={subscribeToTrigger}
+            currentTrigger={currentTriggerRef.current}
+        >
+            {children}
+        </TriggerProvider>
+    );
+};
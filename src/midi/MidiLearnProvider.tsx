@@ -0,0 +1,188 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { useMidiContext } from './MidiProvider';
+import {
+    EMPTY_MIDI_LEARN_MAP,
+    bindMidiLearnSource,
+    captureMidiLearnBinding,
+    getMidiLearnValue,
+    parseMidiLearnMap,
+} from './learn';
+import type {
+    MidiLearnContextValue,
+    MidiLearnMap,
+    MidiLearnProviderProps,
+    MidiLearnTarget,
+    MidiLearnValue,
+    MidiLearnValueOptions,
+} from './types';
+
+const MidiLearnContext = createContext<MidiLearnContextValue | null>(null);
+
+/**
+ * Captures CC and note sources for named learn targets and tracks their values.
+ *
+ * `learn(target)` binds the next CC or note-on from the runtime to `target`;
+ * `PatchRenderer` and `useMidiLearnValue` read the bound values. Must be
+ * placed inside a `MidiProvider`.
+ */
+export const MidiLearnProvider: FC<MidiLearnProviderProps> = ({ children, defaultBindings, onChange }) => {
+    const { runtime } = useMidiContext();
+    const [map, setMap] = useState<MidiLearnMap>(() => (
+        defaultBindings ? parseMidiLearnMap(defaultBindings) : EMPTY_MIDI_LEARN_MAP
+    ));
+    const [learning, setLearning] = useState<string | null>(null);
+    const [values, setValues] = useState<ReadonlyMap<string, number>>(() => new Map());
+    const [targets, setTargets] = useState<readonly MidiLearnTarget[]>([]);
+
+    const mapRef = useRef(map);
+    const learningRef = useRef(learning);
+    const onChangeRef = useRef(onChange);
+    const lastHandledSeqRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    const commit = useCallback((next: MidiLearnMap) => {
+        mapRef.current = next;
+        setMap(next);
+        setValues((previous) => {
+            const bound = new Set(next.bindings.map((binding) => binding.target));
+            return new Map(Array.from(previous).filter(([target]) => bound.has(target)));
+        });
+        onChangeRef.current?.(next);
+    }, []);
+
+    const setLearningTarget = useCallback((target: string | null) => {
+        learningRef.current = target;
+        setLearning(target);
+    }, []);
+
+    // Follow every inbound message: several can arrive between two renders
+    useEffect(() => {
+        lastHandledSeqRef.current = runtime.getSnapshot().lastInputEvent?.seq ?? null;
+
+        return runtime.subscribe(() => {
+            const event = runtime.getSnapshot().lastInputEvent;
+            if (!event || event.seq === lastHandledSeqRef.current) return;
+            lastHandledSeqRef.current = event.seq;
+
+            const target = learningRef.current;
+            const captured = target ? captureMidiLearnBinding(target, event) : null;
+            if (captured) {
+                setLearningTarget(null);
+                commit(bindMidiLearnSource(mapRef.current, captured));
+            }
+
+            const updates = mapRef.current.bindings.flatMap((binding) => {
+                const value = getMidiLearnValue(binding, event);
+                return value === null ? [] : [[binding.target, value] as const];
+            });
+            if (updates.length === 0) return;
+            setValues((previous) => {
+                const next = new Map(previous);
+                updates.forEach(([key, value]) => next.set(key, value));
+                return next;
+            });
+        });
+    }, [commit, runtime, setLearningTarget]);
+
+    const learn = useCallback((target: string) => setLearningTarget(target), [setLearningTarget]);
+    const cancel = useCallback(() => setLearningTarget(null), [setLearningTarget]);
+
+    const unbind = useCallback((target: string) => {
+        const bindings = mapRef.current.bindings.filter((binding) => binding.target !== target);
+        if (bindings.length !== mapRef.current.bindings.length) {
+            commit({ version: 1, bindings });
+        }
+    }, [commit]);
+
+    const clear = useCallback(() => {
+        setLearningTarget(null);
+        commit(EMPTY_MIDI_LEARN_MAP);
+    }, [commit, setLearningTarget]);
+
+    const load = useCallback((next: MidiLearnMap | string) => {
+        commit(parseMidiLearnMap(next));
+    }, [commit]);
+
+    const registerTarget = useCallback((target: MidiLearnTarget) => {
+        setTargets((previous) => [...previous.filter((entry) => entry.id !== target.id), target]);
+        return () => {
+            setTargets((previous) => previous.filter((entry) => entry !== target));
+        };
+    }, []);
+
+    const value = useMemo<MidiLearnContextValue>(() => ({
+        learning,
+        map,
+        targets,
+        values,
+        learn,
+        cancel,
+        unbind,
+        clear,
+        load,
+        registerTarget,
+    }), [cancel, clear, learn, learning, load, map, registerTarget, targets, unbind, values]);
+
+    return (
+        <MidiLearnContext.Provider value={value}>
+            {children}
+        </MidiLearnContext.Provider>
+    );
+};
+
+/**
+ * Returns the MIDI learn state and controls.
+ *
+ * @throws When used outside of `MidiLearnProvider`.
+ * @returns MIDI learn context value from the nearest provider.
+ */
+export function useMidiLearn(): MidiLearnContextValue {
+    const context = useContext(MidiLearnContext);
+    if (!context) {
+        throw new Error('useMidiLearn must be used within a MidiLearnProvider');
+    }
+    return context;
+}
+
+/**
+ * Registers a learnable parameter and returns its learned value scaled to `min`-`max`.
+ *
+ * @param target - Learn target id, unique within the provider.
+ * @param options - Display label and output range (defaults to 0-1).
+ * @returns Scaled value (null until the bound source sends), binding, and learn controls.
+ */
+export function useMidiLearnValue(target: string, options: MidiLearnValueOptions = {}): MidiLearnValue {
+    const { learning, map, values, learn, unbind, registerTarget } = useMidiLearn();
+    const { label = target, min = 0, max = 1 } = options;
+
+    useEffect(() => registerTarget({ id: target, label, min, max }), [label, max, min, registerTarget, target]);
+
+    const normalized = values.get(target) ?? null;
+    const binding = useMemo(
+        () => map.bindings.find((entry) => entry.target === target) ?? null,
+        [map, target]
+    );
+    const learnTarget = useCallback(() => learn(target), [learn, target]);
+    const unbindTarget = useCallback(() => unbind(target), [target, unbind]);
+
+    return {
+        value: normalized === null ? null : min + normalized * (max - min),
+        normalized,
+        binding,
+        learning: learning === target,
+        learn: learnTarget,
+        unbind: unbindTarget,
+    };
+}
+
+/**
+ * MIDI learn context when a provider is present, for components where
+ * learning is optional.
+ * @internal
+ */
+export function useOptionalMidiLearn(): MidiLearnContextValue | null {
+    return useContext(MidiLearnContext);
+}
@@ -3,10 +3,12 @@ import {
     useContext,
     useEffect,
     useMemo,
+    useRef,
+    useState,
     useSyncExternalStore,
     type FC,
 } from 'react';
-import type { MidiContextValue, MidiProviderProps, MidiRuntime } from './types';
+import type { MidiBackend, MidiContextValue, MidiProviderProps, MidiRuntime } from './types';
 import { createMidiRuntime } from './runtime';
 
 const sharedRuntime = createMidiRuntime();
@@ -16,16 +18,52 @@ function useMidiSnapshot(runtime: MidiRuntime) {
     return useSyncExternalStore(runtime.subscribe, runtime.getSnapshot, runtime.getSnapshot);
 }
 
+// A destroyed runtime cannot be reused, so each mount (including StrictMode remounts) creates its own
+function useBackendRuntime(backend: MidiBackend | undefined): MidiRuntime | null {
+    const [created, setCreated] = useState<{ backend: MidiBackend; runtime: MidiRuntime } | null>(null);
+
+    useEffect(() => {
+        if (!backend) return;
+        const runtime = createMidiRuntime({ backend });
+        setCreated({ backend, runtime });
+        return () => {
+            runtime.destroy();
+            setCreated((current) => (current?.runtime === runtime ? null : current));
+        };
+    }, [backend]);
+
+    return created && created.backend === backend ? created.runtime : null;
+}
+
+type MidiRuntimeProviderProps = Omit<MidiProviderProps, 'runtime' | 'backend'> & { runtime: MidiRuntime };
+
 /**
  * React context provider that wires Web MIDI permissions, default ports, and error hooks.
+ *
+ * With `backend` (and no `runtime`) it creates its own runtime on that
+ * backend, e.g. a virtual backend in tests, and destroys it on unmount or when
+ * `backend` changes. Children render once that runtime exists.
  */
-export const MidiProvider: FC<MidiProviderProps> = ({
+export const MidiProvider: FC<MidiProviderProps> = ({ runtime: runtimeProp, backend, ...props }) => {
+    const backendRuntime = useBackendRuntime(runtimeProp ? undefined : backend);
+    if (runtimeProp) {
+        return <MidiRuntimeProvider {...props} runtime={runtimeProp} />;
+    }
+    if (backend) {
+        return backendRuntime ? <MidiRuntimeProvider {...props} runtime={backendRuntime} /> : null;
+    }
+    return <MidiRuntimeProvider {...props} runtime={sharedRuntime} />;
+};
+
+const MidiRuntimeProvider: FC<MidiRuntimeProviderProps> = ({
     children,
-    runtime = sharedRuntime,
+    runtime,
     requestOnMount = false,
     defaultInputId,
     defaultOutputId,
     listenMode,
+    mpe,
+    sysex,
     onStateChange,
     onError,
 }) => {
@@ -50,11 +88,27 @@ export const MidiProvider: FC<MidiProviderProps> = ({
     }, [listenMode, runtime]);
 
     useEffect(() => {
-        if (!requestOnMount || snapshot.status === 'pending' || snapshot.status === 'granted') return;
-        void runtime.requestAccess().catch((error) => {
+        if (mpe !== undefined) {
+            runtime.setMpeConfig(mpe);
+        }
+    }, [mpe, runtime]);
+
+    // Upgrade access granted without sysex once; a refusal keeps the existing access
+    const needsSysex = Boolean(sysex) && !snapshot.sysexEnabled;
+    const sysexUpgradeRef = useRef(false);
+    useEffect(() => {
+        if (!needsSysex) {
+            sysexUpgradeRef.current = false;
+        }
+        if (!requestOnMount || snapshot.status === 'pending') return;
+        if (snapshot.status === 'granted') {
+            if (!needsSysex || sysexUpgradeRef.current) return;
+            sysexUpgradeRef.current = true;
+        }
+        void runtime.requestAccess(sysex === undefined ? undefined : { sysex }).catch((error) => {
             onError?.(error instanceof Error ? error : new Error('Failed to request MIDI access'));
         });
-    }, [onError, requestOnMount, runtime, snapshot.status]);
+    }, [needsSysex, onError, requestOnMount, runtime, snapshot.status, sysex]);
 
     useEffect(() => {
         onStateChange?.({ snapshot });
@@ -1,108 +1,128 @@
 import { useEffect, useRef, type FC } from 'react';
+import { useAudio } from '../core/AudioProvider';
 import { useTransport } from '../transport';
+import { useMidiContext } from './MidiProvider';
 import { useMidi, matchesInputSelection } from './useMidi';
 import type { MidiTransportSyncProps } from './types';
 
+const CLOCKS_PER_BEAT = 24;
+const SIXTEENTHS_PER_BEAT = 4;
+
+function getStepsPerBeat(transport: { beatDuration: number; stepDuration: number }): number {
+    return Math.max(1, Math.round(transport.beatDuration / transport.stepDuration));
+}
+
+function toSongPosition(totalSteps: number, stepsPerBeat: number): number {
+    return Math.floor((totalSteps * SIXTEENTHS_PER_BEAT) / stepsPerBeat);
+}
+
 export const MidiTransportSync: FC<MidiTransportSyncProps> = ({
     mode,
     inputId = null,
     outputId = null,
     sendStartStop = true,
     sendClock = true,
+    sendSongPosition = true,
 }) => {
     const midi = useMidi();
+    const { runtime } = useMidiContext();
+    const { context } = useAudio();
     const transport = useTransport();
+    const transportRef = useRef(transport);
+    const isPlayingRef = useRef(transport.isPlaying);
     const lastHandledSeqRef = useRef(0);
     const clockTimeRef = useRef<number | null>(null);
+    const lastSentPositionRef = useRef<number | null>(null);
+    const stepsPerBeat = getStepsPerBeat(transport);
     const previousTransportStateRef = useRef({
         isPlaying: transport.isPlaying,
         totalSteps: transport.totalSteps,
     });
 
+    useEffect(() => {
+        transportRef.current = transport;
+        isPlayingRef.current = transport.isPlaying;
+    }, [transport]);
+
     useEffect(() => {
         transport.setConfig({
             mode: mode === 'midi-master' ? 'manual' : 'raf',
         });
     }, [mode, transport.setConfig]);
 
+    // Follow every inbound message: several can arrive between two renders
     useEffect(() => {
         if (mode !== 'midi-master') return;
 
-        const event = midi.lastInputEvent;
-        if (!event || event.seq === lastHandledSeqRef.current) return;
-        if (!matchesInputSelection(event.inputId, inputId ?? 'default', {
-            supported: midi.supported,
-            status: midi.status,
-            error: midi.error,
-            inputs: midi.inputs,
-            outputs: midi.outputs,
-            defaultInputId: midi.defaultInputId,
-            defaultOutputId: midi.defaultOutputId,
-            listenMode: midi.listenMode,
-            lastInputEvent: midi.lastInputEvent,
-            lastOutputEvent: midi.lastOutputEvent,
-            activeNotes: new Map(),
-            ccValues: new Map(),
-            clock: midi.clock,
-            version: 0,
-        })) {
-            return;
-        }
+        // Clock ticks after a MIDI stop must not restart playback
+        let stopped = false;
 
-        lastHandledSeqRef.current = event.seq;
+        const handleMessage = () => {
+            const snapshot = runtime.getSnapshot();
+            const event = snapshot.lastInputEvent;
+            if (!event || event.seq === lastHandledSeqRef.current) return;
+            lastHandledSeqRef.current = event.seq;
+            if (!matchesInputSelection(event.inputId, inputId ?? 'default', snapshot)) {
+                return;
+            }
 
-        if (event.kind === 'start') {
-            clockTimeRef.current = 0;
-            transport.stop();
-            transport.play();
-            return;
-        }
+            const active = transportRef.current;
+            const now = context?.currentTime ?? 0;
 
-        if (event.kind === 'continue') {
-            clockTimeRef.current = transport.totalTime;
-            transport.play();
-            return;
-        }
+            if (event.kind === 'start') {
+                stopped = false;
+                clockTimeRef.current = now;
+                active.stop();
+                active.play();
+                isPlayingRef.current = true;
+                return;
+            }
 
-        if (event.kind === 'stop') {
-            clockTimeRef.current = 0;
-            transport.stop();
-            return;
-        }
+            if (event.kind === 'continue') {
+                stopped = false;
+                clockTimeRef.current = now;
+                active.play();
+                isPlayingRef.current = true;
+                return;
+            }
 
-        if (event.kind !== 'clock') {
-            return;
-        }
+            if (event.kind === 'stop') {
+                stopped = true;
+                active.pause();
+                isPlayingRef.current = false;
+                return;
+            }
 
-        const bpm = midi.clock.bpmEstimate ?? transport.bpm;
-        if (Number.isFinite(bpm) && bpm > 0) {
-            transport.setBpm(bpm);
-        }
+            if (event.kind === 'songposition' && event.rawValue !== null) {
+                clockTimeRef.current = now;
+                active.seek({ totalSteps: (event.rawValue * getStepsPerBeat(active)) / SIXTEENTHS_PER_BEAT });
+                return;
+            }
 
-        const tickDuration = 60 / (Math.max(1, bpm) * 24);
-        const nextTime = (clockTimeRef.current ?? transport.totalTime) + tickDuration;
-        clockTimeRef.current = nextTime;
+            if (event.kind !== 'clock') {
+                return;
+            }
 
-        if (!transport.isPlaying) {
-            transport.play();
-        }
+            const bpm = snapshot.clock.bpmEstimate ?? active.bpm;
+            if (Number.isFinite(bpm) && bpm > 0) {
+                active.setBpm(bpm);
+            }
+            if (stopped) return;
 
-        transport.update(nextTime);
-    }, [
-        inputId,
-        midi.clock,
-        midi.defaultInputId,
-        midi.error,
-        midi.inputs,
-        midi.lastInputEvent,
-        midi.lastOutputEvent,
-        midi.listenMode,
-        midi.outputs,
-        midi.status,
-        midi.supported,
-        mode,
-        transport,
-    ]);
+            const tickDuration = 60 / (Math.max(1, bpm) * CLOCKS_PER_BEAT);
+            const nextTime = (clockTimeRef.current ?? now) + tickDuration;
+            clockTimeRef.current = nextTime;
+
+            if (!isPlayingRef.current) {
+                active.play();
+                isPlayingRef.current = true;
+            }
+
+            active.update(nextTime);
+        };
+
+        return runtime.subscribe(handleMessage);
+    }, [context, inputId, mode, runtime]);
 
     useEffect(() => {
         if (mode !== 'transport-master' || !sendStartStop) {
@@ -121,6 +141,11 @@ export const MidiTransportSync: FC<MidiTransportSyncProps> = ({
                 totalSteps: transport.totalSteps,
             };
             if (transport.totalSteps > 0) {
+                const position = toSongPosition(transport.totalSteps, stepsPerBeat);
+                if (sendSongPosition && lastSentPositionRef.current !== position) {
+                    midi.sendSongPosition({ outputId, position });
+                    lastSentPositionRef.current = position;
+                }
                 if (midi.sendContinue({ outputId, channel: 1 })) {
                     previousTransportStateRef.current = nextState;
                 }
@@ -146,22 +171,58 @@ export const MidiTransportSync: FC<MidiTransportSyncProps> = ({
         };
     }, [
         midi.sendContinue,
+        midi.sendSongPosition,
         midi.sendStart,
         midi.sendStop,
         midi.status,
         mode,
         outputId,
+        sendSongPosition,
         sendStartStop,
+        stepsPerBeat,
+        transport.isPlaying,
+        transport.totalSteps,
+    ]);
+
+    // Report relocations while stopped, as a DAW does before the next continue
+    useEffect(() => {
+        if (mode !== 'transport-master' || !sendSongPosition || transport.isPlaying) return;
+        const position = toSongPosition(transport.totalSteps, stepsPerBeat);
+        if (lastSentPositionRef.current === position) return;
+        if (midi.sendSongPosition({ outputId, position })) {
+            lastSentPositionRef.current = position;
+        }
+    }, [
+        midi.sendSongPosition,
+        midi.status,
+        mode,
+        outputId,
+        sendSongPosition,
+        stepsPerBeat,
         transport.isPlaying,
         transport.totalSteps,
     ]);
 
+    // Report jumps during playback (seeks and loop wraps)
+    useEffect(() => {
+        if (mode !== 'transport-master' || !sendSongPosition || !transport.isPlaying) return;
+        let expectedStep: number | null = null;
+        return transport.subscribe((tick) => {
+            if (expectedStep !== null && tick.totalSteps !== expectedStep) {
+                const position = toSongPosition(tick.totalSteps, stepsPerBeat);
+                midi.sendSongPosition({ outputId, position });
+                lastSentPositionRef.current = position;
+            }
+            expectedStep = tick.totalSteps + 1;
+        });
+    }, [midi.sendSongPosition, mode, outputId, sendSongPosition, stepsPerBeat, transport.isPlaying, transport.subscribe]);
+
     useEffect(() => {
         if (mode !== 'transport-master' || !sendClock || !transport.isPlaying || typeof window === 'undefined') {
             return;
         }
 
-        const intervalMs = 60000 / (Math.max(1, transport.bpm) * 24);
+        const intervalMs = 60000 / (Math.max(1, transport.bpm) * CLOCKS_PER_BEAT);
         const intervalId = window.setInterval(() => {
             midi.sendClock({ outputId, channel: 1 });
         }, intervalMs);
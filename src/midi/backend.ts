@@ -0,0 +1,209 @@
+import type {
+    MidiBackend,
+    MidiBackendAccess,
+    MidiBackendInput,
+    MidiBackendOutput,
+    VirtualMidiBackend,
+    VirtualMidiBackendOptions,
+    VirtualMidiInput,
+    VirtualMidiOutput,
+    VirtualMidiPortOptions,
+    VirtualMidiScriptEvent,
+} from './types';
+
+/**
+ * Creates the default backend, backed by `navigator.requestMIDIAccess`.
+ *
+ * @returns Backend reporting support from the current `navigator` on every call.
+ */
+export function createWebMidiBackend(): MidiBackend {
+    return {
+        isSupported() {
+            return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+        },
+        async requestAccess(options) {
+            const access = await navigator.requestMIDIAccess(options);
+            return access as unknown as MidiBackendAccess;
+        },
+    };
+}
+
+class VirtualInputPort extends EventTarget implements VirtualMidiInput {
+    readonly type = 'input' as const;
+    state: MIDIPortDeviceState = 'connected';
+    readonly connection: MIDIPortConnectionState = 'open';
+    readonly name: string;
+    readonly manufacturer: string;
+
+    constructor(public readonly id: string, name?: string, manufacturer?: string) {
+        super();
+        this.name = name ?? id;
+        this.manufacturer = manufacturer ?? 'Virtual';
+    }
+
+    emit(data: readonly number[] | Uint8Array) {
+        if (this.state !== 'connected') return;
+        const event = new Event('midimessage') as Event & { data?: Uint8Array };
+        event.data = Uint8Array.from(data);
+        this.dispatchEvent(event);
+    }
+}
+
+class VirtualOutputPort implements VirtualMidiOutput {
+    readonly type = 'output' as const;
+    state: MIDIPortDeviceState = 'connected';
+    readonly connection: MIDIPortConnectionState = 'open';
+    readonly name: string;
+    readonly manufacturer: string;
+    readonly sent: number[][] = [];
+    private readonly listeners = new Set<(data: number[]) => void>();
+
+    constructor(public readonly id: string, name?: string, manufacturer?: string) {
+        this.name = name ?? id;
+        this.manufacturer = manufacturer ?? 'Virtual';
+    }
+
+    send(data: number[]) {
+        if (this.state !== 'connected') return;
+        const message = Array.from(data);
+        this.sent.push(message);
+        this.listeners.forEach((listener) => listener(message));
+    }
+
+    subscribe(listener: (data: number[]) => void) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+function createNotAllowedError(): Error {
+    const error = new Error('Virtual MIDI access was denied.');
+    error.name = 'NotAllowedError';
+    return error;
+}
+
+/**
+ * Creates an in-memory MIDI backend for tests and headless hosts.
+ *
+ * Virtual inputs emit messages on demand or from a timed script, virtual
+ * outputs record what the runtime sends, and `connect` routes an output into
+ * an input so sent messages come back as input (loopback). Delivery is
+ * synchronous.
+ *
+ * @param options - Initial ports, loopback pair, and permission behavior.
+ * @returns Backend to pass to `createMidiRuntime` or `MidiProvider`.
+ */
+export function createVirtualMidiBackend(options: VirtualMidiBackendOptions = {}): VirtualMidiBackend {
+    const inputs = new Map<string, VirtualInputPort>();
+    const outputs = new Map<string, VirtualOutputPort>();
+    const accesses = new Set<MidiBackendAccess>();
+    const allowSysex = options.allowSysex ?? true;
+
+    const notifyStateChange = () => {
+        accesses.forEach((access) => access.onstatechange?.(new Event('statechange')));
+    };
+
+    const backend: VirtualMidiBackend = {
+        inputs,
+        outputs,
+        isSupported() {
+            return true;
+        },
+        async requestAccess(request) {
+            if (options.denyAccess) {
+                throw createNotAllowedError();
+            }
+            const access: MidiBackendAccess = {
+                inputs: inputs as ReadonlyMap<string, MidiBackendInput>,
+                outputs: outputs as ReadonlyMap<string, MidiBackendOutput>,
+                sysexEnabled: request.sysex && allowSysex,
+                onstatechange: null,
+            };
+            accesses.add(access);
+            return access;
+        },
+        addInput(port: VirtualMidiPortOptions) {
+            if (inputs.has(port.id)) {
+                throw new Error(`Virtual MIDI input "${port.id}" already exists.`);
+            }
+            const input = new VirtualInputPort(port.id, port.name, port.manufacturer);
+            inputs.set(port.id, input);
+            notifyStateChange();
+            return input;
+        },
+        addOutput(port: VirtualMidiPortOptions) {
+            if (outputs.has(port.id)) {
+                throw new Error(`Virtual MIDI output "${port.id}" already exists.`);
+            }
+            const output = new VirtualOutputPort(port.id, port.name, port.manufacturer);
+            outputs.set(port.id, output);
+            notifyStateChange();
+            return output;
+        },
+        removePort(id: string) {
+            const port = inputs.get(id) ?? outputs.get(id);
+            if (!port) return;
+            port.state = 'disconnected';
+            inputs.delete(id);
+            outputs.delete(id);
+            notifyStateChange();
+        },
+        connect(outputId: string, inputId: string) {
+            const output = outputs.get(outputId);
+            const input = inputs.get(inputId);
+            if (!output) {
+                throw new Error(`Unknown virtual MIDI output "${outputId}".`);
+            }
+            if (!input) {
+                throw new Error(`Unknown virtual MIDI input "${inputId}".`);
+            }
+            return output.subscribe((data) => input.emit(data));
+        },
+        play(script: readonly VirtualMidiScriptEvent[]) {
+            const timers = new Set<ReturnType<typeof setTimeout>>();
+            let finish: () => void = () => undefined;
+            const done = new Promise<void>((resolve) => {
+                finish = resolve;
+            });
+
+            const events = [...script].sort((a, b) => a.at - b.at);
+            if (events.length === 0) {
+                finish();
+            }
+            events.forEach((event, index) => {
+                const timer = setTimeout(() => {
+                    timers.delete(timer);
+                    const input = event.inputId
+                        ? inputs.get(event.inputId)
+                        : inputs.values().next().value;
+                    input?.emit(event.data);
+                    if (index === events.length - 1) {
+                        finish();
+                    }
+                }, Math.max(0, event.at));
+                timers.add(timer);
+            });
+
+            return {
+                done,
+                cancel() {
+                    timers.forEach((timer) => clearTimeout(timer));
+                    timers.clear();
+                    finish();
+                },
+            };
+        },
+    };
+
+    options.inputs?.forEach((port) => backend.addInput(port));
+    options.outputs?.forEach((port) => backend.addOutput(port));
+    if (options.loopback) {
+        backend.addInput({ id: 'loopback-in', name: 'Loopback' });
+        backend.addOutput({ id: 'loopback-out', name: 'Loopback' });
+        backend.connect('loopback-out', 'loopback-in');
+    }
+
+    return backend;
+}
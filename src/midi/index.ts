@@ -1,45 +1,120 @@
 export { createMidiRuntime } from './runtime';
+export { createWebMidiBackend, createVirtualMidiBackend } from './backend';
 export { MidiProvider, useMidiContext } from './MidiProvider';
-export { useMidi, useMidiNote, useMidiCC, useMidiClock } from './useMidi';
+export { MidiLearnProvider, useMidiLearn, useMidiLearnValue } from './MidiLearnProvider';
+export { parseMidiLearnMap, serializeMidiLearnMap } from './learn';
+export {
+    useMidi,
+    useMidiNote,
+    useMidiCC,
+    useMidiPitchBend,
+    useMidiAftertouch,
+    useMidiProgram,
+    useMpeNotes,
+    useMidiSysex,
+    useMidiClock,
+} from './useMidi';
+export { useMidiRecorder } from './useMidiRecorder';
 export { MidiNoteInput } from './MidiNoteInput';
 export { MidiCCInput } from './MidiCCInput';
 export { MidiNoteOutput } from './MidiNoteOutput';
 export { MidiCCOutput } from './MidiCCOutput';
 export { MidiTransportSync } from './MidiTransportSync';
+export { MidiFilePlayer } from './MidiFilePlayer';
+export { parseMidiFile, midiTicksToSeconds, patternsToMidiFile } from './smf';
 
 export type {
+    MidiAccessRequestOptions,
     MidiAccessStatus,
+    MidiAftertouchFilterOptions,
+    MidiAftertouchSendOptions,
+    MidiAftertouchState,
+    MidiAftertouchValue,
+    MidiBackend,
+    MidiBackendAccess,
+    MidiBackendInput,
+    MidiBackendOutput,
+    MidiBackendPort,
     MidiCCFilterOptions,
     MidiCCInputProps,
     MidiCCOutputProps,
     MidiCCState,
     MidiCCValue,
     MidiChannelFilter,
+    MidiChannelMessageFilterOptions,
     MidiClockFilterOptions,
     MidiClockState,
     MidiClockValue,
     MidiContextValue,
+    MidiFile,
+    MidiFileFormat,
+    MidiFileNote,
+    MidiFilePlayerProps,
+    MidiFileTempo,
+    MidiFileTimeSignature,
+    MidiFileTrack,
+    MidiFileWriteOptions,
     MidiInputEventData,
+    MidiLearnBinding,
+    MidiLearnContextValue,
+    MidiLearnMap,
+    MidiLearnProviderProps,
+    MidiLearnSourceKind,
+    MidiLearnTarget,
+    MidiLearnValue,
+    MidiLearnValueOptions,
     MidiListenMode,
     MidiMessageKind,
+    MidiMpeNote,
+    MidiMpeNotesOptions,
+    MidiMpeNotesValue,
+    MidiMpeOptions,
+    MidiMpeState,
+    MidiMpeVoice,
+    MidiMpeZone,
+    MidiMpeZoneName,
+    MidiMpeZoneOptions,
     MidiNoteFilter,
+    MidiNoteExpression,
     MidiNoteFilterOptions,
     MidiNoteInputProps,
     MidiNoteOutputProps,
     MidiNoteState,
     MidiNoteValue,
     MidiOutputEventData,
+    MidiPatternTrack,
+    MidiPitchBendSendOptions,
+    MidiPitchBendState,
+    MidiPitchBendValue,
     MidiPortDescriptor,
     MidiPortSelection,
+    MidiProgramSendOptions,
+    MidiProgramState,
+    MidiProgramValue,
     MidiProviderProps,
+    MidiRecordedNote,
+    MidiRecorderMode,
+    MidiRecorderOptions,
+    MidiRecorderValue,
     MidiRuntime,
     MidiRuntimeOptions,
     MidiRuntimeSnapshot,
     MidiSendOptions,
+    MidiSongPositionSendOptions,
     MidiSourceInfo,
     MidiStateChangeEvent,
+    MidiSysexFilterOptions,
+    MidiSysexSendOptions,
+    MidiSysexValue,
     MidiTransportSyncMode,
     MidiTransportSyncProps,
     MidiValue,
     MidiValueFormat,
+    VirtualMidiBackend,
+    VirtualMidiBackendOptions,
+    VirtualMidiInput,
+    VirtualMidiOutput,
+    VirtualMidiPlayback,
+    VirtualMidiPortOptions,
+    VirtualMidiScriptEvent,
 } from './types';
@@ -0,0 +1,107 @@
+import type { MidiInputEventData, MidiLearnBinding, MidiLearnMap, MidiLearnSourceKind } from './types';
+
+export const EMPTY_MIDI_LEARN_MAP: MidiLearnMap = { version: 1, bindings: [] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseBinding(value: unknown, index: number): MidiLearnBinding {
+    if (!isRecord(value)) {
+        throw new Error(`Invalid MIDI learn map: binding ${index} is not an object.`);
+    }
+    const { target, kind, inputId, channel, number } = value;
+    if (typeof target !== 'string' || !target) {
+        throw new Error(`Invalid MIDI learn map: binding ${index} has no target.`);
+    }
+    if (kind !== 'cc' && kind !== 'note') {
+        throw new Error(`Invalid MIDI learn map: binding "${target}" has unknown kind "${String(kind)}".`);
+    }
+    if (typeof inputId !== 'string') {
+        throw new Error(`Invalid MIDI learn map: binding "${target}" has no inputId.`);
+    }
+    if (!Number.isInteger(channel) || (channel as number) < 1 || (channel as number) > 16) {
+        throw new Error(`Invalid MIDI learn map: binding "${target}" channel must be 1-16.`);
+    }
+    if (!Number.isInteger(number) || (number as number) < 0 || (number as number) > 127) {
+        throw new Error(`Invalid MIDI learn map: binding "${target}" number must be 0-127.`);
+    }
+    return { target, kind, inputId, channel: channel as number, number: number as number };
+}
+
+/**
+ * Parse a MIDI learn map from its JSON string or an already parsed object.
+ *
+ * @throws When the map is not version 1 or a binding is malformed.
+ */
+export function parseMidiLearnMap(input: MidiLearnMap | string): MidiLearnMap {
+    const value: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+    if (!isRecord(value) || value.version !== 1 || !Array.isArray(value.bindings)) {
+        throw new Error('Invalid MIDI learn map: expected { version: 1, bindings: [] }.');
+    }
+    return { version: 1, bindings: value.bindings.map(parseBinding) };
+}
+
+/**
+ * Serialize a MIDI learn map to JSON for storage.
+ */
+export function serializeMidiLearnMap(map: MidiLearnMap): string {
+    return JSON.stringify(map);
+}
+
+function getSourceKind(event: MidiInputEventData): MidiLearnSourceKind | null {
+    if (event.kind === 'cc') return 'cc';
+    if (event.kind === 'noteon' || event.kind === 'noteoff') return 'note';
+    return null;
+}
+
+/**
+ * Build the binding a learn target gets from the message that was captured
+ * for it. Only CCs and note-ons are learnable.
+ */
+export function captureMidiLearnBinding(target: string, event: MidiInputEventData): MidiLearnBinding | null {
+    if (event.kind !== 'cc' && event.kind !== 'noteon') return null;
+    const number = event.kind === 'cc' ? event.cc : event.note;
+    if (event.channel === null || number === null) return null;
+    return {
+        target,
+        kind: getSourceKind(event) as MidiLearnSourceKind,
+        inputId: event.inputId,
+        channel: event.channel,
+        number,
+    };
+}
+
+function isSameSource(a: MidiLearnBinding, b: MidiLearnBinding): boolean {
+    return a.kind === b.kind && a.inputId === b.inputId && a.channel === b.channel && a.number === b.number;
+}
+
+/**
+ * Add a binding, replacing the target's previous binding and taking the
+ * source away from any other target.
+ */
+export function bindMidiLearnSource(map: MidiLearnMap, binding: MidiLearnBinding): MidiLearnMap {
+    return {
+        version: 1,
+        bindings: [
+            ...map.bindings.filter((entry) => entry.target !== binding.target && !isSameSource(entry, binding)),
+            binding,
+        ],
+    };
+}
+
+/**
+ * Normalized value (0-1) an inbound message carries for a binding: the CC
+ * value, the note-on velocity, or 0 on note-off.
+ *
+ * @returns The value, or null when the message is not from the bound source.
+ */
+export function getMidiLearnValue(binding: MidiLearnBinding, event: MidiInputEventData): number | null {
+    if (getSourceKind(event) !== binding.kind) return null;
+    if (event.inputId !== binding.inputId || event.channel !== binding.channel) return null;
+    if (binding.kind === 'cc') {
+        return event.cc === binding.number ? event.normalizedValue ?? 0 : null;
+    }
+    if (event.note !== binding.number) return null;
+    return event.kind === 'noteon' ? event.velocity ?? 0 : 0;
+}
@@ -0,0 +1,74 @@
+import type { MidiMpeOptions, MidiMpeState, MidiMpeZone, MidiMpeZoneName, MidiMpeZoneOptions } from './types';
+
+const DEFAULT_MEMBER_PITCH_BEND_RANGE = 48;
+const DEFAULT_MASTER_PITCH_BEND_RANGE = 2;
+const MAX_MEMBER_CHANNELS = 15;
+
+export const EMPTY_MPE_STATE: MidiMpeState = { lower: null, upper: null };
+
+function clampMemberCount(value: number, max: number): number {
+    if (!Number.isFinite(value)) return 0;
+    return Math.max(0, Math.min(max, Math.round(value)));
+}
+
+function toRange(value: number | undefined, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function buildZone(name: MidiMpeZoneName, options: MidiMpeZoneOptions, memberCount: number): MidiMpeZone | null {
+    if (memberCount <= 0) return null;
+    const masterChannel = name === 'lower' ? 1 : 16;
+    const direction = name === 'lower' ? 1 : -1;
+    return {
+        name,
+        masterChannel,
+        memberChannels: Array.from({ length: memberCount }, (_, index) => masterChannel + direction * (index + 1)),
+        pitchBendRange: toRange(options.pitchBendRange, DEFAULT_MEMBER_PITCH_BEND_RANGE),
+        masterPitchBendRange: toRange(options.masterPitchBendRange, DEFAULT_MASTER_PITCH_BEND_RANGE),
+    };
+}
+
+/**
+ * Resolve zone options into concrete channel layouts.
+ *
+ * The lower zone wins when both zones ask for more channels than exist: the
+ * upper zone keeps only the channels left between them.
+ */
+export function resolveMpeZones(options: MidiMpeOptions | null | undefined): MidiMpeState {
+    if (!options) return EMPTY_MPE_STATE;
+
+    const lowerCount = options.lower ? clampMemberCount(options.lower.memberChannels, MAX_MEMBER_CHANNELS) : 0;
+    const lower = options.lower ? buildZone('lower', options.lower, lowerCount) : null;
+    const upperMax = lower ? MAX_MEMBER_CHANNELS - 1 - lowerCount : MAX_MEMBER_CHANNELS;
+    const upper = options.upper
+        ? buildZone('upper', options.upper, clampMemberCount(options.upper.memberChannels, upperMax))
+        : null;
+
+    return lower || upper ? { lower, upper } : EMPTY_MPE_STATE;
+}
+
+function isSameZone(left: MidiMpeZone | null, right: MidiMpeZone | null): boolean {
+    if (!left || !right) return left === right;
+    return left.memberChannels.length === right.memberChannels.length
+        && left.pitchBendRange === right.pitchBendRange
+        && left.masterPitchBendRange === right.masterPitchBendRange;
+}
+
+/**
+ * Compare two resolved layouts so repeated provider props do not re-emit.
+ */
+export function isSameMpeState(left: MidiMpeState, right: MidiMpeState): boolean {
+    return isSameZone(left.lower, right.lower) && isSameZone(left.upper, right.upper);
+}
+
+/**
+ * Find the zone a channel belongs to, either as its master or as a member.
+ */
+export function getMpeZone(state: MidiMpeState, channel: number): MidiMpeZone | null {
+    for (const zone of [state.lower, state.upper]) {
+        if (zone && (zone.masterChannel === channel || zone.memberChannels.includes(channel))) {
+            return zone;
+        }
+    }
+    return null;
+}
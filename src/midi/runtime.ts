@@ -1,28 +1,52 @@
 import type {
+    MidiAccessRequestOptions,
+    MidiAftertouchSendOptions,
+    MidiAftertouchState,
+    MidiBackendAccess,
+    MidiBackendInput,
+    MidiBackendOutput,
+    MidiBackendPort,
     MidiCCSendOptions,
     MidiCCState,
     MidiClockState,
     MidiInputEventData,
     MidiListenMode,
     MidiMessageKind,
+    MidiNoteExpression,
     MidiNoteSendOptions,
     MidiNoteState,
     MidiOutputEventData,
+    MidiPitchBendSendOptions,
+    MidiPitchBendState,
     MidiPortDescriptor,
+    MidiProgramSendOptions,
+    MidiProgramState,
     MidiRuntime,
     MidiRuntimeOptions,
     MidiRuntimeSnapshot,
     MidiSendOptions,
+    MidiSongPositionSendOptions,
+    MidiSysexSendOptions,
     MidiValueFormat,
 } from './types';
+import { createWebMidiBackend } from './backend';
+import { getMpeZone, isSameMpeState, resolveMpeZones } from './mpe';
 
 const MAX_CLOCK_INTERVALS = 24;
+const PITCH_BEND_CENTER = 8192;
+const PITCH_BEND_MAX = 16383;
+const DEFAULT_PITCH_BEND_RANGE = 2;
+const TIMBRE_CC = 74;
+const CLOCKS_PER_SIXTEENTH = 6;
+const MAX_SONG_POSITION = 16383;
+const DEFAULT_SYSEX_BUFFER_SIZE = 32;
 
 const EMPTY_CLOCK_STATE: MidiClockState = {
     running: false,
     bpmEstimate: null,
     tickCount: 0,
     lastTickAt: null,
+    songPosition: 0,
     sourceInputId: null,
 };
 
@@ -42,7 +66,35 @@ function normalizeValue(value: number, format: MidiValueFormat = 'normalized'):
     return clampMidi(Math.max(0, Math.min(1, value)) * 127);
 }
 
-function parsePort(port: MIDIPort): MidiPortDescriptor {
+function toPitchBendValue(raw: number): number {
+    const offset = raw - PITCH_BEND_CENTER;
+    return offset / (offset > 0 ? PITCH_BEND_MAX - PITCH_BEND_CENTER : PITCH_BEND_CENTER);
+}
+
+function toPitchBendRaw(value: number, format: MidiValueFormat = 'normalized'): number {
+    if (format === 'raw') {
+        return Math.max(0, Math.min(PITCH_BEND_MAX, Math.round(value)));
+    }
+    const clamped = Math.max(-1, Math.min(1, value));
+    return Math.round(PITCH_BEND_CENTER + clamped * (clamped > 0 ? PITCH_BEND_MAX - PITCH_BEND_CENTER : PITCH_BEND_CENTER));
+}
+
+function frameSysex(data: readonly number[] | Uint8Array): number[] {
+    const bytes = Array.from(data);
+    const framed = bytes[0] === 0xF0 ? bytes : [0xF0, ...bytes, 0xF7];
+    if (framed.length < 2 || framed[framed.length - 1] !== 0xF7) {
+        throw new Error('Sysex messages starting with 0xF0 must end with 0xF7.');
+    }
+    for (let index = 1; index < framed.length - 1; index += 1) {
+        const byte = framed[index];
+        if (!Number.isInteger(byte) || byte < 0 || byte > 0x7F) {
+            throw new Error(`Invalid sysex data byte ${byte} at index ${index}; sysex data must be 7-bit.`);
+        }
+    }
+    return framed;
+}
+
+function parsePort(port: MidiBackendPort): MidiPortDescriptor {
     return {
         id: port.id,
         type: port.type,
@@ -59,10 +111,10 @@ function resolvePortId(selection: string | null | undefined, availableIds: Set<s
 }
 
 function resolveOutput(
-    midiAccess: MIDIAccess | null,
+    midiAccess: MidiBackendAccess | null,
     outputId: string | null | undefined,
     defaultOutputId: string | null
-): MIDIOutput | null {
+): MidiBackendOutput | null {
     if (!midiAccess) return null;
 
     if (outputId && outputId !== 'default') {
@@ -116,10 +168,9 @@ export function freqToMidiNote(frequency: number): number {
  * @returns Runtime handle with subscribe/getSnapshot and send helpers.
  */
 export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime {
-    let midiAccess: MIDIAccess | null = null;
-    let status: MidiRuntimeSnapshot['status'] = typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function'
-        ? 'idle'
-        : 'unsupported';
+    const backend = options.backend ?? createWebMidiBackend();
+    let midiAccess: MidiBackendAccess | null = null;
+    let status: MidiRuntimeSnapshot['status'] = backend.isSupported() ? 'idle' : 'unsupported';
     let error: Error | null = null;
     let inputs: MidiPortDescriptor[] = [];
     let outputs: MidiPortDescriptor[] = [];
@@ -130,14 +181,27 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
     let lastOutputEvent: MidiOutputEventData | null = null;
     let activeNotes = new Map<string, MidiNoteState>();
     let ccValues = new Map<string, MidiCCState>();
+    const pitchBend = new Map<string, MidiPitchBendState>();
+    const aftertouch = new Map<string, MidiAftertouchState>();
+    const programs = new Map<string, MidiProgramState>();
+    let mpe = resolveMpeZones(options.mpe);
     let clock = { ...EMPTY_CLOCK_STATE };
+    // Clock ticks since the song start; frozen between stop and continue
+    let songPositionTicks = 0;
+    let songStopped = false;
+    const sysexRequested = options.sysex ?? false;
+    const sysexBufferSize = Math.max(1, Math.floor(options.sysexBufferSize ?? DEFAULT_SYSEX_BUFFER_SIZE));
+    let sysexEnabled = false;
+    let sysexMessages: MidiInputEventData[] = [];
+    // Partial sysex packets per input, until their closing 0xF7
+    const pendingSysex = new Map<string, number[]>();
     let version = 0;
     let seq = 0;
     let destroyed = false;
     let cachedSnapshot: MidiRuntimeSnapshot | null = null;
     let cachedSnapshotVersion = -1;
     const listeners = new Set<() => void>();
-    const attachedInputs = new Map<string, MIDIInput>();
+    const attachedInputs = new Map<string, MidiBackendInput>();
     const clockIntervals: number[] = [];
 
     const emit = () => {
@@ -174,13 +238,50 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         });
     };
 
+    const getNoteExpression = (inputId: string, channel: number): MidiNoteExpression => {
+        const zone = getMpeZone(mpe, channel);
+        const channelBend = pitchBend.get(`${inputId}:${channel}`)?.value ?? 0;
+        let bendSemitones = channelBend * DEFAULT_PITCH_BEND_RANGE;
+        if (zone) {
+            const masterBend = pitchBend.get(`${inputId}:${zone.masterChannel}`)?.value ?? 0;
+            bendSemitones = channel === zone.masterChannel
+                ? masterBend * zone.masterPitchBendRange
+                : channelBend * zone.pitchBendRange + masterBend * zone.masterPitchBendRange;
+        }
+
+        return {
+            pitchBend: bendSemitones,
+            pressure: aftertouch.get(`${inputId}:${channel}:channel`)?.normalized ?? 0,
+            timbre: ccValues.get(`${inputId}:${channel}:${TIMBRE_CC}`)?.normalized ?? 0.5,
+        };
+    };
+
+    const refreshNoteExpression = (inputId: string | null, channel: number | null) => {
+        const masterZone = channel === null ? null : getMpeZone(mpe, channel);
+        const isMaster = masterZone !== null && masterZone.masterChannel === channel;
+        activeNotes.forEach((state, key) => {
+            if (inputId !== null && state.inputId !== inputId) return;
+            if (channel !== null && state.channel !== channel) {
+                if (!isMaster || getMpeZone(mpe, state.channel) !== masterZone) return;
+            }
+            activeNotes.set(key, {
+                ...state,
+                zone: getMpeZone(mpe, state.channel)?.name ?? null,
+                expression: getNoteExpression(state.inputId, state.channel),
+            });
+        });
+    };
+
     const handleClockMessage = (event: MidiInputEventData) => {
         if (event.kind === 'start') {
+            songPositionTicks = 0;
+            songStopped = false;
             clock = {
                 running: true,
                 bpmEstimate: null,
                 tickCount: 0,
                 lastTickAt: event.receivedAt,
+                songPosition: 0,
                 sourceInputId: event.inputId,
             };
             clockIntervals.length = 0;
@@ -188,6 +289,7 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         }
 
         if (event.kind === 'continue') {
+            songStopped = false;
             clock = {
                 ...clock,
                 running: true,
@@ -197,6 +299,7 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         }
 
         if (event.kind === 'stop') {
+            songStopped = true;
             clock = {
                 ...clock,
                 running: false,
@@ -205,6 +308,16 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
             return;
         }
 
+        if (event.kind === 'songposition' && event.rawValue !== null) {
+            songPositionTicks = event.rawValue * CLOCKS_PER_SIXTEENTH;
+            clock = {
+                ...clock,
+                songPosition: event.rawValue,
+                sourceInputId: event.inputId,
+            };
+            return;
+        }
+
         if (event.kind !== 'clock') return;
 
         if (clock.lastTickAt !== null) {
@@ -225,11 +338,16 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
             ? 60000 / (average * 24)
             : clock.bpmEstimate;
 
+        if (!songStopped) {
+            songPositionTicks += 1;
+        }
+
         clock = {
             running: true,
             bpmEstimate: bpmEstimate && Number.isFinite(bpmEstimate) ? bpmEstimate : null,
             tickCount: clock.tickCount + 1,
             lastTickAt: event.receivedAt,
+            songPosition: Math.floor(songPositionTicks / CLOCKS_PER_SIXTEENTH),
             sourceInputId: event.inputId,
         };
     };
@@ -241,7 +359,22 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         if (!inputId) return;
 
         if (!messageEvent.data) return;
-        const bytes = new Uint8Array(messageEvent.data);
+        let bytes = new Uint8Array(messageEvent.data);
+        const pending = pendingSysex.get(inputId);
+        const continuesSysex = pending !== undefined && (bytes[0] < 0x80 || bytes[0] === 0xF7);
+        if (bytes[0] === 0xF0 || continuesSysex) {
+            const buffer = continuesSysex && pending ? pending : [];
+            buffer.push(...bytes);
+            if (buffer[buffer.length - 1] !== 0xF7) {
+                pendingSysex.set(inputId, buffer);
+                return;
+            }
+            pendingSysex.delete(inputId);
+            bytes = Uint8Array.from(buffer);
+        } else if (pending !== undefined && bytes[0] < 0xF8) {
+            // Any status byte other than real-time aborts an unterminated sysex
+            pendingSysex.delete(inputId);
+        }
         const statusByte = bytes[0] ?? 0;
         const data1 = bytes[1] ?? 0;
         const data2 = bytes[2] ?? 0;
@@ -273,12 +406,33 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
                 rawValue = data2;
                 normalizedValue = data2 / 127;
                 kind = 'cc';
+            } else if (messageType === 0xE0) {
+                rawValue = data1 | (data2 << 7);
+                normalizedValue = toPitchBendValue(rawValue);
+                kind = 'pitchbend';
+            } else if (messageType === 0xA0) {
+                note = data1;
+                rawValue = data2;
+                normalizedValue = data2 / 127;
+                kind = 'polyaftertouch';
+            } else if (messageType === 0xD0) {
+                rawValue = data1;
+                normalizedValue = data1 / 127;
+                kind = 'channelaftertouch';
+            } else if (messageType === 0xC0) {
+                rawValue = data1;
+                normalizedValue = data1 / 127;
+                kind = 'programchange';
             }
         } else {
             if (statusByte === 0xF8) kind = 'clock';
             else if (statusByte === 0xFA) kind = 'start';
             else if (statusByte === 0xFB) kind = 'continue';
             else if (statusByte === 0xFC) kind = 'stop';
+            else if (statusByte === 0xF2) {
+                rawValue = data1 | (data2 << 7);
+                kind = 'songposition';
+            } else if (statusByte === 0xF0) kind = 'sysex';
         }
 
         const nextEvent: MidiInputEventData = {
@@ -296,6 +450,9 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         };
 
         lastInputEvent = nextEvent;
+        if (kind === 'sysex') {
+            sysexMessages = [...sysexMessages, nextEvent].slice(-sysexBufferSize);
+        }
 
         if (kind === 'noteon' && note !== null && channel !== null && velocity !== null) {
             activeNotes.set(`${inputId}:${channel}:${note}`, {
@@ -305,9 +462,12 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
                 velocity,
                 startedAt: receivedAt,
                 lastUpdatedAt: receivedAt,
+                zone: getMpeZone(mpe, channel)?.name ?? null,
+                expression: getNoteExpression(inputId, channel),
             });
         } else if (kind === 'noteoff' && note !== null && channel !== null) {
             activeNotes.delete(`${inputId}:${channel}:${note}`);
+            aftertouch.delete(`${inputId}:${channel}:${note}`);
         } else if (kind === 'cc' && cc !== null && channel !== null && rawValue !== null && normalizedValue !== null) {
             ccValues.set(`${inputId}:${channel}:${cc}`, {
                 inputId,
@@ -317,6 +477,42 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
                 normalized: normalizedValue,
                 lastUpdatedAt: receivedAt,
             });
+        } else if (kind === 'pitchbend' && channel !== null && rawValue !== null && normalizedValue !== null) {
+            pitchBend.set(`${inputId}:${channel}`, {
+                inputId,
+                channel,
+                raw: rawValue,
+                value: normalizedValue,
+                lastUpdatedAt: receivedAt,
+            });
+        } else if (
+            (kind === 'polyaftertouch' || kind === 'channelaftertouch')
+            && channel !== null
+            && rawValue !== null
+            && normalizedValue !== null
+        ) {
+            aftertouch.set(`${inputId}:${channel}:${note ?? 'channel'}`, {
+                inputId,
+                channel,
+                note,
+                raw: rawValue,
+                normalized: normalizedValue,
+                lastUpdatedAt: receivedAt,
+            });
+        } else if (kind === 'programchange' && channel !== null && rawValue !== null) {
+            programs.set(`${inputId}:${channel}`, {
+                inputId,
+                channel,
+                program: rawValue,
+                lastUpdatedAt: receivedAt,
+            });
+        }
+
+        if (
+            channel !== null
+            && (kind === 'pitchbend' || kind === 'channelaftertouch' || (kind === 'cc' && cc === TIMBRE_CC))
+        ) {
+            refreshNoteExpression(inputId, channel);
         }
 
         handleClockMessage(nextEvent);
@@ -328,27 +524,47 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         emit();
     };
 
-    const requestAccess = async (): Promise<MidiRuntimeSnapshot> => {
+    const detachInputs = () => {
+        attachedInputs.forEach((input) => {
+            input.removeEventListener('midimessage', handleMidiMessage as EventListener);
+        });
+        attachedInputs.clear();
+        pendingSysex.clear();
+    };
+
+    const requestAccess = async (request: MidiAccessRequestOptions = {}): Promise<MidiRuntimeSnapshot> => {
         if (destroyed) return getSnapshot();
-        if (typeof navigator === 'undefined' || typeof navigator.requestMIDIAccess !== 'function') {
+        if (!backend.isSupported()) {
             status = 'unsupported';
             emit();
             return getSnapshot();
         }
 
+        const sysex = request.sysex ?? sysexRequested;
         status = 'pending';
         error = null;
         emit();
 
         try {
-            midiAccess = await navigator.requestMIDIAccess();
+            const nextAccess = await backend.requestAccess({ sysex });
+            if (midiAccess && midiAccess !== nextAccess) {
+                midiAccess.onstatechange = null;
+                detachInputs();
+            }
+            midiAccess = nextAccess;
             midiAccess.onstatechange = handleStateChange;
+            sysexEnabled = typeof midiAccess.sysexEnabled === 'boolean' ? midiAccess.sysexEnabled : sysex;
             status = 'granted';
             syncPorts();
             emit();
         } catch (nextError) {
             error = nextError instanceof Error ? nextError : new Error('Failed to request MIDI access');
-            status = error.name === 'SecurityError' || error.name === 'NotAllowedError' ? 'denied' : 'error';
+            // A refused upgrade (e.g. to sysex) keeps the access granted before
+            if (midiAccess) {
+                status = 'granted';
+            } else {
+                status = error.name === 'SecurityError' || error.name === 'NotAllowedError' ? 'denied' : 'error';
+            }
             emit();
         }
 
@@ -361,7 +577,7 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         }
 
         cachedSnapshot = {
-            supported: typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function',
+            supported: backend.isSupported(),
             status,
             error,
             inputs,
@@ -373,6 +589,12 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
             lastOutputEvent,
             activeNotes,
             ccValues,
+            pitchBend,
+            aftertouch,
+            programs,
+            mpe,
+            sysexEnabled,
+            sysexMessages,
             clock,
             version,
         };
@@ -416,14 +638,18 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         baseStatus: number,
         kind: MidiMessageKind,
         data1: number,
-        data2: number,
+        data2: number | null,
         options?: MidiSendOptions,
         metadata?: { note?: number | null; velocity?: number | null; cc?: number | null; rawValue?: number | null; normalizedValue?: number | null }
     ) => {
         const channel = clampChannel(options?.channel);
+        const bytes = [baseStatus | (channel - 1), clampMidi(data1)];
+        if (data2 !== null) {
+            bytes.push(clampMidi(data2));
+        }
         return sendBytes(
             kind,
-            [baseStatus | (channel - 1), clampMidi(data1), clampMidi(data2)],
+            bytes,
             options?.outputId,
             channel,
             metadata?.note ?? null,
@@ -445,10 +671,7 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         requestAccess,
         destroy() {
             destroyed = true;
-            attachedInputs.forEach((input) => {
-                input.removeEventListener('midimessage', handleMidiMessage as EventListener);
-            });
-            attachedInputs.clear();
+            detachInputs();
             if (midiAccess) {
                 midiAccess.onstatechange = null;
             }
@@ -466,6 +689,13 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
             listenMode = mode;
             emit();
         },
+        setMpeConfig(config) {
+            const next = resolveMpeZones(config);
+            if (isSameMpeState(mpe, next)) return;
+            mpe = next;
+            refreshNoteExpression(null, null);
+            emit();
+        },
         sendNoteOn(options: MidiNoteSendOptions) {
             const velocity = Math.max(0, Math.min(1, options.velocity ?? 1));
             return sendChannelMessage(0x90, 'noteon', options.note, velocity * 127, options, {
@@ -488,6 +718,31 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
                 normalizedValue: rawValue / 127,
             });
         },
+        sendPitchBend(options: MidiPitchBendSendOptions) {
+            const rawValue = toPitchBendRaw(options.value, options.valueFormat);
+            return sendChannelMessage(0xE0, 'pitchbend', rawValue & 0x7f, rawValue >> 7, options, {
+                rawValue,
+                normalizedValue: toPitchBendValue(rawValue),
+            });
+        },
+        sendAftertouch(options: MidiAftertouchSendOptions) {
+            const rawValue = normalizeValue(options.value, options.valueFormat);
+            const metadata = { rawValue, normalizedValue: rawValue / 127 };
+            if (typeof options.note === 'number') {
+                return sendChannelMessage(0xA0, 'polyaftertouch', options.note, rawValue, options, {
+                    ...metadata,
+                    note: clampMidi(options.note),
+                });
+            }
+            return sendChannelMessage(0xD0, 'channelaftertouch', rawValue, null, options, metadata);
+        },
+        sendProgramChange(options: MidiProgramSendOptions) {
+            const program = clampMidi(options.program);
+            return sendChannelMessage(0xC0, 'programchange', program, null, options, {
+                rawValue: program,
+                normalizedValue: program / 127,
+            });
+        },
         sendStart(options?: MidiSendOptions) {
             return sendBytes('start', [0xFA], options?.outputId, null, null, null, null, null, null);
         },
@@ -500,5 +755,24 @@ export function createMidiRuntime(options: MidiRuntimeOptions = {}): MidiRuntime
         sendClock(options?: MidiSendOptions) {
             return sendBytes('clock', [0xF8], options?.outputId, null, null, null, null, null, null);
         },
+        sendSysex(options: MidiSysexSendOptions) {
+            const bytes = frameSysex(options.data);
+            if (!sysexEnabled) return false;
+            return sendBytes('sysex', bytes, options.outputId, null, null, null, null, null, null);
+        },
+        sendSongPosition(options: MidiSongPositionSendOptions) {
+            const position = Math.max(0, Math.min(MAX_SONG_POSITION, Math.round(options.position)));
+            return sendBytes(
+                'songposition',
+                [0xF2, position & 0x7f, position >> 7],
+                options.outputId,
+                null,
+                null,
+                null,
+                null,
+                position,
+                null
+            );
+        },
     };
 }
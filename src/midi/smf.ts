@@ -0,0 +1,482 @@
+import { getTempoAtStep, resolveTempoMap, type ResolvedTempoMap } from '../transport/tempoMap';
+import type { TempoMapConfig } from '../transport/types';
+import type {
+    MidiFile,
+    MidiFileFormat,
+    MidiFileNote,
+    MidiFileTempo,
+    MidiFileTimeSignature,
+    MidiFileTrack,
+    MidiFileWriteOptions,
+    MidiPatternTrack,
+} from './types';
+
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500_000;
+
+interface PendingNote {
+    startTick: number;
+    velocity: number;
+}
+
+interface ParsedTrack {
+    name: string;
+    notes: Array<Omit<MidiFileNote, 'startTime' | 'duration'>>;
+    tempos: Array<Omit<MidiFileTempo, 'time' | 'bpm'>>;
+    timeSignatures: MidiFileTimeSignature[];
+    endTick: number;
+}
+
+class MidiFileReader {
+    private offset = 0;
+
+    constructor(private readonly bytes: Uint8Array, private readonly end = bytes.length) { }
+
+    get position(): number {
+        return this.offset;
+    }
+
+    get done(): boolean {
+        return this.offset >= this.end;
+    }
+
+    uint8(): number {
+        if (this.offset >= this.end) {
+            throw new Error('Unexpected end of MIDI file data.');
+        }
+        const value = this.bytes[this.offset];
+        this.offset += 1;
+        return value;
+    }
+
+    uint16(): number {
+        return (this.uint8() << 8) | this.uint8();
+    }
+
+    uint32(): number {
+        return ((this.uint8() << 24) >>> 0) + (this.uint8() << 16) + (this.uint8() << 8) + this.uint8();
+    }
+
+    ascii(length: number): string {
+        let value = '';
+        for (let index = 0; index < length; index += 1) {
+            value += String.fromCharCode(this.uint8());
+        }
+        return value;
+    }
+
+    variableLength(): number {
+        let value = 0;
+        for (let index = 0; index < 4; index += 1) {
+            const byte = this.uint8();
+            value = (value << 7) | (byte & 0x7f);
+            if ((byte & 0x80) === 0) return value;
+        }
+        throw new Error('Invalid variable-length quantity in MIDI file.');
+    }
+
+    bytesOf(length: number): Uint8Array {
+        if (this.offset + length > this.end) {
+            throw new Error('Unexpected end of MIDI file data.');
+        }
+        const value = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+    }
+
+    skip(length: number): void {
+        this.bytesOf(length);
+    }
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+    return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function parseTrack(bytes: Uint8Array, start: number, length: number, trackIndex: number): ParsedTrack {
+    const reader = new MidiFileReader(bytes, start + length);
+    reader.skip(start);
+
+    const parsed: ParsedTrack = { name: '', notes: [], tempos: [], timeSignatures: [], endTick: 0 };
+    const pending = new Map<number, PendingNote[]>();
+    let tick = 0;
+    let runningStatus: number | null = null;
+
+    const closeNote = (channel: number, note: number, endTick: number) => {
+        const key = (channel << 7) | note;
+        const queue = pending.get(key);
+        const started = queue?.shift();
+        if (!started) return;
+        parsed.notes.push({
+            track: trackIndex,
+            channel,
+            note,
+            velocity: started.velocity,
+            startTick: started.startTick,
+            durationTicks: Math.max(0, endTick - started.startTick),
+        });
+    };
+
+    while (!reader.done) {
+        tick += reader.variableLength();
+        let status = reader.uint8();
+
+        if (status === 0xff) {
+            const type = reader.uint8();
+            const data = reader.bytesOf(reader.variableLength());
+            if (type === 0x03 && !parsed.name) {
+                parsed.name = String.fromCharCode(...data);
+            } else if (type === 0x51 && data.length === 3) {
+                parsed.tempos.push({ tick, microsecondsPerQuarter: (data[0] << 16) | (data[1] << 8) | data[2] });
+            } else if (type === 0x58 && data.length >= 2) {
+                parsed.timeSignatures.push({ tick, numerator: data[0], denominator: 2 ** data[1] });
+            } else if (type === 0x2f) {
+                break;
+            }
+            continue;
+        }
+
+        if (status === 0xf0 || status === 0xf7) {
+            reader.skip(reader.variableLength());
+            runningStatus = null;
+            continue;
+        }
+
+        let firstData: number;
+        if (status < 0x80) {
+            if (runningStatus === null) {
+                throw new Error(`Running status without a previous status byte in track ${trackIndex}.`);
+            }
+            firstData = status;
+            status = runningStatus;
+        } else {
+            runningStatus = status;
+            firstData = reader.uint8();
+        }
+
+        const kind = status & 0xf0;
+        const channel = (status & 0x0f) + 1;
+        const hasSecondDataByte = kind !== 0xc0 && kind !== 0xd0;
+        const secondData = hasSecondDataByte ? reader.uint8() : 0;
+
+        if (kind === 0x90 && secondData > 0) {
+            const key = (channel << 7) | firstData;
+            const queue = pending.get(key) ?? [];
+            queue.push({ startTick: tick, velocity: secondData / 127 });
+            pending.set(key, queue);
+        } else if (kind === 0x80 || kind === 0x90) {
+            closeNote(channel, firstData, tick);
+        }
+    }
+
+    parsed.endTick = tick;
+    pending.forEach((queue, key) => {
+        queue.forEach(() => closeNote(key >> 7, key & 0x7f, tick));
+    });
+    parsed.notes.sort((a, b) => a.startTick - b.startTick || a.note - b.note);
+
+    return parsed;
+}
+
+function buildTempoMap(
+    tempos: Array<Omit<MidiFileTempo, 'time' | 'bpm'>>,
+    ticksPerQuarter: number
+): MidiFileTempo[] {
+    const sorted = [...tempos].sort((a, b) => a.tick - b.tick);
+    if (sorted.length === 0 || sorted[0].tick > 0) {
+        sorted.unshift({ tick: 0, microsecondsPerQuarter: DEFAULT_MICROSECONDS_PER_QUARTER });
+    }
+
+    const map: MidiFileTempo[] = [];
+    let time = 0;
+    sorted.forEach((tempo, index) => {
+        if (index > 0) {
+            const previous = map[map.length - 1];
+            time += ((tempo.tick - previous.tick) / ticksPerQuarter) * (previous.microsecondsPerQuarter / 1_000_000);
+        }
+        const entry: MidiFileTempo = {
+            tick: tempo.tick,
+            microsecondsPerQuarter: tempo.microsecondsPerQuarter,
+            bpm: 60_000_000 / tempo.microsecondsPerQuarter,
+            time,
+        };
+        if (map.length > 0 && map[map.length - 1].tick === entry.tick) {
+            map[map.length - 1] = entry;
+        } else {
+            map.push(entry);
+        }
+    });
+
+    return map;
+}
+
+/**
+ * Convert an absolute tick position to seconds using a parsed file's tempo map.
+ */
+export function midiTicksToSeconds(file: Pick<MidiFile, 'tempos' | 'ticksPerQuarter'>, tick: number): number {
+    let segment = file.tempos[0];
+    for (const tempo of file.tempos) {
+        if (tempo.tick > tick) break;
+        segment = tempo;
+    }
+    if (!segment) {
+        return (tick / file.ticksPerQuarter) * (DEFAULT_MICROSECONDS_PER_QUARTER / 1_000_000);
+    }
+    return segment.time + ((tick - segment.tick) / file.ticksPerQuarter) * (segment.microsecondsPerQuarter / 1_000_000);
+}
+
+/**
+ * Parse a Standard MIDI File (format 0 or 1) into note lists per track.
+ *
+ * Note on/off pairs are matched per channel and pitch in arrival order;
+ * notes still held when a track ends are closed at its end-of-track tick.
+ */
+export function parseMidiFile(data: ArrayBuffer | Uint8Array): MidiFile {
+    const bytes = toBytes(data);
+    const reader = new MidiFileReader(bytes);
+
+    if (reader.ascii(4) !== 'MThd') {
+        throw new Error('Invalid MIDI file: missing MThd header.');
+    }
+    const headerLength = reader.uint32();
+    const headerEnd = reader.position + headerLength;
+    const format = reader.uint16();
+    const trackCount = reader.uint16();
+    const division = reader.uint16();
+    reader.skip(headerEnd - reader.position);
+
+    if (format !== 0 && format !== 1) {
+        throw new Error(`Unsupported MIDI file format ${format}; only formats 0 and 1 are supported.`);
+    }
+    if (division & 0x8000) {
+        throw new Error('Unsupported MIDI file: SMPTE time division is not supported.');
+    }
+    const ticksPerQuarter = division || 480;
+
+    const parsedTracks: ParsedTrack[] = [];
+    while (!reader.done && parsedTracks.length < trackCount) {
+        const chunkType = reader.ascii(4);
+        const chunkLength = reader.uint32();
+        const chunkStart = reader.position;
+        if (chunkType === 'MTrk') {
+            parsedTracks.push(parseTrack(bytes, chunkStart, chunkLength, parsedTracks.length));
+        }
+        reader.skip(chunkLength);
+    }
+
+    const tempos = buildTempoMap(parsedTracks.flatMap((track) => track.tempos), ticksPerQuarter);
+    const timing = { tempos, ticksPerQuarter };
+    const timeSignatures = parsedTracks
+        .flatMap((track) => track.timeSignatures)
+        .sort((a, b) => a.tick - b.tick);
+
+    const tracks: MidiFileTrack[] = parsedTracks.map((track, index) => ({
+        index,
+        name: track.name,
+        channels: Array.from(new Set(track.notes.map((note) => note.channel))).sort((a, b) => a - b),
+        notes: track.notes.map((note) => {
+            const startTime = midiTicksToSeconds(timing, note.startTick);
+            return {
+                ...note,
+                startTime,
+                duration: midiTicksToSeconds(timing, note.startTick + note.durationTicks) - startTime,
+            };
+        }),
+    }));
+
+    const durationTicks = parsedTracks.reduce((max, track) => track.notes.reduce(
+        (trackMax, note) => Math.max(trackMax, note.startTick + note.durationTicks),
+        Math.max(max, track.endTick)
+    ), 0);
+
+    return {
+        format: format as MidiFileFormat,
+        ticksPerQuarter,
+        tracks,
+        tempos,
+        timeSignatures,
+        durationTicks,
+        duration: midiTicksToSeconds(timing, durationTicks),
+    };
+}
+
+interface MidiFileEvent {
+    tick: number;
+    /** Sort key among events on the same tick: meta, then note-offs, then note-ons */
+    order: number;
+    bytes: number[];
+}
+
+function writeUint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function writeVariableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (let rest = value >>> 7; rest > 0; rest >>>= 7) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+    }
+    return bytes;
+}
+
+function writeChunk(type: string, body: number[]): number[] {
+    return [...Array.from(type, (char) => char.charCodeAt(0)), ...writeUint32(body.length), ...body];
+}
+
+function writeMetaEvent(tick: number, type: number, data: number[]): MidiFileEvent {
+    return { tick, order: 0, bytes: [0xff, type, ...writeVariableLength(data.length), ...data] };
+}
+
+function writeTrackName(name: string): MidiFileEvent {
+    return writeMetaEvent(0, 0x03, Array.from(new TextEncoder().encode(name)));
+}
+
+function writeTrack(events: MidiFileEvent[], endTick: number): number[] {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+    const body: number[] = [];
+    let tick = 0;
+    sorted.forEach((event) => {
+        body.push(...writeVariableLength(event.tick - tick), ...event.bytes);
+        tick = event.tick;
+    });
+    body.push(...writeVariableLength(Math.max(0, endTick - tick)), 0xff, 0x2f, 0x00);
+    return writeChunk('MTrk', body);
+}
+
+function createStepToTick(map: ResolvedTempoMap, ticksPerQuarter: number): (step: number) => number {
+    const ticksPerStep = (beatUnit: number) => (ticksPerQuarter * 4) / beatUnit / map.stepsPerBeat;
+    return (step) => {
+        let ticks = 0;
+        for (const segment of map.segments) {
+            const stepsInSegment = Math.min(step - segment.startStep, segment.length);
+            if (stepsInSegment <= 0) break;
+            ticks += stepsInSegment * ticksPerStep(segment.beatUnit);
+        }
+        return Math.round(ticks);
+    };
+}
+
+function writeTempo(tick: number, bpm: number, beatUnit: number): MidiFileEvent {
+    const microsecondsPerQuarter = Math.round(60_000_000 / (bpm * (4 / beatUnit)));
+    return writeMetaEvent(tick, 0x51, [
+        (microsecondsPerQuarter >> 16) & 0xff,
+        (microsecondsPerQuarter >> 8) & 0xff,
+        microsecondsPerQuarter & 0xff,
+    ]);
+}
+
+function writeTempoEvents(map: ResolvedTempoMap, stepToTick: (step: number) => number): MidiFileEvent[] {
+    const events: MidiFileEvent[] = [];
+    map.segments.forEach((segment, index) => {
+        const previous = map.segments[index - 1];
+        const tick = stepToTick(segment.startStep);
+        if (!previous || previous.beatsPerBar !== segment.beatsPerBar || previous.beatUnit !== segment.beatUnit) {
+            events.push(writeMetaEvent(tick, 0x58, [segment.beatsPerBar, Math.round(Math.log2(segment.beatUnit)), 24, 8]));
+        }
+
+        if (segment.startBpm === segment.endBpm) {
+            const continuesPrevious = previous
+                && previous.startBpm === previous.endBpm
+                && previous.endBpm === segment.startBpm
+                && previous.beatUnit === segment.beatUnit;
+            if (!continuesPrevious) {
+                events.push(writeTempo(tick, segment.startBpm, segment.beatUnit));
+            }
+            return;
+        }
+
+        // SMF tempos are constant between events: step a ramp once per beat at its mid-beat tempo
+        for (let step = 0; step < segment.length; step += map.stepsPerBeat) {
+            const middle = segment.startStep + step + Math.min(map.stepsPerBeat, segment.length - step) / 2;
+            events.push(writeTempo(stepToTick(segment.startStep + step), getTempoAtStep(map, middle).bpm, segment.beatUnit));
+        }
+    });
+    return events;
+}
+
+function toMidiByte(value: number, label: string): number {
+    if (!Number.isInteger(value) || value < 0 || value > 127) {
+        throw new Error(`${label} must be an integer from 0 to 127; received ${value}.`);
+    }
+    return value;
+}
+
+function writePatternEvents(
+    track: MidiPatternTrack,
+    repeat: number,
+    stepToTick: (step: number) => number
+): { events: MidiFileEvent[]; endStep: number } {
+    const channel = track.channel ?? 1;
+    if (!Number.isInteger(channel) || channel < 1 || channel > 16) {
+        throw new Error(`MIDI channel must be 1-16; received ${channel}.`);
+    }
+    const steps = track.steps ?? track.pattern?.length ?? 16;
+    const offset = track.offset ?? 0;
+    const notes = track.notes && track.notes.length > 0
+        ? track.notes
+        : (track.pattern ?? []).map((value, step) => ({
+            step,
+            note: track.note ?? 60,
+            velocity: value === true ? 1 : Number(value ?? 0),
+            length: 1,
+        }));
+
+    const events: MidiFileEvent[] = track.name ? [writeTrackName(track.name)] : [];
+    let endStep = steps * repeat;
+    if (track.mute) return { events, endStep };
+
+    for (let cycle = 0; cycle < repeat; cycle += 1) {
+        notes.forEach((note) => {
+            const velocity = note.velocity ?? 1;
+            if (!Number.isFinite(note.step) || note.step < 0 || note.step >= steps || !(velocity > 0)) return;
+            const pitch = toMidiByte(note.note, 'MIDI note number');
+            const start = cycle * steps + ((Math.floor(note.step) + offset) % steps + steps) % steps;
+            const end = start + Math.max(0, note.length ?? 1);
+            endStep = Math.max(endStep, end);
+            events.push(
+                { tick: stepToTick(start), order: 2, bytes: [0x90 | (channel - 1), pitch, Math.max(1, Math.min(127, Math.round(velocity * 127)))] },
+                { tick: stepToTick(end), order: 1, bytes: [0x80 | (channel - 1), pitch, 0] }
+            );
+        });
+    }
+
+    return { events, endStep };
+}
+
+/**
+ * Write sequencer patterns as a Standard MIDI File (format 1).
+ *
+ * The first track holds tempo and time signature events from the transport
+ * settings (linear tempo ramps are written as one tempo per beat); each
+ * pattern follows as its own track, using `notes` when present and `pattern`
+ * triggers on `note` otherwise, as `Track` does.
+ *
+ * @throws When a channel, note number, or `ticksPerQuarter` is out of range.
+ */
+export function patternsToMidiFile(
+    tracks: readonly MidiPatternTrack[],
+    transportConfig: TempoMapConfig = {},
+    options: MidiFileWriteOptions = {}
+): Uint8Array {
+    const ticksPerQuarter = options.ticksPerQuarter ?? 480;
+    if (!Number.isInteger(ticksPerQuarter) || ticksPerQuarter < 1 || ticksPerQuarter > 0x7fff) {
+        throw new Error(`ticksPerQuarter must be an integer from 1 to 32767; received ${ticksPerQuarter}.`);
+    }
+
+    const map = resolveTempoMap(transportConfig);
+    const stepToTick = createStepToTick(map, ticksPerQuarter);
+    const written = tracks.map((track) => writePatternEvents(track, Math.max(1, track.repeat ?? options.repeat ?? 1), stepToTick));
+    const endTick = stepToTick(written.reduce((max, track) => Math.max(max, track.endStep), 0));
+
+    const tempoEvents = writeTempoEvents(map, stepToTick).filter((event) => event.tick <= endTick);
+    const conductor = options.name ? [writeTrackName(options.name), ...tempoEvents] : tempoEvents;
+
+    return new Uint8Array([
+        ...writeChunk('MThd', [
+            0x00, 0x01,
+            ((tracks.length + 1) >> 8) & 0xff, (tracks.length + 1) & 0xff,
+            (ticksPerQuarter >> 8) & 0xff, ticksPerQuarter & 0xff,
+        ]),
+        ...writeTrack(conductor, endTick),
+        ...written.flatMap((track) => writeTrack(track.events, endTick)),
+    ]);
+}
@@ -1,4 +1,5 @@
 import type { ReactNode } from 'react';
+import type { TrackProps } from '../sequencer/types';
 
 export type MidiAccessStatus = 'unsupported' | 'idle' | 'pending' | 'granted' | 'denied' | 'error';
 export type MidiListenMode = 'default' | 'all';
@@ -6,8 +7,23 @@ export type MidiPortSelection = string | 'default' | 'all' | null | undefined;
 export type MidiChannelFilter = number | 'all' | null | undefined;
 export type MidiNoteFilter = number | [number, number] | null | undefined;
 export type MidiTransportSyncMode = 'midi-master' | 'transport-master';
-export type MidiMessageKind = 'noteon' | 'noteoff' | 'cc' | 'clock' | 'start' | 'stop' | 'continue' | 'unknown';
+export type MidiMessageKind =
+    | 'noteon'
+    | 'noteoff'
+    | 'cc'
+    | 'pitchbend'
+    | 'polyaftertouch'
+    | 'channelaftertouch'
+    | 'programchange'
+    | 'songposition'
+    | 'sysex'
+    | 'clock'
+    | 'start'
+    | 'stop'
+    | 'continue'
+    | 'unknown';
 export type MidiValueFormat = 'normalized' | 'raw';
+export type MidiMpeZoneName = 'lower' | 'upper';
 
 export interface MidiPortDescriptor {
     id: string;
@@ -18,6 +34,16 @@ export interface MidiPortDescriptor {
     connection: MIDIPortConnectionState;
 }
 
+/**
+ * Per-note expression derived from the note's channel.
+ * `pitchBend` is in semitones and includes the MPE zone master bend.
+ */
+export interface MidiNoteExpression {
+    pitchBend: number;
+    pressure: number;
+    timbre: number;
+}
+
 export interface MidiNoteState {
     inputId: string;
     channel: number;
@@ -25,6 +51,40 @@ export interface MidiNoteState {
     velocity: number;
     startedAt: number;
     lastUpdatedAt: number;
+    zone: MidiMpeZoneName | null;
+    expression: MidiNoteExpression;
+}
+
+export interface MidiMpeZoneOptions {
+    /** Number of member channels (1-15) */
+    memberChannels: number;
+    /** Per-note pitch bend range in semitones @default 48 */
+    pitchBendRange?: number;
+    /** Master channel pitch bend range in semitones @default 2 */
+    masterPitchBendRange?: number;
+}
+
+/**
+ * MPE zone layout. The lower zone is mastered on channel 1 with members
+ * counting up from channel 2; the upper zone is mastered on channel 16 with
+ * members counting down from channel 15.
+ */
+export interface MidiMpeOptions {
+    lower?: MidiMpeZoneOptions | null;
+    upper?: MidiMpeZoneOptions | null;
+}
+
+export interface MidiMpeZone {
+    name: MidiMpeZoneName;
+    masterChannel: number;
+    memberChannels: number[];
+    pitchBendRange: number;
+    masterPitchBendRange: number;
+}
+
+export interface MidiMpeState {
+    lower: MidiMpeZone | null;
+    upper: MidiMpeZone | null;
 }
 
 export interface MidiCCState {
@@ -36,6 +96,45 @@ export interface MidiCCState {
     lastUpdatedAt: number;
 }
 
+/**
+ * Latest pitch wheel position of one input channel.
+ * `raw` is the 14-bit value (8192 = center); `value` is bipolar in [-1, 1].
+ */
+export interface MidiPitchBendState {
+    inputId: string;
+    channel: number;
+    raw: number;
+    value: number;
+    lastUpdatedAt: number;
+}
+
+/**
+ * Latest aftertouch pressure. `note` is set for polyphonic key pressure
+ * and `null` for channel pressure.
+ */
+export interface MidiAftertouchState {
+    inputId: string;
+    channel: number;
+    note: number | null;
+    raw: number;
+    normalized: number;
+    lastUpdatedAt: number;
+}
+
+export interface MidiProgramState {
+    inputId: string;
+    channel: number;
+    program: number;
+    lastUpdatedAt: number;
+}
+
+/**
+ * Parsed inbound message. For sysex `bytes` holds the complete message from
+ * `0xF0` to `0xF7`, reassembled when it arrives in several packets. For pitch bend `rawValue` is 14-bit and
+ * `normalizedValue` is bipolar; for program change `rawValue` is the program
+ * number; for aftertouch `rawValue` is the pressure and `note` is set for
+ * polyphonic pressure only.
+ */
 export interface MidiInputEventData {
     seq: number;
     kind: MidiMessageKind;
@@ -64,11 +163,17 @@ export interface MidiOutputEventData {
     sentAt: number;
 }
 
+/**
+ * `songPosition` counts sixteenth notes (MIDI beats) from the song start:
+ * it is set by Song Position Pointer and start messages and advances every
+ * six clock ticks until a stop.
+ */
 export interface MidiClockState {
     running: boolean;
     bpmEstimate: number | null;
     tickCount: number;
     lastTickAt: number | null;
+    songPosition: number;
     sourceInputId: string | null;
 }
 
@@ -85,14 +190,131 @@ export interface MidiRuntimeSnapshot {
     lastOutputEvent: MidiOutputEventData | null;
     activeNotes: ReadonlyMap<string, MidiNoteState>;
     ccValues: ReadonlyMap<string, MidiCCState>;
+    pitchBend: ReadonlyMap<string, MidiPitchBendState>;
+    aftertouch: ReadonlyMap<string, MidiAftertouchState>;
+    programs: ReadonlyMap<string, MidiProgramState>;
+    mpe: MidiMpeState;
+    sysexEnabled: boolean;
+    /** Most recent sysex messages, oldest first */
+    sysexMessages: readonly MidiInputEventData[];
     clock: MidiClockState;
     version: number;
 }
 
+export interface MidiBackendPort {
+    readonly id: string;
+    readonly type: 'input' | 'output';
+    readonly name: string | null;
+    readonly manufacturer: string | null;
+    readonly state: MIDIPortDeviceState;
+    readonly connection: MIDIPortConnectionState;
+}
+
+/**
+ * Input port dispatching `midimessage` events whose `data` holds the message
+ * bytes and whose `currentTarget` (or `target`) is the port.
+ */
+export interface MidiBackendInput extends MidiBackendPort {
+    readonly type: 'input';
+    addEventListener: (type: 'midimessage', listener: EventListener) => void;
+    removeEventListener: (type: 'midimessage', listener: EventListener) => void;
+}
+
+export interface MidiBackendOutput extends MidiBackendPort {
+    readonly type: 'output';
+    send: (data: number[]) => void;
+}
+
+/**
+ * The part of `MIDIAccess` the runtime uses. Browser `MIDIAccess` objects
+ * satisfy it; `onstatechange` is called whenever ports appear or disappear.
+ */
+export interface MidiBackendAccess {
+    readonly inputs: ReadonlyMap<string, MidiBackendInput>;
+    readonly outputs: ReadonlyMap<string, MidiBackendOutput>;
+    readonly sysexEnabled?: boolean;
+    onstatechange: ((event: Event) => void) | null;
+}
+
+/**
+ * Source of MIDI access for a runtime: Web MIDI by default, or the virtual
+ * backend from `createVirtualMidiBackend` in tests and headless hosts.
+ */
+export interface MidiBackend {
+    isSupported: () => boolean;
+    requestAccess: (options: { sysex: boolean }) => Promise<MidiBackendAccess>;
+}
+
+export interface VirtualMidiPortOptions {
+    id: string;
+    name?: string;
+    manufacturer?: string;
+}
+
+export interface VirtualMidiBackendOptions {
+    inputs?: VirtualMidiPortOptions[];
+    outputs?: VirtualMidiPortOptions[];
+    /** Add a `loopback-out` output wired to a `loopback-in` input @default false */
+    loopback?: boolean;
+    /** Grant sysex when requested @default true */
+    allowSysex?: boolean;
+    /** Reject access requests with a `NotAllowedError` @default false */
+    denyAccess?: boolean;
+}
+
+export interface VirtualMidiInput extends MidiBackendInput {
+    /** Deliver a message to listeners as if the device had sent it */
+    emit: (data: readonly number[] | Uint8Array) => void;
+}
+
+export interface VirtualMidiOutput extends MidiBackendOutput {
+    /** Every message sent to the port, oldest first */
+    readonly sent: number[][];
+    /** Observe sent messages; returns an unsubscribe function */
+    subscribe: (listener: (data: number[]) => void) => () => void;
+}
+
+export interface VirtualMidiScriptEvent {
+    /** Milliseconds from the start of playback */
+    at: number;
+    data: readonly number[];
+    /** Defaults to the first input */
+    inputId?: string;
+}
+
+export interface VirtualMidiPlayback {
+    done: Promise<void>;
+    cancel: () => void;
+}
+
+export interface VirtualMidiBackend extends MidiBackend {
+    readonly inputs: ReadonlyMap<string, VirtualMidiInput>;
+    readonly outputs: ReadonlyMap<string, VirtualMidiOutput>;
+    addInput: (options: VirtualMidiPortOptions) => VirtualMidiInput;
+    addOutput: (options: VirtualMidiPortOptions) => VirtualMidiOutput;
+    removePort: (id: string) => void;
+    /** Route messages sent to an output into an input */
+    connect: (outputId: string, inputId: string) => () => void;
+    /** Emit scripted messages on virtual inputs with `setTimeout` delays */
+    play: (script: readonly VirtualMidiScriptEvent[]) => VirtualMidiPlayback;
+}
+
 export interface MidiRuntimeOptions {
     defaultInputId?: string | null;
     defaultOutputId?: string | null;
     listenMode?: MidiListenMode;
+    mpe?: MidiMpeOptions | null;
+    /** Request sysex permission with MIDI access @default false */
+    sysex?: boolean;
+    /** Number of sysex messages kept in the snapshot @default 32 */
+    sysexBufferSize?: number;
+    /** MIDI access source @default Web MIDI (`navigator.requestMIDIAccess`) */
+    backend?: MidiBackend;
+}
+
+export interface MidiAccessRequestOptions {
+    /** Overrides the runtime `sysex` option for this request */
+    sysex?: boolean;
 }
 
 export interface MidiSendOptions {
@@ -111,6 +333,42 @@ export interface MidiCCSendOptions extends MidiSendOptions {
     valueFormat?: MidiValueFormat;
 }
 
+/**
+ * `value` is bipolar in [-1, 1] by default, or the 14-bit wheel position
+ * (0-16383, 8192 = center) with `valueFormat: 'raw'`.
+ */
+export interface MidiPitchBendSendOptions extends MidiSendOptions {
+    value: number;
+    valueFormat?: MidiValueFormat;
+}
+
+/**
+ * Sends polyphonic key pressure when `note` is set, channel pressure otherwise.
+ */
+export interface MidiAftertouchSendOptions extends MidiSendOptions {
+    value: number;
+    note?: number;
+    valueFormat?: MidiValueFormat;
+}
+
+export interface MidiProgramSendOptions extends MidiSendOptions {
+    program: number;
+}
+
+/**
+ * `data` is either a complete message (`0xF0 ... 0xF7`) or its body, which is
+ * framed automatically. Body bytes must be 7-bit.
+ */
+export interface MidiSysexSendOptions {
+    outputId?: string | null;
+    data: readonly number[] | Uint8Array;
+}
+
+export interface MidiSongPositionSendOptions extends MidiSendOptions {
+    /** Position in sixteenth notes (0-16383) */
+    position: number;
+}
+
 export interface MidiNoteFilterOptions {
     inputId?: MidiPortSelection;
     channel?: MidiChannelFilter;
@@ -123,6 +381,35 @@ export interface MidiCCFilterOptions {
     cc: number;
 }
 
+export interface MidiChannelMessageFilterOptions {
+    inputId?: MidiPortSelection;
+    channel?: MidiChannelFilter;
+}
+
+/**
+ * Without `note` only channel pressure matches; with `note` only polyphonic
+ * pressure on matching keys does.
+ */
+export interface MidiAftertouchFilterOptions extends MidiChannelMessageFilterOptions {
+    note?: MidiNoteFilter;
+}
+
+export interface MidiMpeNotesOptions {
+    inputId?: MidiPortSelection;
+    /** Restrict to one zone; both zones are included by default */
+    zone?: MidiMpeZoneName | 'all';
+    /** Number of stable voice slots @default 4 */
+    voices?: number;
+}
+
+export interface MidiSysexFilterOptions {
+    inputId?: MidiPortSelection;
+    /** Match the manufacturer id: one byte, or three bytes for extended ids starting with `0x00` */
+    manufacturerId?: number | readonly number[] | null;
+    /** Called once for every new matching message, in arrival order */
+    onMessage?: (event: MidiInputEventData) => void;
+}
+
 export interface MidiClockFilterOptions {
     inputId?: MidiPortSelection;
 }
@@ -152,11 +439,84 @@ export interface MidiCCValue {
     source: MidiSourceInfo;
 }
 
+export interface MidiPitchBendValue {
+    raw: number;
+    value: number;
+    channel: number | null;
+    lastEvent: MidiInputEventData | null;
+    source: MidiSourceInfo;
+}
+
+export interface MidiAftertouchValue {
+    raw: number;
+    normalized: number;
+    note: number | null;
+    channel: number | null;
+    lastEvent: MidiInputEventData | null;
+    source: MidiSourceInfo;
+}
+
+export interface MidiProgramValue {
+    program: number | null;
+    channel: number | null;
+    changeToken: number;
+    lastEvent: MidiInputEventData | null;
+    source: MidiSourceInfo;
+}
+
+export interface MidiMpeNote {
+    key: string;
+    inputId: string;
+    channel: number;
+    zone: MidiMpeZoneName;
+    note: number;
+    velocity: number;
+    /** Note frequency with `pitchBend` applied */
+    frequency: number;
+    pitchBend: number;
+    pressure: number;
+    timbre: number;
+    startedAt: number;
+}
+
+/**
+ * One voice slot of `useMpeNotes`. A slot keeps the pitch and expression of
+ * its last note after release so envelopes can finish at the bent pitch.
+ */
+export interface MidiMpeVoice {
+    index: number;
+    gate: boolean;
+    key: string | null;
+    note: number | null;
+    channel: number | null;
+    velocity: number;
+    frequency: number;
+    pitchBend: number;
+    pressure: number;
+    timbre: number;
+}
+
+export interface MidiMpeNotesValue {
+    notes: MidiMpeNote[];
+    voices: MidiMpeVoice[];
+    zones: MidiMpeState;
+    source: MidiSourceInfo;
+}
+
+export interface MidiSysexValue {
+    enabled: boolean;
+    messages: MidiInputEventData[];
+    lastMessage: MidiInputEventData | null;
+    send: (data: readonly number[] | Uint8Array, options?: { outputId?: string | null }) => boolean;
+    source: MidiSourceInfo;
+}
+
 export interface MidiClockValue {
     running: boolean;
     bpmEstimate: number | null;
     tickCount: number;
     lastTickAt: number | null;
+    songPosition: number;
     source: MidiSourceInfo;
 }
 
@@ -174,26 +534,40 @@ export interface MidiValue {
     lastInputEvent: MidiInputEventData | null;
     lastOutputEvent: MidiOutputEventData | null;
     clock: MidiClockState;
-    requestAccess: () => Promise<MidiRuntimeSnapshot>;
+    mpe: MidiMpeState;
+    sysexEnabled: boolean;
+    requestAccess: (options?: MidiAccessRequestOptions) => Promise<MidiRuntimeSnapshot>;
     setDefaultInputId: (id: string | null) => void;
     setDefaultOutputId: (id: string | null) => void;
     setListenMode: (mode: MidiListenMode) => void;
+    setMpeConfig: (config: MidiMpeOptions | null) => void;
     sendNoteOn: (options: MidiNoteSendOptions) => boolean;
     sendNoteOff: (options: MidiNoteSendOptions) => boolean;
     sendCC: (options: MidiCCSendOptions) => boolean;
+    sendPitchBend: (options: MidiPitchBendSendOptions) => boolean;
+    sendAftertouch: (options: MidiAftertouchSendOptions) => boolean;
+    sendProgramChange: (options: MidiProgramSendOptions) => boolean;
     sendStart: (options?: MidiSendOptions) => boolean;
     sendStop: (options?: MidiSendOptions) => boolean;
     sendContinue: (options?: MidiSendOptions) => boolean;
     sendClock: (options?: MidiSendOptions) => boolean;
+    sendSongPosition: (options: MidiSongPositionSendOptions) => boolean;
+    sendSysex: (options: MidiSysexSendOptions) => boolean;
 }
 
 export interface MidiStateChangeEvent {
     snapshot: MidiRuntimeSnapshot;
 }
 
-export interface MidiProviderProps extends MidiRuntimeOptions {
+/**
+ * `sysexBufferSize` is fixed when the runtime is created; pass a runtime
+ * from `createMidiRuntime` to change it.
+ */
+export interface MidiProviderProps extends Omit<MidiRuntimeOptions, 'sysexBufferSize' | 'backend'> {
     children: ReactNode;
     runtime?: MidiRuntime;
+    /** Create a runtime on this backend instead of using the shared one; ignored with `runtime` */
+    backend?: MidiBackend;
     requestOnMount?: boolean;
     onStateChange?: (event: MidiStateChangeEvent) => void;
     onError?: (error: Error) => void;
@@ -237,21 +611,203 @@ export interface MidiTransportSyncProps {
     outputId?: string | null;
     sendStartStop?: boolean;
     sendClock?: boolean;
+    sendSongPosition?: boolean;
+}
+
+/** A recorded note in `pianoRoll` node format */
+export interface MidiRecordedNote {
+    pitch: number;
+    /** Start step within the pattern */
+    step: number;
+    /** Length in steps */
+    length: number;
+    velocity: number;
+}
+
+export type MidiRecorderMode = 'overdub' | 'replace';
+
+export interface MidiRecorderOptions extends MidiNoteFilterOptions {
+    /** `overdub` keeps existing notes; `replace` erases them wherever the playhead passes while recording */
+    mode?: MidiRecorderMode;
+    /** Grid in transport steps that starts and lengths snap to @default 1 */
+    quantize?: number;
+    /** Pattern length in steps; later positions wrap around @default 16 */
+    steps?: number;
+    defaultNotes?: readonly MidiRecordedNote[];
+    onChange?: (notes: MidiRecordedNote[]) => void;
+}
+
+export interface MidiRecorderValue {
+    notes: MidiRecordedNote[];
+    /** Armed with `record()` */
+    recording: boolean;
+    /** Recording and the transport is playing */
+    capturing: boolean;
+    record: () => void;
+    stop: () => void;
+    clear: () => void;
+    setNotes: (notes: readonly MidiRecordedNote[]) => void;
+}
+
+export type MidiLearnSourceKind = 'cc' | 'note';
+
+export interface MidiLearnBinding {
+    /** Learn target id: a `PatchInput` key or a `useMidiLearnValue` target */
+    target: string;
+    kind: MidiLearnSourceKind;
+    inputId: string;
+    channel: number;
+    /** Controller number for `cc`, note number for `note` */
+    number: number;
+}
+
+/** Serializable MIDI learn map, stored as JSON */
+export interface MidiLearnMap {
+    version: 1;
+    bindings: MidiLearnBinding[];
+}
+
+export interface MidiLearnTarget {
+    id: string;
+    label: string;
+    min: number;
+    max: number;
+}
+
+export interface MidiLearnProviderProps {
+    children?: ReactNode;
+    /** Initial map, as an object or its JSON string */
+    defaultBindings?: MidiLearnMap | string | null;
+    /** Called with the new map whenever a binding is learned, removed, or loaded */
+    onChange?: (map: MidiLearnMap) => void;
+}
+
+export interface MidiLearnContextValue {
+    /** Target waiting for its next CC or note, if any */
+    learning: string | null;
+    map: MidiLearnMap;
+    targets: readonly MidiLearnTarget[];
+    /** Last normalized value (0-1) received per bound target */
+    values: ReadonlyMap<string, number>;
+    learn: (target: string) => void;
+    cancel: () => void;
+    unbind: (target: string) => void;
+    clear: () => void;
+    load: (map: MidiLearnMap | string) => void;
+    registerTarget: (target: MidiLearnTarget) => () => void;
+}
+
+export interface MidiLearnValueOptions {
+    label?: string;
+    min?: number;
+    max?: number;
+}
+
+export interface MidiLearnValue {
+    /** Scaled value, null until the bound source sends a message */
+    value: number | null;
+    normalized: number | null;
+    binding: MidiLearnBinding | null;
+    learning: boolean;
+    learn: () => void;
+    unbind: () => void;
+}
+
+export type MidiFileFormat = 0 | 1;
+
+export interface MidiFileNote {
+    track: number;
+    channel: number;
+    note: number;
+    velocity: number;
+    startTick: number;
+    durationTicks: number;
+    startTime: number;
+    duration: number;
+}
+
+export interface MidiFileTempo {
+    tick: number;
+    microsecondsPerQuarter: number;
+    bpm: number;
+    time: number;
+}
+
+export interface MidiFileTimeSignature {
+    tick: number;
+    numerator: number;
+    denominator: number;
+}
+
+export interface MidiFileTrack {
+    index: number;
+    name: string;
+    channels: number[];
+    notes: MidiFileNote[];
+}
+
+export interface MidiFile {
+    format: MidiFileFormat;
+    ticksPerQuarter: number;
+    tracks: MidiFileTrack[];
+    tempos: MidiFileTempo[];
+    timeSignatures: MidiFileTimeSignature[];
+    durationTicks: number;
+    duration: number;
+}
+
+/** A sequencer pattern to write as one Standard MIDI File track */
+export interface MidiPatternTrack extends Pick<TrackProps, 'steps' | 'pattern' | 'notes' | 'offset' | 'mute' | 'note'> {
+    name?: string;
+    /** MIDI channel, 1-16 @default 1 */
+    channel?: number;
+    /** Times the pattern is written back to back; defaults to the file `repeat` */
+    repeat?: number;
+}
+
+export interface MidiFileWriteOptions {
+    /** Tick resolution of the file @default 480 */
+    ticksPerQuarter?: number;
+    /** Name of the tempo track */
+    name?: string;
+    /** Times each pattern is written back to back @default 1 */
+    repeat?: number;
+}
+
+export interface MidiFilePlayerProps {
+    children?: ReactNode;
+    src?: string | ArrayBuffer | Uint8Array | MidiFile | null;
+    tracks?: number[] | null;
+    loop?: boolean;
+    bpm?: number;
+    autoStart?: boolean;
+    trackId?: string;
+    lookAhead?: number;
+    scheduleInterval?: number;
+    onLoad?: (file: MidiFile) => void;
+    onError?: (error: Error) => void;
+    onEnd?: () => void;
 }
 
 export interface MidiRuntime {
     subscribe: (listener: () => void) => () => void;
     getSnapshot: () => MidiRuntimeSnapshot;
-    requestAccess: () => Promise<MidiRuntimeSnapshot>;
+    requestAccess: (options?: MidiAccessRequestOptions) => Promise<MidiRuntimeSnapshot>;
     destroy: () => void;
     setDefaultInputId: (id: string | null) => void;
     setDefaultOutputId: (id: string | null) => void;
     setListenMode: (mode: MidiListenMode) => void;
+    setMpeConfig: (config: MidiMpeOptions | null) => void;
     sendNoteOn: (options: MidiNoteSendOptions) => boolean;
     sendNoteOff: (options: MidiNoteSendOptions) => boolean;
     sendCC: (options: MidiCCSendOptions) => boolean;
+    sendPitchBend: (options: MidiPitchBendSendOptions) => boolean;
+    sendAftertouch: (options: MidiAftertouchSendOptions) => boolean;
+    sendProgramChange: (options: MidiProgramSendOptions) => boolean;
     sendStart: (options?: MidiSendOptions) => boolean;
     sendStop: (options?: MidiSendOptions) => boolean;
     sendContinue: (options?: MidiSendOptions) => boolean;
     sendClock: (options?: MidiSendOptions) => boolean;
+    sendSongPosition: (options: MidiSongPositionSendOptions) => boolean;
+    sendSysex: (options: MidiSysexSendOptions) => boolean;
 }
@@ -1,20 +1,34 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useMidiContext } from './MidiProvider';
 import type {
+    MidiAftertouchFilterOptions,
+    MidiAftertouchState,
+    MidiAftertouchValue,
     MidiCCFilterOptions,
     MidiCCState,
     MidiCCValue,
+    MidiChannelMessageFilterOptions,
     MidiClockFilterOptions,
     MidiClockValue,
     MidiInputEventData,
     MidiListenMode,
+    MidiMpeNote,
+    MidiMpeNotesOptions,
+    MidiMpeNotesValue,
+    MidiMpeVoice,
     MidiNoteFilter,
     MidiNoteFilterOptions,
     MidiNoteState,
     MidiNoteValue,
+    MidiPitchBendState,
+    MidiPitchBendValue,
     MidiPortDescriptor,
     MidiPortSelection,
+    MidiProgramState,
+    MidiProgramValue,
     MidiRuntimeSnapshot,
+    MidiSysexFilterOptions,
+    MidiSysexValue,
     MidiValue,
 } from './types';
 
@@ -97,7 +111,10 @@ function matchesCCState(
         && state.cc === options.cc;
 }
 
-function matchesNoteEvent(
+/**
+ * Returns whether a note-on/off message passes the input, channel, and note filters.
+ */
+export function matchesNoteEvent(
     event: MidiInputEventData,
     options: MidiNoteFilterOptions,
     snapshot: MidiRuntimeSnapshot
@@ -119,6 +136,41 @@ function matchesCCEvent(
         && event.cc === options.cc;
 }
 
+function matchesChannelMessage(
+    state: { inputId: string; channel: number | null },
+    options: MidiChannelMessageFilterOptions,
+    snapshot: MidiRuntimeSnapshot
+): boolean {
+    return matchesInputSelection(state.inputId, options.inputId, snapshot)
+        && matchesChannelFilter(state.channel, options.channel);
+}
+
+function matchesAftertouch(
+    state: { inputId: string; channel: number | null; note: number | null },
+    options: MidiAftertouchFilterOptions,
+    snapshot: MidiRuntimeSnapshot
+): boolean {
+    const isPoly = state.note !== null;
+    const wantsPoly = options.note !== undefined && options.note !== null;
+    return isPoly === wantsPoly
+        && matchesChannelMessage(state, options, snapshot)
+        && matchesNoteFilter(state.note, options.note);
+}
+
+function getLatestMatch<T extends { lastUpdatedAt: number }>(
+    values: ReadonlyMap<string, T>,
+    predicate: (state: T) => boolean
+): T | null {
+    const matches = sortByLastUpdated(Array.from(values.values()).filter(predicate));
+    return matches.length > 0 ? matches[matches.length - 1] : null;
+}
+
+function matchesManufacturer(bytes: readonly number[], manufacturerId: MidiSysexFilterOptions['manufacturerId']): boolean {
+    if (manufacturerId === undefined || manufacturerId === null) return true;
+    const expected = typeof manufacturerId === 'number' ? [manufacturerId] : manufacturerId;
+    return expected.every((byte, index) => bytes[index + 1] === byte);
+}
+
 function sortByLastUpdated<T extends { lastUpdatedAt: number }>(items: T[]): T[] {
     return [...items].sort((left, right) => left.lastUpdatedAt - right.lastUpdatedAt);
 }
@@ -153,17 +205,25 @@ export function useMidi(): MidiValue {
         lastInputEvent: snapshot.lastInputEvent,
         lastOutputEvent: snapshot.lastOutputEvent,
         clock: snapshot.clock,
+        mpe: snapshot.mpe,
+        sysexEnabled: snapshot.sysexEnabled,
         requestAccess: runtime.requestAccess,
         setDefaultInputId: runtime.setDefaultInputId,
         setDefaultOutputId: runtime.setDefaultOutputId,
         setListenMode: runtime.setListenMode,
+        setMpeConfig: runtime.setMpeConfig,
         sendNoteOn: runtime.sendNoteOn,
         sendNoteOff: runtime.sendNoteOff,
         sendCC: runtime.sendCC,
+        sendPitchBend: runtime.sendPitchBend,
+        sendAftertouch: runtime.sendAftertouch,
+        sendProgramChange: runtime.sendProgramChange,
         sendStart: runtime.sendStart,
         sendStop: runtime.sendStop,
         sendContinue: runtime.sendContinue,
         sendClock: runtime.sendClock,
+        sendSongPosition: runtime.sendSongPosition,
+        sendSysex: runtime.sendSysex,
     }), [runtime, snapshot]);
 }
 
@@ -255,6 +315,291 @@ export function useMidiCC(options: MidiCCFilterOptions): MidiCCValue {
     };
 }
 
+/**
+ * Subscribes to the pitch wheel of matching inputs and channels.
+ *
+ * @param options - Channel and input filters.
+ * @returns Bipolar bend value in [-1, 1] and 14-bit raw position (8192 when centered).
+ */
+export function useMidiPitchBend(options: MidiChannelMessageFilterOptions = {}): MidiPitchBendValue {
+    const { snapshot } = useMidiContext();
+    const [lastMatchingEvent, setLastMatchingEvent] = useState<MidiInputEventData | null>(null);
+    const lastHandledEventSeq = useRef<number>(0);
+
+    useEffect(() => {
+        const event = snapshot.lastInputEvent;
+        if (!event || event.seq === lastHandledEventSeq.current) return;
+        lastHandledEventSeq.current = event.seq;
+        if (event.kind !== 'pitchbend' || !matchesChannelMessage(event, options, snapshot)) return;
+        setLastMatchingEvent(event);
+    }, [options, snapshot]);
+
+    const bendState = useMemo(() => getLatestMatch<MidiPitchBendState>(
+        snapshot.pitchBend,
+        (state) => matchesChannelMessage(state, options, snapshot)
+    ), [options, snapshot]);
+
+    const retainedEvent = lastMatchingEvent && matchesChannelMessage(lastMatchingEvent, options, snapshot)
+        ? lastMatchingEvent
+        : null;
+    const sourceId = bendState?.inputId ?? retainedEvent?.inputId ?? null;
+
+    return {
+        raw: bendState?.raw ?? 8192,
+        value: bendState?.value ?? 0,
+        channel: bendState?.channel ?? retainedEvent?.channel ?? null,
+        lastEvent: retainedEvent,
+        source: getSourceInfo(snapshot, sourceId),
+    };
+}
+
+/**
+ * Subscribes to channel pressure, or to polyphonic key pressure when a `note` filter is given.
+ *
+ * @param options - Channel, note, and input filters.
+ * @returns Normalized and raw pressure of the latest matching message.
+ */
+export function useMidiAftertouch(options: MidiAftertouchFilterOptions = {}): MidiAftertouchValue {
+    const { snapshot } = useMidiContext();
+    const [lastMatchingEvent, setLastMatchingEvent] = useState<MidiInputEventData | null>(null);
+    const lastHandledEventSeq = useRef<number>(0);
+
+    useEffect(() => {
+        const event = snapshot.lastInputEvent;
+        if (!event || event.seq === lastHandledEventSeq.current) return;
+        lastHandledEventSeq.current = event.seq;
+        if (event.kind !== 'polyaftertouch' && event.kind !== 'channelaftertouch') return;
+        if (!matchesAftertouch(event, options, snapshot)) return;
+        setLastMatchingEvent(event);
+    }, [options, snapshot]);
+
+    const pressureState = useMemo(() => getLatestMatch<MidiAftertouchState>(
+        snapshot.aftertouch,
+        (state) => matchesAftertouch(state, options, snapshot)
+    ), [options, snapshot]);
+
+    const retainedEvent = lastMatchingEvent && matchesAftertouch(lastMatchingEvent, options, snapshot)
+        ? lastMatchingEvent
+        : null;
+    const sourceId = pressureState?.inputId ?? retainedEvent?.inputId ?? null;
+
+    return {
+        raw: pressureState?.raw ?? 0,
+        normalized: pressureState?.normalized ?? 0,
+        note: pressureState?.note ?? null,
+        channel: pressureState?.channel ?? retainedEvent?.channel ?? null,
+        lastEvent: retainedEvent,
+        source: getSourceInfo(snapshot, sourceId),
+    };
+}
+
+/**
+ * Subscribes to program change messages of matching inputs and channels.
+ *
+ * @param options - Channel and input filters.
+ * @returns Latest program number (0-127, `null` before any change) and a token bumped per change.
+ */
+export function useMidiProgram(options: MidiChannelMessageFilterOptions = {}): MidiProgramValue {
+    const { snapshot } = useMidiContext();
+    const [lastMatchingEvent, setLastMatchingEvent] = useState<MidiInputEventData | null>(null);
+    const [changeToken, setChangeToken] = useState(0);
+    const lastHandledEventSeq = useRef<number>(0);
+
+    useEffect(() => {
+        const event = snapshot.lastInputEvent;
+        if (!event || event.seq === lastHandledEventSeq.current) return;
+        lastHandledEventSeq.current = event.seq;
+        if (event.kind !== 'programchange' || !matchesChannelMessage(event, options, snapshot)) return;
+        setLastMatchingEvent(event);
+        setChangeToken((value) => value + 1);
+    }, [options, snapshot]);
+
+    const programState = useMemo(() => getLatestMatch<MidiProgramState>(
+        snapshot.programs,
+        (state) => matchesChannelMessage(state, options, snapshot)
+    ), [options, snapshot]);
+
+    const retainedEvent = lastMatchingEvent && matchesChannelMessage(lastMatchingEvent, options, snapshot)
+        ? lastMatchingEvent
+        : null;
+    const sourceId = programState?.inputId ?? retainedEvent?.inputId ?? null;
+
+    return {
+        program: programState?.program ?? null,
+        channel: programState?.channel ?? retainedEvent?.channel ?? null,
+        changeToken,
+        lastEvent: retainedEvent,
+        source: getSourceInfo(snapshot, sourceId),
+    };
+}
+
+function createIdleVoice(index: number): MidiMpeVoice {
+    return {
+        index,
+        gate: false,
+        key: null,
+        note: null,
+        channel: null,
+        velocity: 0,
+        frequency: 440,
+        pitchBend: 0,
+        pressure: 0,
+        timbre: 0.5,
+    };
+}
+
+/**
+ * Keeps each sounding note on the voice slot it started on. New notes take
+ * the first free slot and steal the oldest sounding note when every slot is
+ * busy; a stolen note is not reassigned later.
+ */
+function allocateMpeVoices(
+    previous: MidiMpeVoice[],
+    previousKeys: ReadonlySet<string>,
+    notes: MidiMpeNote[],
+    count: number
+): MidiMpeVoice[] {
+    const byKey = new Map(notes.map((note) => [note.key, note]));
+    const voices = Array.from({ length: count }, (_, index) => {
+        const voice = previous[index] ?? createIdleVoice(index);
+        return voice.gate && voice.key !== null && !byKey.has(voice.key)
+            ? { ...voice, gate: false }
+            : voice;
+    });
+
+    notes.forEach((note) => {
+        if (previousKeys.has(note.key)) return;
+        let target = voices.findIndex((voice) => !voice.gate);
+        if (target === -1) {
+            const oldest = voices.reduce((result, voice) => {
+                const started = byKey.get(voice.key ?? '')?.startedAt ?? Infinity;
+                return started < result.startedAt ? { index: voice.index, startedAt: started } : result;
+            }, { index: 0, startedAt: Infinity });
+            target = oldest.index;
+        }
+        voices[target] = { ...voices[target], gate: true, key: note.key };
+    });
+
+    return voices.map((voice) => {
+        const note = voice.gate && voice.key !== null ? byKey.get(voice.key) : undefined;
+        if (!note) return voice;
+        return {
+            ...voice,
+            note: note.note,
+            channel: note.channel,
+            velocity: note.velocity,
+            frequency: note.frequency,
+            pitchBend: note.pitchBend,
+            pressure: note.pressure,
+            timbre: note.timbre,
+        };
+    });
+}
+
+/**
+ * Collects the sounding notes of the configured MPE zones with their per-note
+ * expression, and assigns them to a fixed pool of voice slots.
+ *
+ * @param options - Input, zone, and voice count.
+ * @returns Active notes ordered by start time and one entry per voice slot.
+ */
+export function useMpeNotes(options: MidiMpeNotesOptions = {}): MidiMpeNotesValue {
+    const { snapshot } = useMidiContext();
+    const voiceCount = Math.max(1, Math.floor(options.voices ?? 4));
+    const zoneFilter = options.zone ?? 'all';
+    const allocationRef = useRef<{ voices: MidiMpeVoice[]; keys: ReadonlySet<string> }>({
+        voices: [],
+        keys: new Set(),
+    });
+
+    const notes = useMemo<MidiMpeNote[]>(() => {
+        const matching: MidiMpeNote[] = [];
+        snapshot.activeNotes.forEach((state, key) => {
+            if (state.zone === null) return;
+            if (zoneFilter !== 'all' && state.zone !== zoneFilter) return;
+            if (!matchesInputSelection(state.inputId, options.inputId, snapshot)) return;
+            matching.push({
+                key,
+                inputId: state.inputId,
+                channel: state.channel,
+                zone: state.zone,
+                note: state.note,
+                velocity: state.velocity,
+                frequency: midiNoteToFrequency(state.note + state.expression.pitchBend),
+                pitchBend: state.expression.pitchBend,
+                pressure: state.expression.pressure,
+                timbre: state.expression.timbre,
+                startedAt: state.startedAt,
+            });
+        });
+        return matching.sort((left, right) => left.startedAt - right.startedAt);
+    }, [options.inputId, snapshot, zoneFilter]);
+
+    const voices = useMemo(() => {
+        const previous = allocationRef.current;
+        const next = allocateMpeVoices(previous.voices, previous.keys, notes, voiceCount);
+        allocationRef.current = { voices: next, keys: new Set(notes.map((note) => note.key)) };
+        return next;
+    }, [notes, voiceCount]);
+
+    const latest = notes.length > 0 ? notes[notes.length - 1] : null;
+
+    return {
+        notes,
+        voices,
+        zones: snapshot.mpe,
+        source: getSourceInfo(snapshot, latest?.inputId ?? null),
+    };
+}
+
+/**
+ * Subscribes to buffered sysex messages, e.g. preset dumps from a hardware synth.
+ *
+ * Requires sysex permission (`sysex` on the provider or runtime). Every new
+ * matching message reaches `onMessage` once, even when several arrive between renders.
+ *
+ * @param options - Input and manufacturer filters plus an optional message callback.
+ * @returns Matching buffered messages, the latest one, and a send helper.
+ */
+export function useMidiSysex(options: MidiSysexFilterOptions = {}): MidiSysexValue {
+    const { runtime, snapshot } = useMidiContext();
+    const { inputId, manufacturerId, onMessage } = options;
+    const onMessageRef = useRef(onMessage);
+    const lastHandledEventSeq = useRef<number>(
+        snapshot.sysexMessages[snapshot.sysexMessages.length - 1]?.seq ?? 0
+    );
+
+    useEffect(() => {
+        onMessageRef.current = onMessage;
+    }, [onMessage]);
+
+    const messages = useMemo(() => snapshot.sysexMessages.filter((event) => (
+        matchesInputSelection(event.inputId, inputId, snapshot)
+        && matchesManufacturer(event.bytes, manufacturerId)
+    )), [inputId, manufacturerId, snapshot]);
+
+    useEffect(() => {
+        const fresh = messages.filter((event) => event.seq > lastHandledEventSeq.current);
+        if (fresh.length === 0) return;
+        lastHandledEventSeq.current = fresh[fresh.length - 1].seq;
+        fresh.forEach((event) => onMessageRef.current?.(event));
+    }, [messages]);
+
+    const send = useCallback((data: readonly number[] | Uint8Array, sendOptions: { outputId?: string | null } = {}) => (
+        runtime.sendSysex({ data, outputId: sendOptions.outputId })
+    ), [runtime]);
+
+    const lastMessage = messages.length > 0 ? messages[messages.length - 1] : null;
+
+    return {
+        enabled: snapshot.sysexEnabled,
+        messages,
+        lastMessage,
+        send,
+        source: getSourceInfo(snapshot, lastMessage?.inputId ?? null),
+    };
+}
+
 /**
  * Exposes filtered MIDI clock / transport timing derived from the runtime snapshot.
  *
@@ -273,6 +618,7 @@ export function useMidiClock(options: MidiClockFilterOptions = {}): MidiClockVal
             bpmEstimate: null,
             tickCount: 0,
             lastTickAt: null,
+            songPosition: 0,
             source: getSourceInfo(snapshot, null),
         };
     }
@@ -282,6 +628,7 @@ export function useMidiClock(options: MidiClockFilterOptions = {}): MidiClockVal
         bpmEstimate: snapshot.clock.bpmEstimate,
         tickCount: snapshot.clock.tickCount,
         lastTickAt: snapshot.clock.lastTickAt,
+        songPosition: snapshot.clock.songPosition,
         source: getSourceInfo(snapshot, snapshot.clock.sourceInputId),
     };
 }
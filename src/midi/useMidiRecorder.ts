@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAudio } from '../core/AudioProvider';
+import type { TransportTick } from '../transport/types';
+import { useTransport } from '../transport/useTransport';
+import { useMidiContext } from './MidiProvider';
+import { matchesNoteEvent } from './useMidi';
+import type { MidiRecordedNote, MidiRecorderOptions, MidiRecorderValue } from './types';
+
+// Recent scheduled steps, enough to cover the transport look-ahead
+const TICK_HISTORY = 64;
+
+interface HeldNote {
+    pitch: number;
+    velocity: number;
+    step: number;
+    time: number;
+    stepDuration: number;
+}
+
+function snapToGrid(value: number, grid: number): number {
+    return Math.round(value / grid) * grid;
+}
+
+function wrapStep(step: number, steps: number): number {
+    return ((step % steps) + steps) % steps;
+}
+
+function sortNotes(notes: MidiRecordedNote[]): MidiRecordedNote[] {
+    return notes.sort((a, b) => a.step - b.step || a.pitch - b.pitch);
+}
+
+/**
+ * Locate a context time on the transport grid from the steps scheduled around it.
+ */
+function getStepPosition(ticks: readonly TransportTick[], time: number): { position: number; stepDuration: number } | null {
+    let tick: TransportTick | null = null;
+    for (let index = ticks.length - 1; index >= 0; index -= 1) {
+        if (ticks[index].time <= time) {
+            tick = ticks[index];
+            break;
+        }
+    }
+    if (!tick) {
+        return ticks.length > 0 ? { position: ticks[0].totalSteps, stepDuration: ticks[0].duration } : null;
+    }
+    return {
+        position: tick.totalSteps + (time - tick.time) / tick.duration,
+        stepDuration: tick.duration,
+    };
+}
+
+/**
+ * Records inbound MIDI notes as `pianoRoll` notes while the transport plays.
+ *
+ * Note-ons are placed on the transport step they arrive at, snapped to
+ * `quantize`, and become notes on their note-off. Requires `MidiProvider`,
+ * `AudioProvider`, and `TransportProvider`.
+ *
+ * @param options - Note filters, record mode, quantize grid, and pattern length.
+ * @returns Recorded notes plus record/stop/clear controls.
+ */
+export function useMidiRecorder(options: MidiRecorderOptions = {}): MidiRecorderValue {
+    const { runtime } = useMidiContext();
+    const { context } = useAudio();
+    const transport = useTransport();
+    const {
+        inputId,
+        channel,
+        note,
+        mode = 'overdub',
+        quantize = 1,
+        steps = 16,
+        defaultNotes,
+        onChange,
+    } = options;
+
+    const [notes, setNotesState] = useState<MidiRecordedNote[]>(() => sortNotes([...(defaultNotes ?? [])]));
+    const [recording, setRecording] = useState(false);
+
+    const notesRef = useRef(notes);
+    const recordingRef = useRef(false);
+    const isPlayingRef = useRef(transport.isPlaying);
+    const ticksRef = useRef<TransportTick[]>([]);
+    const heldRef = useRef(new Map<string, HeldNote>());
+    // Notes recorded since `record()`, which replace mode never erases
+    const takeRef = useRef(new Set<MidiRecordedNote>());
+    const onChangeRef = useRef(onChange);
+    const lastHandledSeqRef = useRef<number | null>(null);
+    const settingsRef = useRef({ mode, quantize, steps });
+
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    useEffect(() => {
+        settingsRef.current = { mode, quantize: quantize > 0 ? quantize : 1, steps: Math.max(1, steps) };
+    }, [mode, quantize, steps]);
+
+    const commit = useCallback((next: MidiRecordedNote[]) => {
+        notesRef.current = next;
+        setNotesState(next);
+        onChangeRef.current?.(next);
+    }, []);
+
+    const releaseNote = useCallback((key: string, time: number) => {
+        const held = heldRef.current.get(key);
+        if (!held) return;
+        heldRef.current.delete(key);
+
+        const { quantize: grid } = settingsRef.current;
+        const recorded: MidiRecordedNote = {
+            pitch: held.pitch,
+            step: held.step,
+            length: Math.max(grid, snapToGrid((time - held.time) / held.stepDuration, grid)),
+            velocity: held.velocity,
+        };
+        takeRef.current.add(recorded);
+        commit(sortNotes([...notesRef.current, recorded]));
+    }, [commit]);
+
+    const releaseAll = useCallback(() => {
+        const time = context?.currentTime ?? 0;
+        Array.from(heldRef.current.keys()).forEach((key) => releaseNote(key, time));
+    }, [context, releaseNote]);
+
+    useEffect(() => {
+        isPlayingRef.current = transport.isPlaying;
+        if (!transport.isPlaying) {
+            releaseAll();
+            ticksRef.current = [];
+        }
+    }, [releaseAll, transport.isPlaying]);
+
+    useEffect(() => transport.subscribe((tick) => {
+        const ticks = ticksRef.current;
+        ticks.push(tick);
+        if (ticks.length > TICK_HISTORY) {
+            ticks.splice(0, ticks.length - TICK_HISTORY);
+        }
+
+        const { mode: activeMode, steps: patternSteps } = settingsRef.current;
+        if (!recordingRef.current || activeMode !== 'replace') return;
+        const step = wrapStep(tick.totalSteps, patternSteps);
+        const kept = notesRef.current.filter((entry) => (
+            takeRef.current.has(entry) || entry.step < step || entry.step >= step + 1
+        ));
+        if (kept.length !== notesRef.current.length) {
+            commit(kept);
+        }
+    }), [commit, transport.subscribe]);
+
+    // Follow every inbound message: several can arrive between two renders
+    useEffect(() => {
+        lastHandledSeqRef.current = runtime.getSnapshot().lastInputEvent?.seq ?? null;
+
+        return runtime.subscribe(() => {
+            const snapshot = runtime.getSnapshot();
+            const event = snapshot.lastInputEvent;
+            if (!event || event.seq === lastHandledSeqRef.current) return;
+            lastHandledSeqRef.current = event.seq;
+            if (event.note === null || !matchesNoteEvent(event, { inputId, channel, note }, snapshot)) return;
+
+            const key = `${event.inputId}:${event.channel}:${event.note}`;
+            const time = context?.currentTime ?? 0;
+            if (event.kind === 'noteoff') {
+                releaseNote(key, time);
+                return;
+            }
+            if (!recordingRef.current || !isPlayingRef.current || !context) return;
+
+            const located = getStepPosition(ticksRef.current, time);
+            if (!located) return;
+            const { quantize: grid, steps: patternSteps } = settingsRef.current;
+            heldRef.current.set(key, {
+                pitch: event.note,
+                velocity: event.velocity ?? 1,
+                step: wrapStep(snapToGrid(located.position, grid), patternSteps),
+                time,
+                stepDuration: located.stepDuration,
+            });
+        });
+    }, [channel, context, inputId, note, releaseNote, runtime]);
+
+    const record = useCallback(() => {
+        takeRef.current = new Set();
+        recordingRef.current = true;
+        setRecording(true);
+    }, []);
+
+    const stop = useCallback(() => {
+        releaseAll();
+        recordingRef.current = false;
+        setRecording(false);
+    }, [releaseAll]);
+
+    const clear = useCallback(() => {
+        heldRef.current.clear();
+        takeRef.current = new Set();
+        commit([]);
+    }, [commit]);
+
+    const setNotes = useCallback((next: readonly MidiRecordedNote[]) => {
+        takeRef.current = new Set();
+        commit(sortNotes([...next]));
+    }, [commit]);
+
+    return {
+        notes,
+        recording,
+        capturing: recording && transport.isPlaying,
+        record,
+        stop,
+        clear,
+        setNotes,
+    };
+}
@@ -3,6 +3,7 @@ import type { ConvolverProps } from './types';
 import { useAudioNode } from './useAudioNode';
 import { AudioOutProvider } from '../core/AudioOutContext';
 import { useAudio } from '../core/AudioProvider';
+import { getAudioAssetManager } from '../core/assets';
 
 /**
  * Convolver node component for convolution reverb.
@@ -53,9 +54,7 @@ export const Convolver: FC<ConvolverProps> = ({
 
         if (typeof impulse === 'string') {
             // Load from URL
-            fetch(impulse)
-                .then((response) => response.arrayBuffer())
-                .then((arrayBuffer) => context.decodeAudioData(arrayBuffer))
+            getAudioAssetManager(context).load(impulse)
                 .then((decodedBuffer) => {
                     setBuffer(decodedBuffer);
                     onLoad?.(decodedBuffer);
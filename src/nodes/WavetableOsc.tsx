@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState, type FC } from 'react';
+import type { WavetableOscProps } from './types';
+import { useAudioNode, useAudioParam } from './useAudioNode';
+import { createWavetableMorphCurve, createWavetableWave } from './wavetable';
+import { AudioOutProvider } from '../core/AudioOutContext';
+
+interface WavetableGraph {
+    frequency: AudioParam;
+    detune: AudioParam;
+    position: AudioParam;
+    oscillators: OscillatorNode[];
+}
+
+/**
+ * Wavetable oscillator that morphs between `PeriodicWave` frames.
+ *
+ * Each frame plays on its own oscillator; the table `position` drives
+ * their crossfade at audio rate, so it can be modulated by an LFO like
+ * `frequency` and `detune`.
+ *
+ * @example
+ * ```tsx
+ * const sweep = useLFO({ rate: 0.2, depth: 0.5 });
+ * <WavetableOsc tables={tables} position={sweep} positionBase={0.5} frequency={110} autoStart />
+ * ```
+ */
+export const WavetableOsc: FC<WavetableOscProps> = ({
+    children,
+    nodeRef: externalRef,
+    bypass = false,
+    tables,
+    position = 0,
+    positionBase,
+    frequency = 440,
+    frequencyBase,
+    detune = 0,
+    detuneBase,
+    autoStart = false,
+}) => {
+    const [graph, setGraph] = useState<WavetableGraph | null>(null);
+    const startedGraphRef = useRef<WavetableGraph | null>(null);
+
+    const { nodeRef, context } = useAudioNode<GainNode>({
+        createNode: (ctx) => ctx.createGain(),
+        bypass,
+    });
+
+    // Sync external ref
+    useEffect(() => {
+        if (externalRef) {
+            (externalRef as React.MutableRefObject<GainNode | null>).current = nodeRef.current;
+        }
+    }, [externalRef, nodeRef.current]);
+
+    // Build one oscillator per frame, crossfaded by wave shapers reading the position
+    const output = nodeRef.current;
+    useEffect(() => {
+        if (!context || !output || tables.length === 0) return;
+
+        const waves = tables.map((table) => createWavetableWave(context, table));
+        const frequencySource = context.createConstantSource();
+        const detuneSource = context.createConstantSource();
+        const positionSource = context.createConstantSource();
+        const positionBias = context.createConstantSource();
+        const positionScale = context.createGain();
+
+        // Shaper input runs from -1 (first frame) to 1 (last frame)
+        positionBias.offset.value = -1;
+        positionScale.gain.value = 2;
+        positionSource.connect(positionScale);
+
+        const nodes: AudioNode[] = [frequencySource, detuneSource, positionSource, positionBias, positionScale];
+        const oscillators = waves.map((wave, index) => {
+            const oscillator = context.createOscillator();
+            oscillator.setPeriodicWave(wave);
+            oscillator.frequency.value = 0;
+            oscillator.detune.value = 0;
+            frequencySource.connect(oscillator.frequency);
+            detuneSource.connect(oscillator.detune);
+
+            const weight = context.createGain();
+            weight.gain.value = 0;
+            const shaper = context.createWaveShaper();
+            shaper.curve = createWavetableMorphCurve(index, waves.length);
+            positionScale.connect(shaper);
+            positionBias.connect(shaper);
+            shaper.connect(weight.gain);
+
+            oscillator.connect(weight);
+            weight.connect(output);
+            nodes.push(oscillator, weight, shaper);
+            return oscillator;
+        });
+
+        [frequencySource, detuneSource, positionSource, positionBias].forEach((source) => source.start());
+        setGraph({
+            frequency: frequencySource.offset,
+            detune: detuneSource.offset,
+            position: positionSource.offset,
+            oscillators,
+        });
+
+        return () => {
+            [frequencySource, detuneSource, positionSource, positionBias].forEach((source) => {
+                try {
+                    source.stop();
+                } catch {
+                    // Already stopped
+                }
+            });
+            oscillators.forEach((oscillator) => {
+                try {
+                    oscillator.stop();
+                } catch {
+                    // Never started
+                }
+            });
+            nodes.forEach((node) => node.disconnect());
+            setGraph(null);
+        };
+    }, [context, output, tables]);
+
+    // Apply parameters (with LFO support)
+    useAudioParam(graph?.frequency, frequency, frequencyBase ?? 440);
+    useAudioParam(graph?.detune, detune, detuneBase ?? 0);
+    useAudioParam(graph?.position, position, positionBase ?? 0);
+
+    // Auto-start
+    useEffect(() => {
+        if (!graph || !autoStart) return;
+        if (startedGraphRef.current === graph) return;
+
+        graph.oscillators.forEach((oscillator) => oscillator.start());
+        startedGraphRef.current = graph;
+    }, [autoStart, graph]);
+
+    return (
+        <AudioOutProvider node={bypass ? null : nodeRef.current}>
+            {children}
+        </AudioOutProvider>
+    );
+};
@@ -10,6 +10,11 @@ export type {
     FilterType,
     OscProps,
     OscillatorType,
+    WavetableOscProps,
+    WavetableSource,
+    WavetableCoefficients,
+    WavetableSample,
+    PeriodicWaveOptions,
     DelayProps,
     CompressorProps,
     ConvolverProps,
@@ -21,11 +26,13 @@ export type {
 
 export type { ADSRProps, ADSRConfig } from './ADSR';
 export type { WaveShaperPreset, PresetWaveShaperProps } from './PresetWaveShaper';
+export type { ResolvedWavetable } from './wavetable';
 
 // Components
 export { Gain } from './Gain';
 export { Filter } from './Filter';
 export { Osc } from './Osc';
+export { WavetableOsc } from './WavetableOsc';
 export { Delay } from './Delay';
 export { Compressor } from './Compressor';
 export { Convolver } from './Convolver';
@@ -37,3 +44,7 @@ export { ADSR, DEFAULT_ADSR } from './ADSR';
 
 // Hooks
 export { useAudioNode } from './useAudioNode';
+export { usePeriodicWave } from './wavetable';
+
+// Wavetables
+export { createWavetableWave, getWavetableCoefficients } from './wavetable';
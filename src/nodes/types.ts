@@ -206,6 +206,112 @@ export interface OscProps extends AudioNodeProps {
     nodeRef?: RefObject<OscillatorNode | null>;
 }
 
+// =============================================================================
+// Wavetable
+// =============================================================================
+
+/**
+ * Fourier coefficients in the `createPeriodicWave` layout: index 0 is DC
+ * (ignored), index 1 the fundamental.
+ */
+export interface WavetableCoefficients {
+    /** Cosine terms; zeros when omitted */
+    real?: ArrayLike<number>;
+    /** Sine terms */
+    imag: ArrayLike<number>;
+}
+
+/**
+ * One cycle of a waveform, analyzed into harmonics.
+ */
+export interface WavetableSample {
+    /** Samples of exactly one cycle, e.g. `AudioBuffer.getChannelData(0)` */
+    samples: ArrayLike<number>;
+    /**
+     * Number of harmonics to keep.
+     * @default half the sample count
+     */
+    harmonics?: number;
+}
+
+/**
+ * A wavetable frame: harmonic amplitudes (fundamental first), Fourier
+ * coefficients, or a single-cycle sample buffer.
+ */
+export type WavetableSource = readonly number[] | WavetableCoefficients | WavetableSample;
+
+/**
+ * Options for building a `PeriodicWave` from a wavetable frame.
+ */
+export interface PeriodicWaveOptions {
+    /**
+     * Keep the raw amplitudes instead of normalizing the wave to a peak of 1.
+     * @default false
+     */
+    disableNormalization?: boolean;
+}
+
+/**
+ * Props for the WavetableOsc component.
+ */
+export interface WavetableOscProps extends AudioNodeProps {
+    /**
+     * Wavetable frames to morph between, in order.
+     * The graph is rebuilt when the array identity changes.
+     */
+    tables: readonly WavetableSource[];
+
+    /**
+     * Table position from 0 (first frame) to 1 (last frame).
+     * Can be a fixed number or an LFO for modulation.
+     * @default 0
+     */
+    position?: ModulatableValue;
+
+    /**
+     * Base position when using LFO modulation.
+     * @default 0
+     */
+    positionBase?: number;
+
+    /**
+     * Frequency in Hz.
+     * Can be a fixed number or an LFO for modulation.
+     * @default 440
+     */
+    frequency?: ModulatableValue;
+
+    /**
+     * Base frequency when using LFO modulation.
+     * @default 440
+     */
+    frequencyBase?: number;
+
+    /**
+     * Detune in cents.
+     * Can be a fixed number or an LFO for modulation.
+     * @default 0
+     */
+    detune?: ModulatableValue;
+
+    /**
+     * Base detune when using LFO modulation.
+     * @default 0
+     */
+    detuneBase?: number;
+
+    /**
+     * Start the oscillators immediately on mount.
+     * @default false
+     */
+    autoStart?: boolean;
+
+    /**
+     * Ref to the output GainNode.
+     */
+    nodeRef?: RefObject<GainNode | null>;
+}
+
 // =============================================================================
 // Delay
 // =============================================================================
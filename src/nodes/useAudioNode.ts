@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { useAudio } from '../core/AudioProvider';
 import { useAudioOut } from '../core/AudioOutContext';
+import { isModulationSource } from '../core/ModulatableValue';
 
 /**
  * Options for the useAudioNode hook.
@@ -154,7 +155,7 @@ export function useAudioNode<T extends AudioNode>({
  * Supports both fixed values and LFO modulation.
  *
  * @param param - The AudioParam to control
- * @param value - The target value (number) or LFO output for modulation
+ * @param value - The target value (number), or an LFO output or modulation signal for modulation
  * @param baseValue - Base value to use when LFO is connected (LFO adds to this)
  * @param rampTime - Time to ramp to the value (0 = immediate)
  * @param rampType - Type of ramp ('linear' or 'exponential')
@@ -169,32 +170,22 @@ export function useAudioParam(
     useEffect(() => {
         if (!param) return;
 
-        // Check if value is an LFO output
-        const isLFO = (
-            value !== null &&
-            value !== undefined &&
-            typeof value === 'object' &&
-            '__lfoOutput' in value &&
-            (value as any).__lfoOutput === true
-        );
-
-        if (isLFO) {
-            const lfoOutput = value as import('../core/ModulatableValue').LFOOutput;
-
+        // LFO outputs and modulation signals connect to the param
+        if (isModulationSource(value)) {
             // Set base value (LFO will modulate around this)
             const base = baseValue ?? 0;
             param.value = base;
 
             // Connect LFO node to the AudioParam
             try {
-                lfoOutput.node.connect(param);
+                value.node.connect(param);
             } catch (e) {
                 console.warn('[@open-din/react] Failed to connect LFO to AudioParam:', e);
             }
 
             return () => {
                 try {
-                    lfoOutput.node.disconnect(param);
+                    value.node.disconnect(param);
                 } catch {
                     // May already be disconnected
                 }
@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { useAudio } from '../core/AudioProvider';
+import type { PeriodicWaveOptions, WavetableCoefficients, WavetableSample, WavetableSource } from './types';
+
+/**
+ * Fourier coefficients of a wavetable frame, ready for `createPeriodicWave`.
+ */
+export interface ResolvedWavetable {
+    real: Float32Array;
+    imag: Float32Array;
+}
+
+function isSample(source: WavetableSource): source is WavetableSample {
+    return !Array.isArray(source) && 'samples' in source;
+}
+
+function fromHarmonics(amplitudes: readonly number[]): ResolvedWavetable {
+    const imag = new Float32Array(amplitudes.length + 1);
+    amplitudes.forEach((amplitude, index) => {
+        imag[index + 1] = amplitude;
+    });
+    return { real: new Float32Array(imag.length), imag };
+}
+
+function fromCoefficients({ real, imag }: WavetableCoefficients): ResolvedWavetable {
+    if (real && real.length !== imag.length) {
+        throw new Error(`Wavetable real and imag must have the same length; received ${real.length} and ${imag.length}.`);
+    }
+    return {
+        real: real ? Float32Array.from(real) : new Float32Array(imag.length),
+        imag: Float32Array.from(imag),
+    };
+}
+
+function fromSample({ samples, harmonics }: WavetableSample): ResolvedWavetable {
+    const size = samples.length;
+    if (size < 2) {
+        throw new Error(`Wavetable samples must hold at least 2 values; received ${size}.`);
+    }
+    const count = Math.max(1, Math.min(Math.floor(size / 2), Math.floor(harmonics ?? size / 2)));
+    const real = new Float32Array(count + 1);
+    const imag = new Float32Array(count + 1);
+
+    for (let harmonic = 1; harmonic <= count; harmonic += 1) {
+        let cosine = 0;
+        let sine = 0;
+        for (let index = 0; index < size; index += 1) {
+            const phase = (2 * Math.PI * harmonic * index) / size;
+            cosine += samples[index] * Math.cos(phase);
+            sine += samples[index] * Math.sin(phase);
+        }
+        real[harmonic] = (2 * cosine) / size;
+        imag[harmonic] = (2 * sine) / size;
+    }
+
+    return { real, imag };
+}
+
+/**
+ * Resolve a wavetable frame to Fourier coefficients.
+ *
+ * Harmonic arrays become sine terms, coefficients are copied, and
+ * single-cycle samples are analyzed with a discrete Fourier transform.
+ *
+ * @throws When the frame has fewer than one harmonic, mismatched
+ * coefficient lengths, or fewer than 2 samples.
+ */
+export function getWavetableCoefficients(source: WavetableSource): ResolvedWavetable {
+    const resolved = Array.isArray(source)
+        ? fromHarmonics(source as readonly number[])
+        : isSample(source)
+            ? fromSample(source)
+            : fromCoefficients(source as WavetableCoefficients);
+    if (resolved.imag.length < 2) {
+        throw new Error('Wavetable frames must define at least one harmonic.');
+    }
+    return resolved;
+}
+
+/**
+ * Build a `PeriodicWave` from a wavetable frame, e.g. for `<Osc type="custom" periodicWave={...} />`.
+ *
+ * @param context - Audio context that will play the wave.
+ * @param source - Harmonic amplitudes, Fourier coefficients, or a single-cycle sample buffer.
+ * @param options - Normalization options.
+ * @returns The periodic wave.
+ */
+export function createWavetableWave(
+    context: BaseAudioContext,
+    source: WavetableSource,
+    options: PeriodicWaveOptions = {}
+): PeriodicWave {
+    const { real, imag } = getWavetableCoefficients(source);
+    return context.createPeriodicWave(real, imag, { disableNormalization: options.disableNormalization ?? false });
+}
+
+/**
+ * Triangular crossfade window of one frame over the shaper input range
+ * (-1 for the first frame, 1 for the last).
+ * @internal
+ */
+export function createWavetableMorphCurve(index: number, count: number, samples = 1025): Float32Array<ArrayBuffer> {
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i += 1) {
+        const frame = count > 1 ? (i / (samples - 1)) * (count - 1) : 0;
+        curve[i] = Math.max(0, 1 - Math.abs(frame - index));
+    }
+    return curve;
+}
+
+/**
+ * Creates a `PeriodicWave` for the current audio context.
+ *
+ * Memoize `source`: the wave is rebuilt when its identity changes.
+ *
+ * @param source - Harmonic amplitudes, Fourier coefficients, or a single-cycle sample buffer.
+ * @param options - Normalization options.
+ * @returns The periodic wave, or null until the audio context exists.
+ */
+export function usePeriodicWave(
+    source: WavetableSource,
+    options: PeriodicWaveOptions = {}
+): PeriodicWave | null {
+    const { context } = useAudio();
+    const { disableNormalization = false } = options;
+    return useMemo(
+        () => (context ? createWavetableWave(context, source, { disableNormalization }) : null),
+        [context, disableNormalization, source]
+    );
+}
@@ -0,0 +1,10 @@
+export { renderOffline, renderPatchOffline } from './renderOffline';
+export { encodeWav } from './wav';
+
+export type {
+    OfflineRenderResult,
+    RenderOfflineOptions,
+    RenderPatchOfflineOptions,
+    WavBitDepth,
+    WavEncodeOptions,
+} from './types';
@@ -0,0 +1,156 @@
+import type { ReactElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { AudioProvider } from '../core/AudioProvider';
+import { PatchRendererRuntime } from '../patch/PatchRenderer';
+import { tickSchedulerClocks } from '../transport/clock';
+import type { PatchDocument } from '../patch/types';
+import type {
+    OfflineRenderResult,
+    RenderOfflineOptions,
+    RenderPatchOfflineOptions,
+} from './types';
+import { encodeWav } from './wav';
+
+const RENDER_QUANTUM = 128;
+// Half of the 0.1s scheduler look-ahead used by TransportProvider and Sequencer,
+// so every step is scheduled before the render reaches it.
+const SCHEDULER_SLICE = 0.05;
+const SETTLE_PASSES = 5;
+
+type OfflineAudioContextConstructor = new (
+    numberOfChannels: number,
+    length: number,
+    sampleRate: number
+) => OfflineAudioContext;
+
+function getOfflineAudioContextClass(): OfflineAudioContextConstructor | null {
+    const scope = globalThis as unknown as {
+        OfflineAudioContext?: OfflineAudioContextConstructor;
+        webkitOfflineAudioContext?: OfflineAudioContextConstructor;
+    };
+    return scope.OfflineAudioContext ?? scope.webkitOfflineAudioContext ?? null;
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+        setTimeout(resolve, ms);
+    });
+}
+
+async function settle(): Promise<void> {
+    for (let pass = 0; pass < SETTLE_PASSES; pass += 1) {
+        await wait(0);
+    }
+}
+
+async function renderWithContext(
+    options: RenderOfflineOptions,
+    createElement: (context: OfflineAudioContext) => ReactElement
+): Promise<OfflineRenderResult> {
+    const { duration, sampleRate = 44100, channels = 2, prepare } = options;
+
+    if (!(duration > 0)) {
+        throw new Error(`Offline render duration must be greater than 0, received ${duration}.`);
+    }
+    if (typeof document === 'undefined') {
+        throw new Error('Offline rendering requires a DOM environment.');
+    }
+
+    const OfflineAudioContextClass = getOfflineAudioContextClass();
+    if (!OfflineAudioContextClass) {
+        throw new Error('OfflineAudioContext is not supported in this environment.');
+    }
+
+    const length = Math.ceil(duration * sampleRate);
+    const context = new OfflineAudioContextClass(channels, length, sampleRate);
+    const container = document.createElement('div');
+    const root = createRoot(container);
+
+    try {
+        root.render(createElement(context));
+        await settle();
+        if (prepare) {
+            await prepare(context);
+            await settle();
+        }
+        tickSchedulerClocks(context);
+        await settle();
+
+        // Pause the render at regular slices and tick the shared scheduler clock,
+        // so transports and sequencers queue the next events before they are reached.
+        const sliceFrames = Math.max(
+            RENDER_QUANTUM,
+            Math.floor((SCHEDULER_SLICE * sampleRate) / RENDER_QUANTUM) * RENDER_QUANTUM
+        );
+        // A failed slice still resumes the render, and its error rejects the result.
+        const slices: Promise<void>[] = [];
+        for (let frame = sliceFrames; frame < length; frame += sliceFrames) {
+            slices.push(context.suspend(frame / sampleRate).then(async () => {
+                try {
+                    tickSchedulerClocks(context);
+                    await settle();
+                } finally {
+                    await context.resume();
+                }
+            }));
+        }
+
+        const [buffer] = await Promise.all([context.startRendering(), ...slices]);
+        return {
+            buffer,
+            toWav: (wavOptions) => encodeWav(buffer, wavOptions),
+        };
+    } finally {
+        root.unmount();
+    }
+}
+
+/**
+ * Render a component tree into an AudioBuffer with an OfflineAudioContext.
+ *
+ * The element is mounted inside an `AudioProvider` bound to the offline
+ * context, so transports and sequencers start immediately and advance with
+ * the render instead of the wall clock.
+ *
+ * @example
+ * ```tsx
+ * const { buffer, toWav } = await renderOffline(
+ *   <TransportProvider bpm={120}>
+ *     <Sequencer autoStart>...</Sequencer>
+ *   </TransportProvider>,
+ *   { duration: 4 }
+ * );
+ * ```
+ */
+export function renderOffline(element: ReactElement, options: RenderOfflineOptions): Promise<OfflineRenderResult> {
+    return renderWithContext(options, (context) => (
+        <AudioProvider context={context}>
+            {element}
+        </AudioProvider>
+    ));
+}
+
+/**
+ * Render a patch document into an AudioBuffer with an OfflineAudioContext.
+ *
+ * Remaining options are passed to the patch like `PatchRenderer` props.
+ *
+ * @example
+ * ```ts
+ * const { toWav } = await renderPatchOffline(patch, { duration: 8, cutoff: 1200 });
+ * ```
+ */
+export function renderPatchOffline<const TPatch extends PatchDocument>(
+    patch: TPatch,
+    options: RenderPatchOfflineOptions<TPatch>
+): Promise<OfflineRenderResult> {
+    const { duration, sampleRate, channels, prepare, ...props } = options;
+    return renderWithContext({ duration, sampleRate, channels, prepare }, (context) => (
+        <PatchRendererRuntime
+            {...props}
+            patch={patch}
+            includeProvider
+            audioContext={context}
+        />
+    ));
+}
@@ -0,0 +1,78 @@
+import type { PatchDocument, PatchRendererProps } from '../patch/types';
+
+// =============================================================================
+// WAV Encoding
+// =============================================================================
+
+/**
+ * Sample format for encoded WAV data.
+ * - `16`: 16-bit signed integer PCM
+ * - `32`: 32-bit IEEE float
+ */
+export type WavBitDepth = 16 | 32;
+
+/**
+ * Options for encodeWav().
+ */
+export interface WavEncodeOptions {
+    /**
+     * Sample format of the encoded data.
+     * @default 16
+     */
+    bitDepth?: WavBitDepth;
+}
+
+// =============================================================================
+// Offline Rendering
+// =============================================================================
+
+/**
+ * Options for renderOffline().
+ */
+export interface RenderOfflineOptions {
+    /**
+     * Length of the rendered audio in seconds.
+     */
+    duration: number;
+
+    /**
+     * Sample rate of the rendered buffer.
+     * @default 44100
+     */
+    sampleRate?: number;
+
+    /**
+     * Number of output channels.
+     * @default 2
+     */
+    channels?: number;
+
+    /**
+     * Async work to await after the graph mounts and before rendering starts,
+     * e.g. waiting for samples or impulse responses to load. Receives the
+     * render context, e.g. for `preloadPatchAssets(context, patch)`.
+     */
+    prepare?: (context: OfflineAudioContext) => Promise<unknown>;
+}
+
+/**
+ * Result of an offline render.
+ */
+export interface OfflineRenderResult {
+    /**
+     * The rendered audio.
+     */
+    buffer: AudioBuffer;
+
+    /**
+     * Encode the rendered audio as a RIFF/WAVE file.
+     */
+    toWav: (options?: WavEncodeOptions) => ArrayBuffer;
+}
+
+/**
+ * Options for renderPatchOffline(): offline render settings plus the
+ * props accepted by PatchRenderer (public inputs, events, assetRoot, midi).
+ */
+export type RenderPatchOfflineOptions<TPatch extends PatchDocument> =
+    RenderOfflineOptions & Omit<PatchRendererProps<TPatch>, 'patch' | 'includeProvider'>;
@@ -0,0 +1,62 @@
+import type { WavEncodeOptions } from './types';
+
+const WAV_HEADER_SIZE = 44;
+
+function writeAscii(view: DataView, offset: number, value: string): void {
+    for (let index = 0; index < value.length; index += 1) {
+        view.setUint8(offset + index, value.charCodeAt(index));
+    }
+}
+
+/**
+ * Encode an AudioBuffer as a RIFF/WAVE file with interleaved channels.
+ *
+ * @param buffer - The audio to encode
+ * @param options - Sample format options
+ * @returns The WAV file bytes
+ *
+ * @example
+ * ```ts
+ * const wav = encodeWav(buffer, { bitDepth: 16 });
+ * const blob = new Blob([wav], { type: 'audio/wav' });
+ * ```
+ */
+export function encodeWav(buffer: AudioBuffer, options: WavEncodeOptions = {}): ArrayBuffer {
+    const bitDepth = options.bitDepth ?? 16;
+    const bytesPerSample = bitDepth / 8;
+    const channels = buffer.numberOfChannels;
+    const frames = buffer.length;
+    const dataSize = frames * channels * bytesPerSample;
+    const output = new ArrayBuffer(WAV_HEADER_SIZE + dataSize);
+    const view = new DataView(output);
+
+    writeAscii(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeAscii(view, 8, 'WAVE');
+    writeAscii(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, bitDepth === 32 ? 3 : 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true);
+    view.setUint16(32, channels * bytesPerSample, true);
+    view.setUint16(34, bitDepth, true);
+    writeAscii(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+    let offset = WAV_HEADER_SIZE;
+    for (let frame = 0; frame < frames; frame += 1) {
+        for (let channel = 0; channel < channels; channel += 1) {
+            const sample = Math.max(-1, Math.min(1, channelData[channel][frame] || 0));
+            if (bitDepth === 32) {
+                view.setFloat32(offset, sample, true);
+            } else {
+                view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    return output;
+}
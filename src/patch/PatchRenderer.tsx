@@ -1,44 +1,80 @@
 import React, {
+    forwardRef,
     useCallback,
     useContext,
     useEffect,
+    useImperativeHandle,
     useMemo,
     useRef,
     useState,
     type ComponentType,
+    type ForwardedRef,
+    type ReactElement,
     type ReactNode,
+    type Ref,
 } from 'react';
-import { AudioOutProvider, AudioProvider, useAudio, useAudioOut } from '../core';
+import { AudioOutProvider, AudioProvider, useAudio, useAudioOut, type ModulationSignal } from '../core';
 import { Analyzer } from '../analyzers';
 import { clamp, compare, math, mix, switchValue } from '../data';
 import { Chorus, Distortion, EQ3, Flanger, Phaser, Reverb, Tremolo } from '../effects';
 import {
     MidiCCOutput,
+    MidiFilePlayer,
     MidiNoteOutput,
     MidiTransportSync,
     type MidiCCValue,
     type MidiNoteValue,
 } from '../midi';
-import { ADSR, Compressor, Convolver, Delay, Filter, Gain, Osc, Panner, PresetWaveShaper, StereoPanner, WaveShaper } from '../nodes';
+import { useOptionalMidiLearn } from '../midi/MidiLearnProvider';
+import {
+    ADSR,
+    Compressor,
+    Convolver,
+    Delay,
+    Filter,
+    Gain,
+    Osc,
+    Panner,
+    PresetWaveShaper,
+    StereoPanner,
+    WaveShaper,
+    WavetableOsc,
+    type WavetableSource,
+} from '../nodes';
 import { AuxReturn, AuxSend, MatrixMixer } from '../routing';
-import { EventTrigger, Sequencer, Track } from '../sequencer';
-import { ConstantSource, MediaStream, Noise, NoiseBurst, Sampler, TriggeredSampler, useLFO } from '../sources';
-import { Envelope, Voice, type VoiceRenderProps } from '../synths';
-import { TransportProvider } from '../transport';
+import { EventTrigger, Sequencer, Track, type TrackNote } from '../sequencer';
+import { ConstantSource, GranularSampler, MediaStream, Noise, NoiseBurst, Sampler, TriggeredSampler, useLFO } from '../sources';
+import { Envelope, PolyVoice, Voice, type VoiceRenderProps } from '../synths';
+import { TransportContext, TransportProvider } from '../transport';
 import {
+    getPatchNodeTypeDefinition,
     getTransportConnections,
     isAudioConnectionLike,
     migratePatchDocument,
+    migratePatchDocumentLeniently,
     resolvePatchAssetPath,
 } from './document';
+import {
+    applyPatchInputValue,
+    createPatchInputController,
+    createPatchInputSignal,
+    getSignalInputHandles,
+    type PatchInputController,
+} from './inputSignals';
+import { buildPianoRollNotes, buildStepSequencerPattern } from './notes';
 import { ResolvedPatchSource } from './runtime';
 import type {
     ImportPatchOptions,
     PatchConnection,
     PatchDocument,
+    PatchHandle,
+    PatchInputListener,
     PatchMidiBindings,
     PatchMidiOutput,
     PatchNode,
+    PatchNodeBuildContext,
+    PatchNodeData,
+    PatchNodeTypeDefinition,
     PatchRendererProps,
     PatchProps,
     PatchRuntimeProps,
@@ -75,6 +111,7 @@ const AUDIO_NODE_COMPONENTS: Record<string, ComponentType<any>> = {
     noise: Noise,
     waveShaper: WaveShaper,
     sampler: Sampler,
+    granularSampler: GranularSampler,
     patch: NestedPatchRuntime,
 };
 
@@ -110,6 +147,8 @@ interface PatchGraphData {
     sidechainConnectionsBySource: Map<string, PatchConnection[]>;
     adsrTargets: Map<string, PatchNode>;
     rootNodes: PatchNode[];
+    /** Registered non-audio nodes, rendered beside the audio graph */
+    standaloneNodes: PatchNode[];
     trackSourcesUsed: Set<string>;
     transportConnectedIds: Set<string>;
 }
@@ -117,9 +156,12 @@ interface PatchGraphData {
 interface PreviewTrackInfo {
     steps: number;
     pattern: number[];
-    note?: number;
+    notes?: TrackNote[];
+    polyphony: number;
 }
 
+const MAX_PIANO_ROLL_VOICES = 16;
+
 function asNumber(value: unknown, fallback = 0): number {
     return Number.isFinite(value) ? Number(value) : fallback;
 }
@@ -152,11 +194,63 @@ function shouldUsePresetWaveShaper(node: PatchNode): boolean {
     return node.data.type === 'waveShaper';
 }
 
+/**
+ * Wavetable frames of an `osc` node, kept by reference so the oscillator
+ * graph is only rebuilt when the patch data changes.
+ */
+function getWavetableTables(data: AnyNodeData): readonly WavetableSource[] | null {
+    const wavetable = data.wavetable as Record<string, unknown> | null | undefined;
+    if (!wavetable || typeof wavetable !== 'object' || !Array.isArray(wavetable.tables)) return null;
+    return wavetable.tables.length > 0 ? wavetable.tables as WavetableSource[] : null;
+}
+
 function getRenderComponent(node: PatchNode, controlConnections: PatchConnection[]): ComponentType<any> | null {
     if (shouldUseFeedbackDelay(node)) return PatchFeedbackDelay;
     if (shouldUseTriggeredSampler(node, controlConnections)) return TriggeredSampler;
     if (shouldUsePresetWaveShaper(node)) return PresetWaveShaper;
-    return AUDIO_NODE_COMPONENTS[node.data.type] ?? null;
+    if (node.data.type === 'osc' && getWavetableTables(node.data as AnyNodeData)) return WavetableOsc;
+    return getAudioNodeComponent(node.data.type);
+}
+
+function getAudioNodeComponent(type: string) {
+    if (AUDIO_NODE_COMPONENTS[type]) return AUDIO_NODE_COMPONENTS[type];
+    const definition = getPatchNodeTypeDefinition(type);
+    return definition?.isAudio ? definition.component : null;
+}
+
+function buildRegisteredNodeProps(
+    definition: PatchNodeTypeDefinition,
+    data: PatchNodeData,
+    context: PatchNodeBuildContext
+): Record<string, unknown> {
+    if (definition.buildProps) return definition.buildProps(data, context);
+
+    const props: Record<string, unknown> = { ...data };
+    delete props.type;
+    delete props.label;
+    (definition.targetHandles ?? []).forEach((handle) => {
+        const baseValue = Number.isFinite(data[handle]) ? Number(data[handle]) : undefined;
+        const resolved = context.resolveControlValue(handle, { baseValue, modulatable: true });
+        if (resolved.value !== undefined) props[handle] = resolved.value;
+        if (resolved.base !== undefined) props[`${handle}Base`] = resolved.base;
+    });
+    return props;
+}
+
+function getMaxOverlappingNotes(notes: TrackNote[]): number {
+    const edges = notes.flatMap((note) => [
+        { step: note.step, delta: 1 },
+        { step: note.step + Math.max(note.length ?? 1, 0.001), delta: -1 },
+    ]);
+    edges.sort((a, b) => a.step - b.step || a.delta - b.delta);
+
+    let active = 0;
+    let max = 0;
+    edges.forEach((edge) => {
+        active += edge.delta;
+        max = Math.max(max, active);
+    });
+    return max;
 }
 
 function buildPatchGraphData(patch: PatchDocument): PatchGraphData {
@@ -196,7 +290,11 @@ function buildPatchGraphData(patch: PatchDocument): PatchGraphData {
         }
     });
 
-    const renderableNodes = patch.nodes.filter((node) => Boolean(AUDIO_NODE_COMPONENTS[node.data.type]));
+    const renderableNodes = patch.nodes.filter((node) => Boolean(getAudioNodeComponent(node.data.type)));
+    const standaloneNodes = patch.nodes.filter((node) => {
+        const definition = getPatchNodeTypeDefinition(node.data.type);
+        return Boolean(definition && !definition.isAudio);
+    });
     const nodesWithOutputs = new Set(audioConnections.map((connection) => connection.source));
     const rootNodes = renderableNodes.filter((node) => !nodesWithOutputs.has(node.id));
 
@@ -219,6 +317,7 @@ function buildPatchGraphData(patch: PatchDocument): PatchGraphData {
         sidechainConnectionsBySource,
         adsrTargets,
         rootNodes,
+        standaloneNodes,
         trackSourcesUsed,
         transportConnectedIds,
     };
@@ -273,6 +372,55 @@ const LfoInstance: React.FC<{
     return null;
 };
 
+const EMPTY_INPUT_SIGNALS: ReadonlyMap<string, ModulationSignal> = new Map();
+
+// The transport `includeProvider` adds starts once audio is unlocked, like a standalone player
+const PatchTransportAutoPlay: React.FC = () => {
+    const transport = useContext(TransportContext);
+    const { isUnlocked } = useAudio();
+    const startedRef = useRef(false);
+
+    useEffect(() => {
+        if (startedRef.current || !isUnlocked || !transport || transport.isPlaying) return;
+        startedRef.current = true;
+        transport.play();
+    }, [isUnlocked, transport]);
+
+    return null;
+};
+
+// With a handle attached, inputs that only drive audio params follow a signal
+const PatchInputSignals: React.FC<{
+    handles: ReadonlyMap<string, string>;
+    controller: PatchInputController;
+    paramsByHandleRef: React.MutableRefObject<Map<string, number>>;
+    onChange: (outputs: ReadonlyMap<string, ModulationSignal>) => void;
+}> = ({ handles, controller, paramsByHandleRef, onChange }) => {
+    const { context } = useAudio();
+
+    useEffect(() => {
+        if (!context) return;
+        const outputs = new Map<string, ModulationSignal>();
+        handles.forEach((handleKey, key) => {
+            const value = controller.values.get(key) ?? paramsByHandleRef.current.get(handleKey) ?? 0;
+            const signal = createPatchInputSignal(context, value);
+            controller.signals.set(key, signal);
+            outputs.set(handleKey, signal.output);
+        });
+        onChange(outputs);
+
+        return () => {
+            handles.forEach((_, key) => {
+                controller.signals.get(key)?.dispose();
+                controller.signals.delete(key);
+            });
+            onChange(EMPTY_INPUT_SIGNALS);
+        };
+    }, [context, controller, handles, onChange, paramsByHandleRef]);
+
+    return null;
+};
+
 function getMidiNoteInputValue(
     nodeId: string,
     bindingsByNodeId: Map<string, MidiNoteValue | MidiCCValue>
@@ -398,21 +546,77 @@ function buildPublicEventValueMap(
     return eventValues;
 }
 
+function applyMidiLearnValues(
+    patch: PatchDocument,
+    propValues: Record<string, unknown>,
+    learnedValues: ReadonlyMap<string, number> | undefined
+): Record<string, unknown> {
+    if (!learnedValues || learnedValues.size === 0) return propValues;
+
+    const values = { ...propValues };
+    patch.interface.inputs.forEach((input) => {
+        const normalized = learnedValues.get(input.key);
+        if (normalized !== undefined) {
+            values[input.key] = input.min + normalized * (input.max - input.min);
+        }
+    });
+    return values;
+}
+
+/**
+ * Pick the interface input and event values from the props, returning
+ * `previous` while none of them changed so effects can depend on the result.
+ */
+function pickInterfaceValues(
+    patch: PatchDocument,
+    propValues: Record<string, unknown>,
+    previous: Record<string, unknown> | null
+): Record<string, unknown> {
+    const keys = [
+        ...patch.interface.inputs.map((input) => input.key),
+        ...patch.interface.events.map((event) => event.key),
+    ];
+    const values = Object.fromEntries(keys.map((key) => [key, propValues[key]]));
+    if (
+        previous
+        && Object.keys(previous).length === keys.length
+        && keys.every((key) => key in previous && Object.is(previous[key], values[key]))
+    ) {
+        return previous;
+    }
+    return values;
+}
+
 const RuntimeRenderer: React.FC<{
     patch: PatchDocument;
     graph: PatchGraphData;
     assetRoot?: string;
     propValues: Record<string, unknown>;
     midi?: PatchMidiBindings<PatchDocument>;
-}> = ({ patch, graph, assetRoot, propValues, midi }) => {
+    inputController?: PatchInputController | null;
+}> = ({ patch, graph, assetRoot, propValues, midi, inputController }) => {
     const lfoValues = useContext(LfoContext);
+    // Sequencers and MIDI players follow the transport play state and tempo when there is one
+    const hasTransport = Boolean(useContext(TransportContext));
     const paramsByHandle = useMemo(() => buildPatchParameterMap(patch, propValues), [patch, propValues]);
+    const paramsByHandleRef = useRef(paramsByHandle);
+    const [inputSignals, setInputSignals] = useState(EMPTY_INPUT_SIGNALS);
+    const signalInputHandles = useMemo(() => getSignalInputHandles(patch), [patch]);
     const midiInputBindings = useMemo(() => buildMidiInputBindingMap(patch, midi), [midi, patch]);
     const midiOutputBindings = useMemo(() => buildMidiOutputBindingList(patch, midi), [midi, patch]);
     const publicEventValues = useMemo(() => buildPublicEventValueMap(patch, propValues), [patch, propValues]);
     const trackInfoById = useMemo(() => new Map<string, PreviewTrackInfo>(), []);
     const dataValues = useMemo(() => new Map<string, number>(), [graph]);
 
+    useEffect(() => {
+        paramsByHandleRef.current = paramsByHandle;
+    }, [paramsByHandle]);
+
+    const transportBpm = useMemo(() => {
+        const transportNode = patch.nodes.find((node) => node.data.type === 'transport');
+        return transportNode ? asNumber((transportNode.data as AnyNodeData).bpm, 120) : undefined;
+    }, [patch.nodes]);
+
     const getSequencerSource = useCallback((nodeId: string) => {
         const connections = graph.controlConnectionsByTarget.get(nodeId) ?? [];
         const triggerConnection = connections.find((connection) => connection.targetHandle === 'trigger' || connection.targetHandle === 'gate');
@@ -447,39 +651,41 @@ const RuntimeRenderer: React.FC<{
         return sourceNode?.data.type === 'midiNote' ? sourceNode : null;
     }, [graph.controlConnectionsByTarget, graph.nodeById]);
 
+    const getMidiPlayerSource = useCallback((nodeId: string) => {
+        const connections = graph.controlConnectionsByTarget.get(nodeId) ?? [];
+        const triggerConnection = connections.find((connection) => {
+            if (connection.targetHandle !== 'trigger' && connection.targetHandle !== 'gate') return false;
+            return graph.nodeById.get(connection.source)?.data.type === 'midiPlayer';
+        });
+        if (!triggerConnection) return null;
+        const sourceNode = graph.nodeById.get(triggerConnection.source);
+        if (sourceNode?.data.type !== 'midiPlayer') return null;
+        return graph.transportConnectedIds.has(sourceNode.id) ? sourceNode : null;
+    }, [graph.controlConnectionsByTarget, graph.nodeById, graph.transportConnectedIds]);
+
     const getTrackInfo = useCallback((node: PatchNode): PreviewTrackInfo => {
         if (trackInfoById.has(node.id)) {
             return trackInfoById.get(node.id)!;
         }
 
-        let info: PreviewTrackInfo = { steps: 16, pattern: [] };
+        let info: PreviewTrackInfo = { steps: 16, pattern: [], polyphony: 1 };
         const data = node.data as AnyNodeData;
 
         if (data.type === 'stepSequencer') {
             const steps = asNumber(data.steps, 16);
-            const activeSteps = Array.isArray(data.activeSteps) ? data.activeSteps : Array(steps).fill(false);
-            const velocities = Array.isArray(data.pattern) ? data.pattern : Array(steps).fill(0.8);
             info = {
                 steps,
-                pattern: Array.from({ length: steps }, (_, index) =>
-                    activeSteps[index] ? asNumber(velocities[index], 1) : 0
-                ),
+                pattern: buildStepSequencerPattern(data, steps),
+                polyphony: 1,
             };
         } else if (data.type === 'pianoRoll') {
             const steps = asNumber(data.steps, 16);
-            const notes = Array.isArray(data.notes) ? data.notes as Array<Record<string, unknown>> : [];
-            const pattern = Array.from({ length: steps }, () => 0);
-            notes.forEach((note) => {
-                const step = asNumber(note.step, -1);
-                if (step < 0 || step >= steps) return;
-                const velocity = Math.max(0, Math.min(1, asNumber(note.velocity, 0)));
-                pattern[step] = Math.max(pattern[step], velocity);
-            });
-            const pitches = Array.from(new Set(notes.map((note) => asNumber(note.pitch, 60))));
+            const notes = buildPianoRollNotes(data, steps);
             info = {
                 steps,
-                pattern,
-                note: pitches.length === 1 ? pitches[0] : undefined,
+                pattern: [],
+                notes,
+                polyphony: Math.min(MAX_PIANO_ROLL_VOICES, Math.max(1, getMaxOverlappingNotes(notes))),
             };
         }
 
@@ -702,6 +908,7 @@ const RuntimeRenderer: React.FC<{
                 midiInputBindings,
                 midi,
                 getDataValue,
+                inputSignals,
             });
 
             let element = React.createElement(
@@ -721,12 +928,21 @@ const RuntimeRenderer: React.FC<{
             return element;
         };
 
+        const voiceTrackSource = voiceNode ? getSequencerSource(voiceNode.id) : null;
+        const voicePolyphony = voiceTrackSource ? getTrackInfo(voiceTrackSource).polyphony : 1;
+
         let element: ReactNode = voiceNode && !voiceContext
-            ? (
-                <Voice portamento={asNumber((voiceNode.data as AnyNodeData).portamento, 0)}>
-                    {(context) => renderBase(context)}
-                </Voice>
-            )
+            ? voicePolyphony > 1
+                ? (
+                    <PolyVoice voices={voicePolyphony} portamento={asNumber((voiceNode.data as AnyNodeData).portamento, 0)}>
+                        {(context) => renderBase(context)}
+                    </PolyVoice>
+                )
+                : (
+                    <Voice portamento={asNumber((voiceNode.data as AnyNodeData).portamento, 0)}>
+                        {(context) => renderBase(context)}
+                    </Voice>
+                )
             : renderBase(voiceContext);
 
         const sidechainConnections = graph.sidechainConnectionsBySource.get(node.id) ?? [];
@@ -741,25 +957,55 @@ const RuntimeRenderer: React.FC<{
         }
 
         const trackSource = getSequencerSource(node.id)
-            || (voiceNode ? getSequencerSource(voiceNode.id) : null)
+            || voiceTrackSource
             || adsrTrackSource;
 
         if (trackSource) {
             const trackInfo = getTrackInfo(trackSource);
             element = (
-                <Track id={trackSource.id} steps={trackInfo.steps} pattern={trackInfo.pattern} note={trackInfo.note}>
+                <Track
+                    id={trackSource.id}
+                    steps={trackInfo.steps}
+                    pattern={trackInfo.pattern}
+                    notes={trackInfo.notes}
+                >
                     {element}
                 </Track>
             );
         }
 
-        const midiTriggerSource = !trackSource
+        const midiPlayerSource = !trackSource
+            ? getMidiPlayerSource(node.id)
+                || (voiceNode ? getMidiPlayerSource(voiceNode.id) : null)
+                || (adsrNode ? getMidiPlayerSource(adsrNode.id) : null)
+            : null;
+
+        if (midiPlayerSource) {
+            const playerData = midiPlayerSource.data as AnyNodeData;
+            const playerTracks = Array.isArray(playerData.tracks)
+                ? playerData.tracks.filter((value): value is number => Number.isInteger(value))
+                : null;
+            element = (
+                <MidiFilePlayer
+                    src={resolvePatchAssetPath(asString(playerData.assetPath, ''), assetRoot)}
+                    loop={asBoolean(playerData.loop, false)}
+                    tracks={playerTracks}
+                    bpm={hasTransport ? undefined : transportBpm}
+                    trackId={midiPlayerSource.id}
+                    autoStart={!hasTransport}
+                >
+                    {element}
+                </MidiFilePlayer>
+            );
+        }
+
+        const midiTriggerSource = !trackSource && !midiPlayerSource
             ? getMidiNoteTriggerSource(node.id)
                 || (voiceNode ? getMidiNoteTriggerSource(voiceNode.id) : null)
                 || (adsrNode ? getMidiNoteTriggerSource(adsrNode.id) : null)
             : null;
 
-        const eventSource = !trackSource && !midiTriggerSource
+        const eventSource = !trackSource && !midiPlayerSource && !midiTriggerSource
             ? getEventTriggerSource(node.id)
                 || (voiceNode ? getEventTriggerSource(voiceNode.id) : null)
                 || (adsrNode ? getEventTriggerSource(adsrNode.id) : null)
@@ -796,13 +1042,17 @@ const RuntimeRenderer: React.FC<{
         getEventTriggerSource,
         getEventTriggerTokenValue,
         getMidiNoteTriggerSource,
+        getMidiPlayerSource,
         getSequencerSource,
         getTrackInfo,
         graph,
+        hasTransport,
+        inputSignals,
         lfoValues,
         midi,
         midiInputBindings,
         paramsByHandle,
+        transportBpm,
     ]);
 
     const rootElements = graph.rootNodes
@@ -817,13 +1067,14 @@ const RuntimeRenderer: React.FC<{
         ? Math.max(...Array.from(graph.trackSourcesUsed).map((id) => getTrackInfo(graph.nodeById.get(id)!).steps))
         : 16;
 
-    const transportNode = patch.nodes.find((node) => node.data.type === 'transport');
-    const sequencerBpm = transportNode ? asNumber((transportNode.data as AnyNodeData).bpm, 120) : undefined;
-
     let content: ReactNode = rootElements.length > 0 ? <>{rootElements}</> : null;
     if (graph.trackSourcesUsed.size > 0) {
         content = (
-            <Sequencer steps={sequencerSteps} autoStart bpm={sequencerBpm}>
+            <Sequencer
+                steps={sequencerSteps}
+                autoStart={!hasTransport}
+                bpm={hasTransport ? undefined : transportBpm}
+            >
                 {content}
             </Sequencer>
         );
@@ -879,10 +1130,35 @@ const RuntimeRenderer: React.FC<{
         }
     }).filter(Boolean);
 
+    const standaloneElements = graph.standaloneNodes.map((node) => {
+        const Component = getPatchNodeTypeDefinition(node.data.type)?.component;
+        if (!Component) return null;
+        const props = buildRuntimeProps(node, undefined, graph.controlConnectionsByTarget.get(node.id) ?? [], {
+            assetRoot,
+            graph,
+            paramsByHandle,
+            lfoValues,
+            midiInputBindings,
+            midi,
+            getDataValue,
+            inputSignals,
+        });
+        return React.createElement(Component, { ...props, key: node.id });
+    });
+
     return (
         <>
             {content}
             {midiOutputElements}
+            {standaloneElements}
+            {inputController && signalInputHandles.size > 0 && (
+                <PatchInputSignals
+                    handles={signalInputHandles}
+                    controller={inputController}
+                    paramsByHandleRef={paramsByHandleRef}
+                    onChange={setInputSignals}
+                />
+            )}
         </>
     );
 };
@@ -899,6 +1175,7 @@ function buildRuntimeProps(
         midiInputBindings: Map<string, MidiNoteValue | MidiCCValue>;
         midi?: PatchMidiBindings<PatchDocument>;
         getDataValue: (nodeId: string, visiting?: Set<string>) => number;
+        inputSignals: ReadonlyMap<string, ModulationSignal>;
     }
 ): Record<string, unknown> {
     const props: Record<string, unknown> = {};
@@ -976,6 +1253,10 @@ function buildRuntimeProps(
         }
 
         if (dataValue !== undefined) return { value: dataValue };
+        const inputSignal = inputConnection && options.modulatable
+            ? context.inputSignals.get(`${inputConnection.source}:${inputConnection.sourceHandle}`)
+            : undefined;
+        if (inputSignal) return { value: inputSignal, base: 0 };
         if (inputValue !== undefined) return { value: inputValue };
         if (midiCCValue) return { value: midiCCConnection?.sourceHandle === 'raw' ? midiCCValue.raw : midiCCValue.normalized };
         if (options.baseValue !== undefined) return { value: options.baseValue };
@@ -984,7 +1265,16 @@ function buildRuntimeProps(
 
     switch (data.type) {
         case 'osc': {
-            props.type = asString(data.waveform, 'sine');
+            const tables = getWavetableTables(data);
+            if (tables) {
+                props.tables = tables;
+                const wavetable = data.wavetable as Record<string, unknown>;
+                const position = resolveControlValue('position', { baseValue: asNumber(wavetable.position, 0), modulatable: true });
+                if (position.value !== undefined) props.position = position.value;
+                if (position.base !== undefined) props.positionBase = position.base;
+            } else {
+                props.type = asString(data.waveform, 'sine');
+            }
             props.autoStart = true;
             const frequency = resolveControlValue('frequency', { baseValue: asNumber(data.frequency, 440), modulatable: true });
             if (frequency.value !== undefined) props.frequency = frequency.value;
@@ -992,7 +1282,7 @@ function buildRuntimeProps(
             const detune = resolveControlValue('detune', { baseValue: asNumber(data.detune, 0), modulatable: true });
             if (detune.value !== undefined) props.detune = detune.value;
             if (detune.base !== undefined) props.detuneBase = detune.base;
-            if (voiceConnections.some((connection) => connection.targetHandle === 'frequency') && voiceContext) {
+            if (!tables && voiceConnections.some((connection) => connection.targetHandle === 'frequency') && voiceContext) {
                 props.nodeRef = voiceContext.oscRef;
             }
             break;
@@ -1155,6 +1445,24 @@ function buildRuntimeProps(
             }
             break;
         }
+        case 'granularSampler': {
+            const assetPath = resolvePatchAssetPath(asString(data.assetPath, ''), context.assetRoot);
+            if (assetPath) props.src = assetPath;
+            props.grainSize = resolveControlValue('grainSize', { baseValue: asNumber(data.grainSize, 0.1) }).value;
+            props.pitch = resolveControlValue('pitch', { baseValue: asNumber(data.pitch, 0) }).value;
+            props.positionJitter = asNumber(data.positionJitter, 0);
+            props.spray = asNumber(data.spray, 0);
+            props.window = asString(data.window, 'hann');
+            props.gain = asNumber(data.gain, 1);
+            const position = resolveControlValue('position', { baseValue: asNumber(data.position, 0), modulatable: true });
+            if (position.value !== undefined) props.position = position.value;
+            if (position.base !== undefined) props.positionBase = position.base;
+            const density = resolveControlValue('density', { baseValue: asNumber(data.density, 10), modulatable: true });
+            if (density.value !== undefined) props.density = density.value;
+            if (density.base !== undefined) props.densityBase = density.base;
+            props.autoStart = true;
+            break;
+        }
         case 'patch':
             props.patchInline = data.patchInline;
             props.patchAsset = data.patchAsset;
@@ -1167,8 +1475,15 @@ function buildRuntimeProps(
             props.outputs = asNumber(data.outputs, 2);
             props.matrix = Array.isArray(data.matrix) ? data.matrix : [];
             break;
-        default:
+        default: {
+            const definition = getPatchNodeTypeDefinition(data.type);
+            if (!definition) break;
+            Object.assign(props, buildRegisteredNodeProps(definition, data as PatchNodeData, {
+                resolveControlValue: (handle, options = {}) => resolveControlValue(handle, options),
+                resolveAssetPath: (assetPath) => resolvePatchAssetPath(assetPath, context.assetRoot),
+            }));
             break;
+        }
     }
 
     return props;
@@ -1308,17 +1623,56 @@ function PatchFeedbackDelay({
     );
 }
 
+type PatchRendererRuntimeProps<TPatch extends PatchDocument> = PatchRendererProps<TPatch> & {
+    audioContext?: BaseAudioContext;
+    handleRef?: ForwardedRef<PatchHandle<TPatch>>;
+};
+
+function PatchRendererWithHandle(
+    props: PatchRendererProps<PatchDocument>,
+    ref: ForwardedRef<PatchHandle>
+) {
+    return <PatchRendererRuntime {...props} handleRef={ref} />;
+}
+
 /**
  * Render a patch document as a live `@open-din/react` graph.
+ *
+ * Pass a `ref` to get a `PatchHandle` for setting inputs and firing events
+ * without going through props.
  */
-export function PatchRenderer<const TPatch extends PatchDocument>({
+export const PatchRenderer = forwardRef(PatchRendererWithHandle) as <const TPatch extends PatchDocument>(
+    props: PatchRendererProps<TPatch> & { ref?: Ref<PatchHandle<TPatch>> }
+) => ReactElement | null;
+
+/**
+ * PatchRenderer implementation that can adopt a caller-owned audio context
+ * when `includeProvider` is set (used by offline rendering).
+ * @internal
+ */
+export function PatchRendererRuntime<TPatch extends PatchDocument>({
     patch,
     includeProvider = false,
     assetRoot,
     midi,
+    audioContext,
+    lenient = false,
+    onDiagnostics,
+    handleRef,
     ...rest
-}: PatchRendererProps<TPatch>) {
-    const migratedPatch = useMemo(() => migratePatchDocument(patch), [patch]);
+}: PatchRendererRuntimeProps<TPatch>) {
+    const loaded = useMemo(
+        () => (lenient ? migratePatchDocumentLeniently(patch) : { patch: migratePatchDocument(patch), diagnostics: null }),
+        [lenient, patch]
+    );
+    const migratedPatch = loaded.patch;
+    const onDiagnosticsRef = useRef(onDiagnostics);
+    useEffect(() => {
+        onDiagnosticsRef.current = onDiagnostics;
+    }, [onDiagnostics]);
+    useEffect(() => {
+        if (loaded.diagnostics) onDiagnosticsRef.current?.(loaded.diagnostics);
+    }, [loaded]);
     const graph = useMemo(() => buildPatchGraphData(migratedPatch), [migratedPatch]);
     const lfoNodes = useMemo(
         () => migratedPatch.nodes.filter((node) => node.data.type === 'lfo'),
@@ -1333,14 +1687,103 @@ export function PatchRenderer<const TPatch extends PatchDocument>({
         [midi, migratedPatch]
     );
     const transportBindings = midiOutputBindings.filter(({ metadata }) => metadata.kind === 'midi-sync-output');
+
+    // Learned MIDI values override input props once their source has sent a message
+    const midiLearn = useOptionalMidiLearn();
+    const registerLearnTarget = midiLearn?.registerTarget;
+    useEffect(() => {
+        if (!registerLearnTarget) return;
+        const unregister = migratedPatch.interface.inputs.map((input) => registerLearnTarget({
+            id: input.key,
+            label: input.label,
+            min: input.min,
+            max: input.max,
+        }));
+        return () => unregister.forEach((callback) => callback());
+    }, [migratedPatch, registerLearnTarget]);
+
+    // Handle values override props until the prop (or learned value) changes
+    const [inputController] = useState(createPatchInputController);
+    const [handleInputs, setHandleInputs] = useState<Record<string, number>>({});
+    const [handleEvents, setHandleEvents] = useState<Record<string, unknown>>({});
+    const signalInputs = useMemo(() => getSignalInputHandles(migratedPatch), [migratedPatch]);
+    const propValues = applyMidiLearnValues(migratedPatch, rest as Record<string, unknown>, midiLearn?.values);
+    const interfaceValuesRef = useRef<Record<string, unknown> | null>(null);
+    const interfaceValues = pickInterfaceValues(migratedPatch, propValues, interfaceValuesRef.current);
+    interfaceValuesRef.current = interfaceValues;
+    const previousPropValuesRef = useRef<Record<string, unknown> | null>(null);
+
+    useEffect(() => {
+        const previous = previousPropValuesRef.current;
+        previousPropValuesRef.current = interfaceValues;
+        const changed = (key: string) => previous !== null && !Object.is(previous[key], interfaceValues[key]);
+        const paramsByHandle = buildPatchParameterMap(migratedPatch, interfaceValues);
+
+        migratedPatch.interface.inputs.forEach((input) => {
+            if (inputController.values.has(input.key) && !changed(input.key)) return;
+            const value = paramsByHandle.get(`${input.nodeId}:${input.handle}`) ?? input.defaultValue;
+            applyPatchInputValue(inputController, input.key, value);
+        });
+
+        const withoutChanged = <TValue,>(overrides: Record<string, TValue>) => {
+            const changedKeys = Object.keys(overrides).filter(changed);
+            if (changedKeys.length === 0) return overrides;
+            const next = { ...overrides };
+            changedKeys.forEach((key) => delete next[key]);
+            return next;
+        };
+        setHandleInputs(withoutChanged);
+        setHandleEvents(withoutChanged);
+    }, [inputController, interfaceValues, migratedPatch]);
+
+    useImperativeHandle(handleRef, () => {
+        const inputKeys = new Set(migratedPatch.interface.inputs.map((input) => input.key));
+        const eventKeys = new Set(migratedPatch.interface.events.map((event) => event.key));
+        const assertInput = (key: string) => {
+            if (!inputKeys.has(key)) throw new Error(`Patch input "${key}" does not exist.`);
+        };
+
+        return {
+            setInput: (key, value, options = {}) => {
+                assertInput(key);
+                applyPatchInputValue(inputController, key, value, options.rampTime ?? 0);
+                if (!signalInputs.has(key)) {
+                    setHandleInputs((current) => (current[key] === value ? current : { ...current, [key]: value }));
+                }
+            },
+            getInput: (key) => {
+                assertInput(key);
+                return inputController.values.get(key) ?? 0;
+            },
+            fireEvent: (key, token) => {
+                if (!eventKeys.has(key)) throw new Error(`Patch event "${key}" does not exist.`);
+                setHandleEvents((current) => {
+                    const previous = key in current ? current[key] : previousPropValuesRef.current?.[key];
+                    const next = token !== undefined
+                        ? token
+                        : Number.isFinite(previous) ? Number(previous) + 1 : 1;
+                    return { ...current, [key]: next };
+                });
+            },
+            subscribe: (listener) => {
+                const callback = listener as PatchInputListener;
+                inputController.listeners.add(callback);
+                return () => {
+                    inputController.listeners.delete(callback);
+                };
+            },
+        };
+    }, [inputController, migratedPatch, signalInputs]);
+
     const content = (
         <LfoRegistry nodes={lfoNodes}>
             <RuntimeRenderer
                 patch={migratedPatch}
                 graph={graph}
                 assetRoot={assetRoot}
-                propValues={rest as Record<string, unknown>}
+                propValues={{ ...propValues, ...handleInputs, ...handleEvents }}
                 midi={midi as PatchMidiBindings<PatchDocument> | undefined}
+                inputController={handleRef ? inputController : null}
             />
         </LfoRegistry>
     );
@@ -1353,9 +1796,10 @@ export function PatchRenderer<const TPatch extends PatchDocument>({
     const needsTransportProvider = Boolean(transportNode) || transportBindings.length > 0;
 
     return (
-        <AudioProvider>
+        <AudioProvider context={audioContext}>
             {needsTransportProvider ? (
                 <TransportProvider {...transportProps}>
+                    {transportProps.mode === 'manual' ? null : <PatchTransportAutoPlay />}
                     {content}
                 </TransportProvider>
             ) : (
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { generatePatchModule, type GeneratePatchModuleOptions } from './codegen';
+
+const USAGE = [
+    'Usage: open-din-patch-codegen <input.patch.json> [output.ts] [options]',
+    '',
+    'Options:',
+    '  --component <Name>        Exported component name',
+    '  --import-source <module>  Module to import PatchRenderer from (default: @open-din/react)',
+    '  --include-provider        Render the patch inside its own AudioProvider',
+    '  --asset-root <path>       Base path for node assetPath values',
+].join('\n');
+
+interface CodegenArgs {
+    input: string;
+    output: string;
+    options: GeneratePatchModuleOptions;
+}
+
+function parseArgs(args: readonly string[]): CodegenArgs {
+    const files: string[] = [];
+    const options: GeneratePatchModuleOptions = {};
+    const readValue = (index: number, flag: string) => {
+        const value = args[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`Option ${flag} needs a value.`);
+        }
+        return value;
+    };
+
+    for (let index = 0; index < args.length; index += 1) {
+        const arg = args[index];
+        switch (arg) {
+            case '--component':
+                options.componentName = readValue(index, arg);
+                index += 1;
+                break;
+            case '--import-source':
+                options.importSource = readValue(index, arg);
+                index += 1;
+                break;
+            case '--asset-root':
+                options.assetRoot = readValue(index, arg);
+                index += 1;
+                break;
+            case '--include-provider':
+                options.includeProvider = true;
+                break;
+            default:
+                if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}.`);
+                files.push(arg);
+        }
+    }
+
+    const [input, output, ...extra] = files;
+    if (!input || extra.length > 0) {
+        throw new Error(USAGE);
+    }
+
+    return {
+        input,
+        output: output ?? `${input.replace(/\.json$/i, '')}.ts`,
+        options: { ...options, sourceFile: basename(input) },
+    };
+}
+
+function main(args: readonly string[]): void {
+    if (args.includes('--help')) {
+        console.log(USAGE);
+        return;
+    }
+
+    try {
+        const { input, output, options } = parseArgs(args);
+        const patch = JSON.parse(readFileSync(input, 'utf8'));
+        writeFileSync(output, generatePatchModule(patch, options));
+        console.log(`Wrote ${output}`);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exitCode = 1;
+    }
+}
+
+main(process.argv.slice(2));
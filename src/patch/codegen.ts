@@ -0,0 +1,139 @@
+import { migratePatchDocument } from './document';
+import { toSafeIdentifier } from './naming';
+import type { ImportPatchOptions, PatchDocument, VersionedPatchDocument } from './types';
+
+/**
+ * Options for `generatePatchModule`.
+ */
+export interface GeneratePatchModuleOptions extends ImportPatchOptions {
+    /** Exported component name; defaults to the PascalCase patch name */
+    componentName?: string;
+    /** Module the generated code imports `PatchRenderer` from */
+    importSource?: string;
+    /** Patch file name, mentioned in the generated header */
+    sourceFile?: string;
+}
+
+/** Names the generated module declares or imports besides the patch ones. */
+const MODULE_IDENTIFIERS = new Set([
+    'createElement',
+    'forwardRef',
+    'patchDocument',
+    'patchHandle',
+    'patchRenderer',
+    'patchRendererProps',
+]);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatDocText(value: string): string {
+    return value.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+}
+
+function formatDocComment(lines: readonly string[], indent: string): string[] {
+    return [`${indent}/**`, ...lines.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)), `${indent} */`];
+}
+
+function formatString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Format an object or interface property key, quoting keys that are not identifiers.
+ * @internal
+ */
+export function formatPropertyKey(key: string): string {
+    return IDENTIFIER_PATTERN.test(key) ? key : formatString(key);
+}
+
+function formatRange(min: number, max: number, defaultValue: number): string {
+    return `Range ${min} to ${max}; defaults to ${defaultValue}.`;
+}
+
+/**
+ * Generate a TypeScript module for a patch document.
+ *
+ * The module exports the migrated document `as const`, so its inputs and
+ * events type the props like an inline patch literal, a `forwardRef`
+ * component rendering it with `PatchRenderer`, a props interface documenting
+ * each input with its label, range and default, and the handle type.
+ *
+ * @param patch - Patch document of any supported version, e.g. a parsed `.patch.json`.
+ * @param options - Component name, import source and `PatchRenderer` defaults.
+ * @returns TypeScript source for a `.ts` module.
+ * @throws When the patch cannot be migrated or `componentName` is not a valid identifier.
+ *
+ * @example
+ * ```ts
+ * const source = generatePatchModule(JSON.parse(json), { includeProvider: true });
+ * ```
+ */
+export function generatePatchModule(
+    patch: PatchDocument | VersionedPatchDocument,
+    options: GeneratePatchModuleOptions = {}
+): string {
+    const migratedPatch = migratePatchDocument(patch);
+    const { componentName: requestedName, importSource = '@open-din/react', sourceFile, includeProvider, assetRoot } = options;
+    if (requestedName !== undefined && !IDENTIFIER_PATTERN.test(requestedName)) {
+        throw new Error(`Patch component name "${requestedName}" is not a valid identifier.`);
+    }
+
+    const baseName = requestedName
+        ? requestedName.charAt(0).toLowerCase() + requestedName.slice(1)
+        : toSafeIdentifier(migratedPatch.name, 'patch', MODULE_IDENTIFIERS);
+    const patchName = /patch$/i.test(baseName) ? baseName : `${baseName}Patch`;
+    const componentName = requestedName ?? capitalize(patchName);
+    const documentName = patchName === componentName ? `${patchName}Document` : patchName;
+    const propsName = `${componentName}Props`;
+    const handleName = `${componentName}Handle`;
+    const patchLabel = formatDocText(migratedPatch.name);
+
+    const propLines = [
+        ...migratedPatch.interface.inputs.flatMap((input) => [
+            ...formatDocComment([
+                `${formatDocText(input.label) || input.key}.`,
+                '',
+                formatRange(input.min, input.max, input.defaultValue),
+            ], '    '),
+            `    ${formatPropertyKey(input.key)}?: number;`,
+        ]),
+        ...migratedPatch.interface.events.flatMap((event) => [
+            ...formatDocComment([
+                `${formatDocText(event.label) || event.key} event: change the token to fire it.`,
+            ], '    '),
+            `    ${formatPropertyKey(event.key)}?: unknown;`,
+        ]),
+    ];
+
+    const rendererDefaults = [
+        includeProvider !== undefined ? `includeProvider: ${includeProvider}, ` : '',
+        assetRoot !== undefined ? `assetRoot: ${formatString(assetRoot)}, ` : '',
+    ].join('');
+
+    return [
+        `// Generated${sourceFile ? ` from ${sourceFile}` : ''} by generatePatchModule. Do not edit.`,
+        `import { createElement, forwardRef } from 'react';`,
+        `import { PatchRenderer, type PatchDocument, type PatchHandle, type PatchRendererProps } from ${formatString(importSource)};`,
+        '',
+        ...formatDocComment([`The "${patchLabel}" patch document.`], ''),
+        `export const ${documentName} = ${JSON.stringify(migratedPatch, null, 4)} as const satisfies PatchDocument;`,
+        '',
+        ...formatDocComment([`Imperative handle of \`${componentName}\`.`], ''),
+        `export type ${handleName} = PatchHandle<typeof ${documentName}>;`,
+        '',
+        ...formatDocComment([`Props of \`${componentName}\`: the public inputs and events of "${patchLabel}".`], ''),
+        `export interface ${propsName} extends Omit<PatchRendererProps<typeof ${documentName}>, 'patch'> {`,
+        ...propLines,
+        '}',
+        '',
+        ...formatDocComment([`Renders the "${patchLabel}" patch with \`PatchRenderer\`.`], ''),
+        `export const ${componentName} = forwardRef<${handleName}, ${propsName}>(function ${componentName}(props, ref) {`,
+        `    return createElement(PatchRenderer<typeof ${documentName}>, { ${rendererDefaults}...props, patch: ${documentName}, ref });`,
+        '});',
+        '',
+    ].join('\n');
+}
@@ -1,12 +1,23 @@
-import type { PatchConnection, PatchDocument, PatchNode } from './types';
+import type {
+    PatchConnection,
+    PatchDiagnostic,
+    PatchDocument,
+    PatchMigrationReport,
+    PatchNode,
+    PatchValidationReport,
+    VersionedPatchDocument,
+} from './types';
 import { hydrateNodeDataForGraph, normalizePatchNode } from './document/assets';
+import { inspectPatchDocument } from './document/diagnostics';
 import { getTransportConnections, isAudioConnectionLike, validateConnection, validateNode } from './document/handles';
 import { buildPatchInterface } from './document/interface';
+import { getPatchDocumentVersion, runPatchMigrations } from './document/migrations';
 import { normalizePatchConnection } from './document/normalize';
 import {
     PATCH_DOCUMENT_VERSION,
     PATCH_INPUT_HANDLE_PREFIX,
     type GraphDocumentLike,
+    type GraphNodeLike,
     type PatchToGraphOptions,
     createGraphId,
 } from './document/shared';
@@ -21,6 +32,7 @@ export {
 } from './document/shared';
 
 export { isAudioConnectionLike, getTransportConnections };
+export { getPatchNodeTypeDefinition, getPatchNodeTypeDefinitions, registerPatchNodeType } from './document/registry';
 
 export function resolvePatchAssetPath(assetPath: string | undefined, assetRoot?: string): string | undefined {
     if (!assetPath) return undefined;
@@ -36,11 +48,11 @@ export function resolvePatchAssetPath(assetPath: string | undefined, assetRoot?:
 
 export function graphDocumentToPatch(graph: GraphDocumentLike): PatchDocument {
     const rawConnections = graph.connections ?? graph.edges ?? [];
+    graph.nodes.forEach(validateNode);
     const nodes = graph.nodes.map((node) => normalizePatchNode(node) as PatchNode);
     const connections = rawConnections.map(normalizePatchConnection);
     const nodeById = new Map(nodes.map((node) => [node.id, node] as const));
 
-    nodes.forEach(validateNode);
     connections.forEach((connection) => validateConnection(connection, nodeById));
 
     return {
@@ -52,19 +64,13 @@ export function graphDocumentToPatch(graph: GraphDocumentLike): PatchDocument {
     };
 }
 
-export function migratePatchDocument(patch: PatchDocument): PatchDocument {
-    if (!patch || typeof patch !== 'object') {
-        throw new Error('Patch document must be an object.');
-    }
-    if (patch.version !== PATCH_DOCUMENT_VERSION) {
-        throw new Error(`Unsupported patch version "${String((patch as { version?: unknown }).version)}".`);
-    }
-
-    const nodes = (Array.isArray(patch.nodes) ? patch.nodes : []).map((node) => normalizePatchNode(node as any) as PatchNode);
+function normalizePatchDocument(patch: PatchDocument): PatchDocument {
+    const rawNodes = (Array.isArray(patch.nodes) ? patch.nodes : []) as unknown as GraphNodeLike[];
+    rawNodes.forEach(validateNode);
+    const nodes = rawNodes.map((node) => normalizePatchNode(node) as PatchNode);
     const connections = (Array.isArray(patch.connections) ? patch.connections : []).map(normalizePatchConnection);
     const nodeById = new Map(nodes.map((node) => [node.id, node] as const));
 
-    nodes.forEach(validateNode);
     connections.forEach((connection) => validateConnection(connection, nodeById));
 
     return {
@@ -76,6 +82,73 @@ export function migratePatchDocument(patch: PatchDocument): PatchDocument {
     };
 }
 
+/**
+ * Upgrade a saved patch of any supported version to the current version and
+ * report each migration step applied.
+ *
+ * @throws When the version is unknown or newer than this release, or the
+ * migrated document fails validation.
+ */
+export function migratePatchDocumentWithReport(
+    patch: PatchDocument | VersionedPatchDocument
+): { patch: PatchDocument; report: PatchMigrationReport } {
+    getPatchDocumentVersion(patch);
+    const { patch: upgraded, report } = runPatchMigrations(patch as VersionedPatchDocument, PATCH_DOCUMENT_VERSION);
+    return { patch: normalizePatchDocument(upgraded as unknown as PatchDocument), report };
+}
+
+export function migratePatchDocument(patch: PatchDocument | VersionedPatchDocument): PatchDocument {
+    return migratePatchDocumentWithReport(patch).patch;
+}
+
+/**
+ * Check a patch without throwing and list every problem found.
+ *
+ * Reports unsupported versions, unknown node types, bad handles, missing
+ * connection endpoints, audio cycles, nodes that never reach an output, and
+ * saved interface entries that no longer match a node. Loops through control
+ * or data connections, such as FM feedback into `frequency`, are allowed.
+ *
+ * @param patch - Patch document of any supported version.
+ * @returns Diagnostics in document order; `valid` is `false` when any is an error.
+ */
+export function validatePatchDocument(patch: PatchDocument | VersionedPatchDocument): PatchValidationReport {
+    const { diagnostics } = inspectPatchDocument(patch);
+    return {
+        valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+        diagnostics,
+    };
+}
+
+/**
+ * Migrate a patch, leaving out invalid nodes and connections instead of
+ * throwing, and report what was found.
+ * @internal
+ */
+export function migratePatchDocumentLeniently(
+    patch: PatchDocument | VersionedPatchDocument
+): { patch: PatchDocument; diagnostics: PatchDiagnostic[] } {
+    return inspectPatchDocument(patch);
+}
+
+/**
+ * Export a patch for an older release, stepping down the migration chain.
+ *
+ * @param patch - Patch of any supported version; it is migrated first.
+ * @param version - Target document version, from 1 to `PATCH_DOCUMENT_VERSION`.
+ * @throws When a step down would lose data, or `version` is out of range.
+ */
+export function downgradePatchDocument(
+    patch: PatchDocument | VersionedPatchDocument,
+    version: number
+): VersionedPatchDocument {
+    if (!Number.isInteger(version) || version < 1 || version > PATCH_DOCUMENT_VERSION) {
+        throw new Error(`Cannot export patch version ${version}; expected 1 to ${PATCH_DOCUMENT_VERSION}.`);
+    }
+    const current = migratePatchDocument(patch) as unknown as VersionedPatchDocument;
+    return runPatchMigrations(current, version).patch;
+}
+
 function buildGraphEdgeStyle(
     connection: PatchConnection,
     nodeById: Map<string, PatchNode>
@@ -55,7 +55,7 @@ export function sanitizeNodeData(data: Record<string, unknown>): Record<string,
     const next = deepClone(data);
     const inlinePatch = isRecord(data.patchInline) ? data.patchInline : null;
 
-    if (next.type === 'sampler') {
+    if (next.type === 'sampler' || next.type === 'granularSampler') {
         next.assetPath = resolveSamplerAssetPath(next);
         next.src = '';
         delete next.sampleId;
@@ -109,7 +109,7 @@ export function hydrateNodeDataForGraph(data: Record<string, unknown>): Record<s
     const next = deepClone(data);
     const inlinePatch = isRecord(data.patchInline) ? data.patchInline : null;
 
-    if (next.type === 'sampler') {
+    if (next.type === 'sampler' || next.type === 'granularSampler') {
         const assetPath = resolveSamplerAssetPath(next);
         next.assetPath = assetPath;
         next.src = '';
@@ -0,0 +1,297 @@
+import type {
+    PatchConnection,
+    PatchDiagnostic,
+    PatchDocument,
+    PatchInterface,
+    PatchNode,
+    VersionedPatchDocument,
+} from '../types';
+import { normalizePatchNode } from './assets';
+import { diagnosePatchConnection, diagnosePatchNode, isAudioConnectionLike } from './handles';
+import { buildPatchInterface } from './interface';
+import { getPatchDocumentVersion, runPatchMigrations } from './migrations';
+import { normalizePatchConnection } from './normalize';
+import { getPatchNodeTypeDefinition } from './registry';
+import { PATCH_DOCUMENT_VERSION, type GraphConnectionLike, type GraphNodeLike } from './shared';
+
+/** Node types whose output leaves the patch: audio out, MIDI out and MIDI sync. */
+const SINK_NODE_TYPES = new Set(['output', 'midiNoteOutput', 'midiCCOutput', 'midiSync']);
+
+/** Node types that act without connections (the transport drives the provider). */
+const STANDALONE_NODE_TYPES = new Set(['transport']);
+
+const INTERFACE_LISTS: ReadonlyArray<{ list: keyof PatchInterface; label: string }> = [
+    { list: 'inputs', label: 'input' },
+    { list: 'events', label: 'event' },
+    { list: 'midiInputs', label: 'MIDI input' },
+    { list: 'midiOutputs', label: 'MIDI output' },
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === 'object';
+}
+
+function collectNodes(rawNodes: unknown, diagnostics: PatchDiagnostic[]): PatchNode[] {
+    const nodes: PatchNode[] = [];
+    const ids = new Set<string>();
+
+    (Array.isArray(rawNodes) ? rawNodes : []).forEach((raw: unknown, index) => {
+        if (!isObject(raw)) {
+            diagnostics.push({
+                severity: 'error',
+                code: 'invalid-node',
+                message: `Patch node at index ${index} is not an object.`,
+                suggestion: 'Remove the entry from nodes.',
+            });
+            return;
+        }
+
+        const problem = diagnosePatchNode(raw as unknown as GraphNodeLike);
+        if (problem) {
+            diagnostics.push(problem);
+            return;
+        }
+        const node = normalizePatchNode(raw as unknown as GraphNodeLike) as PatchNode;
+        if (ids.has(node.id)) {
+            diagnostics.push({
+                severity: 'error',
+                code: 'duplicate-node-id',
+                nodeId: node.id,
+                message: `Patch node id "${node.id}" is used more than once.`,
+                suggestion: 'Give each node a unique id.',
+            });
+            return;
+        }
+
+        ids.add(node.id);
+        nodes.push(node);
+    });
+
+    return nodes;
+}
+
+function collectConnections(
+    rawConnections: unknown,
+    nodeById: Map<string, PatchNode>,
+    diagnostics: PatchDiagnostic[]
+): PatchConnection[] {
+    const connections: PatchConnection[] = [];
+
+    (Array.isArray(rawConnections) ? rawConnections : []).forEach((raw: unknown, index) => {
+        if (!isObject(raw) || typeof raw.source !== 'string' || typeof raw.target !== 'string') {
+            diagnostics.push({
+                severity: 'error',
+                code: 'invalid-connection',
+                connectionId: isObject(raw) && typeof raw.id === 'string' ? raw.id : undefined,
+                message: `Patch connection at index ${index} must have string source and target node ids.`,
+                suggestion: 'Remove the entry from connections.',
+            });
+            return;
+        }
+
+        const connection = normalizePatchConnection(raw as unknown as GraphConnectionLike, index);
+        const problem = diagnosePatchConnection(connection, nodeById);
+        if (problem) {
+            diagnostics.push(problem);
+            return;
+        }
+        connections.push(connection);
+    });
+
+    return connections;
+}
+
+/**
+ * Drop the audio connections that close a loop, keeping the first edges found
+ * in document order. The renderer nests audio nodes and cannot evaluate
+ * feedback between them; control and data connections are read as values,
+ * so loops through them (an FM loop into `frequency`, say) are left alone.
+ */
+function removeCycles(
+    nodes: readonly PatchNode[],
+    connections: readonly PatchConnection[],
+    nodeById: Map<string, PatchNode>,
+    diagnostics: PatchDiagnostic[]
+): PatchConnection[] {
+    const outgoing = new Map<string, PatchConnection[]>();
+    connections.forEach((connection) => {
+        if (!isAudioConnectionLike(connection, nodeById)) return;
+        const next = outgoing.get(connection.source) ?? [];
+        next.push(connection);
+        outgoing.set(connection.source, next);
+    });
+
+    const state = new Map<string, 'visiting' | 'done'>();
+    const backEdges = new Set<PatchConnection>();
+
+    const visit = (nodeId: string) => {
+        state.set(nodeId, 'visiting');
+        (outgoing.get(nodeId) ?? []).forEach((connection) => {
+            const targetState = state.get(connection.target);
+            if (targetState === 'visiting') {
+                backEdges.add(connection);
+                diagnostics.push({
+                    severity: 'error',
+                    code: 'cycle',
+                    connectionId: connection.id,
+                    nodeId: connection.target,
+                    handle: connection.targetHandle ?? undefined,
+                    message: `Patch connection "${connection.id}" closes an audio cycle back to node "${connection.target}".`,
+                    suggestion: 'Remove the connection; audio paths cannot contain feedback loops.',
+                });
+            } else if (!targetState) {
+                visit(connection.target);
+            }
+        });
+        state.set(nodeId, 'done');
+    };
+
+    nodes.forEach((node) => {
+        if (!state.has(node.id)) visit(node.id);
+    });
+
+    return connections.filter((connection) => !backEdges.has(connection));
+}
+
+function reportUnreachableNodes(
+    nodes: readonly PatchNode[],
+    connections: readonly PatchConnection[],
+    diagnostics: PatchDiagnostic[]
+): void {
+    if (nodes.length === 0) return;
+
+    // Custom components outside the audio chain act on their own, like MIDI outputs
+    const sinks = nodes.filter((node) => {
+        const definition = getPatchNodeTypeDefinition(node.type);
+        return SINK_NODE_TYPES.has(node.type) || Boolean(definition && !definition.isAudio);
+    });
+    if (sinks.length === 0) {
+        diagnostics.push({
+            severity: 'warning',
+            code: 'unreachable-node',
+            message: 'Patch has no output node, so nothing it renders is heard.',
+            suggestion: 'Add an output node and connect the audio chain to it.',
+        });
+        return;
+    }
+
+    const incoming = new Map<string, string[]>();
+    connections.forEach((connection) => {
+        const next = incoming.get(connection.target) ?? [];
+        next.push(connection.source);
+        incoming.set(connection.target, next);
+    });
+
+    const reached = new Set(sinks.map((node) => node.id));
+    const pending = [...reached];
+    while (pending.length > 0) {
+        const nodeId = pending.pop() as string;
+        (incoming.get(nodeId) ?? []).forEach((sourceId) => {
+            if (reached.has(sourceId)) return;
+            reached.add(sourceId);
+            pending.push(sourceId);
+        });
+    }
+
+    nodes.forEach((node) => {
+        if (reached.has(node.id) || STANDALONE_NODE_TYPES.has(node.type)) return;
+        diagnostics.push({
+            severity: 'warning',
+            code: 'unreachable-node',
+            nodeId: node.id,
+            message: `Patch node "${node.id}" does not lead to an output, so it has no effect.`,
+            suggestion: 'Connect the node towards an output node or remove it.',
+        });
+    });
+}
+
+function reportDanglingInterfaceEntries(
+    savedInterface: unknown,
+    nodes: readonly PatchNode[],
+    diagnostics: PatchDiagnostic[]
+): void {
+    if (!isObject(savedInterface)) return;
+
+    const nodeIds = new Set(nodes.map((node) => node.id));
+    const rebuilt = buildPatchInterface(nodes);
+
+    INTERFACE_LISTS.forEach(({ list, label }) => {
+        const saved = savedInterface[list];
+        if (!Array.isArray(saved)) return;
+        const rebuiltIds = new Set(rebuilt[list].map((entry) => entry.id));
+
+        saved.forEach((entry: unknown) => {
+            if (!isObject(entry) || rebuiltIds.has(entry.id as string)) return;
+            const key = typeof entry.key === 'string' ? entry.key : String(entry.id);
+            const nodeId = typeof entry.nodeId === 'string' ? entry.nodeId : undefined;
+            diagnostics.push({
+                severity: 'warning',
+                code: 'dangling-interface-entry',
+                nodeId,
+                handle: typeof entry.handle === 'string' ? entry.handle : undefined,
+                message: nodeId && !nodeIds.has(nodeId)
+                    ? `Patch interface ${label} "${key}" references missing node "${nodeId}".`
+                    : `Patch interface ${label} "${key}" does not match any node in the patch.`,
+                suggestion: 'Re-export the patch; the interface is rebuilt from its nodes on load.',
+            });
+        });
+    });
+}
+
+/** Migrate a patch to the current version, or report why it cannot be read. */
+function upgradePatchDocument(patch: unknown, diagnostics: PatchDiagnostic[]): VersionedPatchDocument {
+    if (!isObject(patch)) {
+        diagnostics.push({
+            severity: 'error',
+            code: 'invalid-document',
+            message: 'Patch document must be an object.',
+            suggestion: 'Pass the parsed patch JSON object.',
+        });
+        return { version: PATCH_DOCUMENT_VERSION };
+    }
+
+    try {
+        getPatchDocumentVersion(patch);
+        return runPatchMigrations(patch as VersionedPatchDocument, PATCH_DOCUMENT_VERSION).patch;
+    } catch (error) {
+        diagnostics.push({
+            severity: 'error',
+            code: 'unsupported-version',
+            message: error instanceof Error ? error.message : String(error),
+            suggestion: `Save the patch as version ${PATCH_DOCUMENT_VERSION} or load it with a newer release.`,
+        });
+        return { version: PATCH_DOCUMENT_VERSION };
+    }
+}
+
+/**
+ * Collect every problem of a patch and the part of it that is valid.
+ *
+ * Invalid nodes, invalid connections and connections closing a cycle are
+ * left out of the returned patch; warnings do not remove anything.
+ * @internal
+ */
+export function inspectPatchDocument(
+    patch: PatchDocument | VersionedPatchDocument
+): { patch: PatchDocument; diagnostics: PatchDiagnostic[] } {
+    const diagnostics: PatchDiagnostic[] = [];
+    const upgraded = upgradePatchDocument(patch, diagnostics);
+
+    const nodes = collectNodes(upgraded.nodes, diagnostics);
+    const nodeById = new Map(nodes.map((node) => [node.id, node] as const));
+    const connections = removeCycles(nodes, collectConnections(upgraded.connections, nodeById, diagnostics), nodeById, diagnostics);
+
+    reportUnreachableNodes(nodes, connections, diagnostics);
+    reportDanglingInterfaceEntries(upgraded.interface, nodes, diagnostics);
+
+    return {
+        patch: {
+            version: PATCH_DOCUMENT_VERSION,
+            name: typeof upgraded.name === 'string' && upgraded.name.trim() ? upgraded.name.trim() : 'Untitled Graph',
+            nodes,
+            connections,
+            interface: buildPatchInterface(nodes),
+        },
+        diagnostics,
+    };
+}
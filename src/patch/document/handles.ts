@@ -1,20 +1,15 @@
-import type { PatchConnection, PatchNode } from '../types';
-import { PATCH_INPUT_HANDLE_PREFIX, asNumber, asString, normalizeSlotType } from './shared';
-
-const AUDIO_NODE_TYPES = new Set([
-    'osc', 'gain', 'filter', 'delay', 'reverb', 'compressor', 'phaser', 'flanger', 'tremolo', 'eq3',
-    'distortion', 'chorus', 'noiseBurst', 'waveShaper', 'convolver', 'analyzer', 'panner3d', 'panner',
-    'mixer', 'auxSend', 'auxReturn', 'matrixMixer', 'noise', 'constantSource', 'mediaStream', 'sampler', 'output',
-]);
-
-const DATA_NODE_TYPES = new Set(['math', 'compare', 'mix', 'clamp', 'switch']);
-
-const PATCH_NODE_TYPES = new Set([
-    ...AUDIO_NODE_TYPES,
-    ...DATA_NODE_TYPES,
-    'input', 'uiTokens', 'note', 'transport', 'stepSequencer', 'pianoRoll', 'eventTrigger', 'lfo', 'voice',
-    'adsr', 'midiNote', 'midiCC', 'midiNoteOutput', 'midiCCOutput', 'midiSync', 'midiPlayer', 'patch',
-]);
+import type { PatchConnection, PatchDiagnostic, PatchNode } from '../types';
+import { getPatchNodeTypeDefinition, getPatchNodeTypeDefinitions } from './registry';
+import {
+    AUDIO_NODE_TYPES,
+    DATA_NODE_TYPES,
+    PATCH_INPUT_HANDLE_PREFIX,
+    PATCH_NODE_TYPES,
+    asNumber,
+    asString,
+    normalizeSlotType,
+    type GraphNodeLike,
+} from './shared';
 
 export function getInputParamHandleId(paramId: string): string {
     return `${PATCH_INPUT_HANDLE_PREFIX}${paramId}`;
@@ -42,7 +37,11 @@ function isInputLikeNodeType(type: string): boolean {
 }
 
 function isAudioNodeType(type: string): boolean {
-    return AUDIO_NODE_TYPES.has(type);
+    return AUDIO_NODE_TYPES.has(type) || Boolean(getPatchNodeTypeDefinition(type)?.isAudio);
+}
+
+function isPatchNodeType(type: string): boolean {
+    return PATCH_NODE_TYPES.has(type) || Boolean(getPatchNodeTypeDefinition(type));
 }
 
 function isDataNodeType(type: string): boolean {
@@ -85,6 +84,7 @@ function getSourceHandleIds(node: PatchNode): Set<string> {
         });
     }
     if (isDataNodeType(type)) handleIds.add('out');
+    getPatchNodeTypeDefinition(type)?.sourceHandles?.forEach((id) => handleIds.add(id));
 
     return handleIds;
 }
@@ -103,6 +103,7 @@ function getTargetHandleIds(node: PatchNode): Set<string> {
         }
     }
 
+    if (type === 'osc') handleIds.add('position');
     if (type === 'compressor') handleIds.add('sidechainIn');
     if (type === 'eventTrigger') handleIds.add('token');
     if (type === 'stepSequencer' || type === 'pianoRoll' || type === 'midiPlayer') handleIds.add('transport');
@@ -112,9 +113,11 @@ function getTargetHandleIds(node: PatchNode): Set<string> {
     if (type === 'noiseBurst') ['trigger', 'duration', 'gain', 'attack', 'release'].forEach((id) => handleIds.add(id));
     if (type === 'constantSource') handleIds.add('offset');
     if (type === 'sampler') ['trigger', 'playbackRate', 'detune'].forEach((id) => handleIds.add(id));
+    if (type === 'granularSampler') ['position', 'density', 'grainSize', 'pitch'].forEach((id) => handleIds.add(id));
     if (type === 'midiNoteOutput') ['trigger', 'gate', 'note', 'frequency', 'velocity'].forEach((id) => handleIds.add(id));
     if (type === 'midiCCOutput') handleIds.add('value');
     if (type === 'patch') getPatchSlotHandleIds(node, 'input').forEach((id) => handleIds.add(id));
+    getPatchNodeTypeDefinition(type)?.targetHandles?.forEach((id) => handleIds.add(id));
 
     [
         'frequency', 'detune', 'gain', 'q', 'delayTime', 'feedback', 'mix', 'pan', 'masterGain', 'rate', 'depth',
@@ -133,40 +136,155 @@ function getTargetHandleIds(node: PatchNode): Set<string> {
     return handleIds;
 }
 
-export function validateNode(node: PatchNode): void {
+function findClosestMatch(value: string, candidates: Iterable<string>): string | null {
+    if (!value) return null;
+    let best: string | null = null;
+    let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+
+    for (const candidate of candidates) {
+        const previous = Array.from({ length: candidate.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= value.length; i += 1) {
+            let diagonal = previous[0];
+            previous[0] = i;
+            for (let j = 1; j <= candidate.length; j += 1) {
+                const above = previous[j];
+                const cost = value[i - 1].toLowerCase() === candidate[j - 1].toLowerCase() ? 0 : 1;
+                previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + cost);
+                diagonal = above;
+            }
+        }
+        // "output" for "out" is a likely slip even though many letters differ
+        const isPrefix = value.toLowerCase().startsWith(candidate.toLowerCase())
+            || candidate.toLowerCase().startsWith(value.toLowerCase());
+        const distance = isPrefix ? Math.min(previous[candidate.length], 1) : previous[candidate.length];
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+function suggestHandle(handle: string, handleIds: Set<string>, fallback: string): string {
+    const match = findClosestMatch(handle, handleIds);
+    return match ? `Use handle "${match}".` : fallback;
+}
+
+/**
+ * Describe the first problem of a node before it is normalized, or `null`
+ * when it is valid. Its `type` is rewritten from `data.type` on
+ * normalization, so only `data.type` is checked.
+ * @internal
+ */
+export function diagnosePatchNode(node: GraphNodeLike): PatchDiagnostic | null {
     if (!node.id) {
-        throw new Error('Patch nodes must include an id.');
+        return {
+            severity: 'error',
+            code: 'invalid-node',
+            message: 'Patch nodes must include an id.',
+            suggestion: 'Give the node a unique id.',
+        };
     }
     if (!node.data || typeof node.data !== 'object' || typeof node.data.type !== 'string') {
-        throw new Error(`Patch node "${node.id}" is missing a valid data.type.`);
-    }
-    if (!PATCH_NODE_TYPES.has(node.data.type)) {
-        throw new Error(`Patch node "${node.id}" uses unsupported node type "${node.data.type}".`);
+        return {
+            severity: 'error',
+            code: 'invalid-node',
+            nodeId: node.id,
+            message: `Patch node "${node.id}" is missing a valid data.type.`,
+            suggestion: 'Set data.type to a supported node type.',
+        };
     }
-    if (node.type !== node.data.type) {
-        throw new Error(`Patch node "${node.id}" has mismatched type metadata.`);
+    if (!isPatchNodeType(node.data.type)) {
+        const registered = getPatchNodeTypeDefinitions().map((definition) => definition.type);
+        const match = findClosestMatch(node.data.type, [...PATCH_NODE_TYPES, ...registered]);
+        return {
+            severity: 'error',
+            code: 'unknown-node-type',
+            nodeId: node.id,
+            message: `Patch node "${node.id}" uses unsupported node type "${node.data.type}".`,
+            suggestion: match ? `Use node type "${match}".` : 'Remove the node or change it to a supported node type.',
+        };
     }
+    return null;
 }
 
-export function validateConnection(connection: PatchConnection, nodeById: Map<string, PatchNode>): void {
+/**
+ * Describe the first problem of a normalized connection, or `null` when it is valid.
+ * @internal
+ */
+export function diagnosePatchConnection(
+    connection: PatchConnection,
+    nodeById: Map<string, PatchNode>
+): PatchDiagnostic | null {
     const sourceNode = nodeById.get(connection.source);
     const targetNode = nodeById.get(connection.target);
+    const base = { severity: 'error', connectionId: connection.id } as const;
 
     if (!sourceNode) {
-        throw new Error(`Patch connection "${connection.id}" references missing source node "${connection.source}".`);
+        return {
+            ...base,
+            code: 'missing-connection-node',
+            nodeId: connection.source,
+            message: `Patch connection "${connection.id}" references missing source node "${connection.source}".`,
+            suggestion: 'Remove the connection or restore the source node.',
+        };
     }
     if (!targetNode) {
-        throw new Error(`Patch connection "${connection.id}" references missing target node "${connection.target}".`);
+        return {
+            ...base,
+            code: 'missing-connection-node',
+            nodeId: connection.target,
+            message: `Patch connection "${connection.id}" references missing target node "${connection.target}".`,
+            suggestion: 'Remove the connection or restore the target node.',
+        };
     }
     if (connection.source === connection.target) {
-        throw new Error(`Patch connection "${connection.id}" cannot connect a node to itself.`);
+        return {
+            ...base,
+            code: 'self-connection',
+            nodeId: connection.source,
+            message: `Patch connection "${connection.id}" cannot connect a node to itself.`,
+            suggestion: 'Remove the connection.',
+        };
+    }
+
+    const sourceHandleIds = getSourceHandleIds(sourceNode);
+    if (connection.sourceHandle && !sourceHandleIds.has(connection.sourceHandle)) {
+        return {
+            ...base,
+            code: 'unknown-source-handle',
+            nodeId: sourceNode.id,
+            handle: connection.sourceHandle,
+            message: `Patch connection "${connection.id}" uses unsupported source handle "${connection.sourceHandle}".`,
+            suggestion: suggestHandle(connection.sourceHandle, sourceHandleIds, `Node type "${sourceNode.type}" has no such output.`),
+        };
+    }
+    const targetHandleIds = getTargetHandleIds(targetNode);
+    if (connection.targetHandle && !targetHandleIds.has(connection.targetHandle)) {
+        return {
+            ...base,
+            code: 'unknown-target-handle',
+            nodeId: targetNode.id,
+            handle: connection.targetHandle,
+            message: `Patch connection "${connection.id}" uses unsupported target handle "${connection.targetHandle}".`,
+            suggestion: suggestHandle(connection.targetHandle, targetHandleIds, `Node type "${targetNode.type}" has no such input.`),
+        };
     }
+    return null;
+}
 
-    if (connection.sourceHandle && !getSourceHandleIds(sourceNode).has(connection.sourceHandle)) {
-        throw new Error(`Patch connection "${connection.id}" uses unsupported source handle "${connection.sourceHandle}".`);
+export function validateNode(node: GraphNodeLike): void {
+    const problem = diagnosePatchNode(node);
+    if (problem) {
+        throw new Error(problem.message);
     }
-    if (connection.targetHandle && !getTargetHandleIds(targetNode).has(connection.targetHandle)) {
-        throw new Error(`Patch connection "${connection.id}" uses unsupported target handle "${connection.targetHandle}".`);
+}
+
+export function validateConnection(connection: PatchConnection, nodeById: Map<string, PatchNode>): void {
+    const problem = diagnosePatchConnection(connection, nodeById);
+    if (problem) {
+        throw new Error(problem.message);
     }
 }
 
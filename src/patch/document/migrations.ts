@@ -0,0 +1,83 @@
+import type { PatchMigrationReport, PatchMigrationStepReport, VersionedPatchDocument } from '../types';
+import { PATCH_DOCUMENT_VERSION, deepClone } from './shared';
+
+/**
+ * One version step of the patch document format.
+ *
+ * `up` converts a document from version `from` to `from + 1`; `down`
+ * converts it back and throws when the newer document uses something the
+ * older version cannot express. Omit `down` when no downgrade is lossless.
+ * Both receive a copy of the document and push a note per change.
+ * @internal
+ */
+export interface PatchMigration {
+    from: number;
+    description: string;
+    up: (patch: VersionedPatchDocument, changes: string[]) => VersionedPatchDocument;
+    down?: (patch: VersionedPatchDocument, changes: string[]) => VersionedPatchDocument;
+}
+
+/**
+ * Registered migrations, one per version step (1 → 2, 2 → 3, …).
+ *
+ * To change the document format: add the step here, bump
+ * `PATCH_DOCUMENT_VERSION`, and freeze the previous schema as
+ * `schemas/versions/patch.v<from>.schema.json`.
+ * @internal
+ */
+export const PATCH_MIGRATIONS: readonly PatchMigration[] = [];
+
+/**
+ * Read and check the `version` of a patch document of any version.
+ * @internal
+ */
+export function getPatchDocumentVersion(patch: unknown): number {
+    if (!patch || typeof patch !== 'object') {
+        throw new Error('Patch document must be an object.');
+    }
+    const version = (patch as { version?: unknown }).version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Unsupported patch version "${String(version)}".`);
+    }
+    if (version > PATCH_DOCUMENT_VERSION) {
+        throw new Error(
+            `Unsupported patch version "${version}": this release reads patch versions up to ${PATCH_DOCUMENT_VERSION}.`
+        );
+    }
+    return version;
+}
+
+/**
+ * Walk the migration chain from the document version to `targetVersion`,
+ * up or down one step at a time.
+ * @internal
+ */
+export function runPatchMigrations(
+    patch: VersionedPatchDocument,
+    targetVersion: number,
+    migrations: readonly PatchMigration[] = PATCH_MIGRATIONS
+): { patch: VersionedPatchDocument; report: PatchMigrationReport } {
+    const fromVersion = patch.version;
+    const steps: PatchMigrationStepReport[] = [];
+    let current = patch;
+
+    while (current.version !== targetVersion) {
+        const from = current.version;
+        const upward = from < targetVersion;
+        const to = upward ? from + 1 : from - 1;
+        const migration = migrations.find((step) => step.from === Math.min(from, to));
+        if (!migration) {
+            throw new Error(`No patch migration is registered between versions ${from} and ${to}.`);
+        }
+        const transform = upward ? migration.up : migration.down;
+        if (!transform) {
+            throw new Error(`Patch version ${from} cannot be downgraded to ${to} without losing data.`);
+        }
+
+        const changes: string[] = [];
+        current = { ...transform(deepClone(current), changes), version: to };
+        steps.push({ from, to, description: migration.description, changes });
+    }
+
+    return { patch: current, report: { fromVersion, toVersion: targetVersion, steps } };
+}
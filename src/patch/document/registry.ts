@@ -0,0 +1,75 @@
+import type { PatchNodeTypeDefinition } from '../types';
+import { PATCH_NODE_TYPES } from './shared';
+
+const customNodeTypes = new Map<string, PatchNodeTypeDefinition>();
+
+function assertHandleIds(type: string, handles: readonly string[] | undefined, direction: string): void {
+    (handles ?? []).forEach((handle) => {
+        if (typeof handle !== 'string' || !handle) {
+            throw new Error(`Patch node type "${type}" has an empty ${direction} handle id.`);
+        }
+    });
+}
+
+/**
+ * Add a custom node type to patch documents.
+ *
+ * Registered types pass node and handle validation, render through their
+ * `component` in `PatchRenderer`, and appear in `createPatchSchema()`.
+ * Register them before loading patches that use them.
+ *
+ * @param definition - Node type id, component, handles and prop mapping.
+ * @returns A function that removes the type again.
+ * @throws When the type is empty, built in, or already registered.
+ *
+ * @example
+ * ```ts
+ * registerPatchNodeType({
+ *     type: 'bitCrusher',
+ *     component: BitCrusher,
+ *     isAudio: true,
+ *     targetHandles: ['bits'],
+ * });
+ * ```
+ */
+export function registerPatchNodeType<TProps extends object>(definition: PatchNodeTypeDefinition<TProps>): () => void {
+    const { type } = definition;
+    if (typeof type !== 'string' || !type.trim()) {
+        throw new Error('Patch node types must have a non-empty type.');
+    }
+    if (PATCH_NODE_TYPES.has(type)) {
+        throw new Error(`Patch node type "${type}" is built in and cannot be registered.`);
+    }
+    if (customNodeTypes.has(type)) {
+        throw new Error(`Patch node type "${type}" is already registered.`);
+    }
+    if (!definition.component) {
+        throw new Error(`Patch node type "${type}" must have a component.`);
+    }
+    assertHandleIds(type, definition.sourceHandles, 'source');
+    assertHandleIds(type, definition.targetHandles, 'target');
+
+    const stored = { ...definition } as unknown as PatchNodeTypeDefinition;
+    customNodeTypes.set(type, stored);
+    return () => {
+        if (customNodeTypes.get(type) === stored) {
+            customNodeTypes.delete(type);
+        }
+    };
+}
+
+/**
+ * Definition of a registered custom node type.
+ * @internal
+ */
+export function getPatchNodeTypeDefinition(type: string): PatchNodeTypeDefinition | undefined {
+    return customNodeTypes.get(type);
+}
+
+/**
+ * Registered custom node types, in registration order.
+ * @internal
+ */
+export function getPatchNodeTypeDefinitions(): PatchNodeTypeDefinition[] {
+    return Array.from(customNodeTypes.values());
+}
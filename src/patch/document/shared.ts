@@ -3,6 +3,23 @@ import type { PatchAudioMetadata, PatchPosition, PatchSlot, SlotType } from '../
 export const PATCH_DOCUMENT_VERSION = 1 as const;
 export const PATCH_INPUT_HANDLE_PREFIX = 'param:';
 
+export const AUDIO_NODE_TYPES: ReadonlySet<string> = new Set([
+    'osc', 'gain', 'filter', 'delay', 'reverb', 'compressor', 'phaser', 'flanger', 'tremolo', 'eq3',
+    'distortion', 'chorus', 'noiseBurst', 'waveShaper', 'convolver', 'analyzer', 'panner3d', 'panner',
+    'mixer', 'auxSend', 'auxReturn', 'matrixMixer', 'noise', 'constantSource', 'mediaStream', 'sampler',
+    'granularSampler', 'output',
+]);
+
+export const DATA_NODE_TYPES: ReadonlySet<string> = new Set(['math', 'compare', 'mix', 'clamp', 'switch']);
+
+/** Built-in node types; custom types are added with `registerPatchNodeType`. */
+export const PATCH_NODE_TYPES: ReadonlySet<string> = new Set([
+    ...AUDIO_NODE_TYPES,
+    ...DATA_NODE_TYPES,
+    'input', 'uiTokens', 'note', 'transport', 'stepSequencer', 'pianoRoll', 'eventTrigger', 'lfo', 'voice',
+    'adsr', 'midiNote', 'midiCC', 'midiNoteOutput', 'midiCCOutput', 'midiSync', 'midiPlayer', 'patch',
+]);
+
 export interface GraphNodeLike {
     id: string;
     position?: PatchPosition;
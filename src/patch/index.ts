@@ -4,19 +4,34 @@ export {
     graphDocumentToPatch,
     patchToGraphDocument,
     migratePatchDocument,
+    migratePatchDocumentWithReport,
+    downgradePatchDocument,
+    validatePatchDocument,
+    registerPatchNodeType,
 } from './document';
 
 export { Patch } from './Patch';
 export { PatchOutput } from './PatchOutput';
 export { importPatch, PatchRenderer } from './PatchRenderer';
+export { patchToMidiFile, setPatchNodeNotes } from './notes';
+export { preloadPatchAssets, type PreloadPatchAssetsOptions } from './preload';
+export { createPatchSchema } from './schema';
+export { generatePatchModule, type GeneratePatchModuleOptions } from './codegen';
 
 export type {
     ImportPatchOptions,
     PatchAudioMetadata,
     PatchConnection,
+    PatchDiagnostic,
+    PatchDiagnosticCode,
+    PatchDiagnosticSeverity,
     PatchDocument,
     PatchEvent,
+    PatchEventKey,
+    PatchHandle,
     PatchInput,
+    PatchInputKey,
+    PatchInputListener,
     PatchInterface,
     PatchMidiBindings,
     PatchMidiCCInput,
@@ -28,13 +43,21 @@ export type {
     PatchMidiOutput,
     PatchMidiOutputBindings,
     PatchMidiSyncOutput,
+    PatchMigrationReport,
+    PatchMigrationStepReport,
     PatchNode,
+    PatchNodeBuildContext,
+    PatchNodeControlValue,
     PatchNodeData,
+    PatchNodeTypeDefinition,
     PatchPosition,
     PatchOutputProps,
     PatchProps,
     PatchRuntimeProps,
+    PatchSetInputOptions,
     PatchSlot,
     SlotType,
     PatchRendererProps,
+    PatchValidationReport,
+    VersionedPatchDocument,
 } from './types';
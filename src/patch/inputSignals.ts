@@ -0,0 +1,136 @@
+import type { ModulationSignal } from '../core/ModulatableValue';
+import { getPatchNodeTypeDefinition } from './document/registry';
+import type { PatchDocument } from './types';
+
+/**
+ * Handles whose props take a `ModulatableValue`, so an input signal can
+ * drive their `AudioParam` directly.
+ */
+const SIGNAL_HANDLES: Record<string, readonly string[]> = {
+    osc: ['frequency', 'detune', 'position'],
+    gain: ['gain'],
+    filter: ['frequency', 'q', 'detune', 'gain'],
+    granularSampler: ['position', 'density'],
+};
+
+function isSignalHandle(type: string, handle: string): boolean {
+    if (SIGNAL_HANDLES[type]) return SIGNAL_HANDLES[type].includes(handle);
+    // Registered types without `buildProps` resolve every target handle as modulatable
+    const definition = getPatchNodeTypeDefinition(type);
+    return Boolean(definition && !definition.buildProps && definition.targetHandles?.includes(handle));
+}
+
+/**
+ * Audio-rate source holding the value of one patch input.
+ * @internal
+ */
+export interface PatchInputSignal {
+    /** Passed to modulatable props, which connect its node to their param */
+    output: ModulationSignal;
+    setValue: (value: number, rampTime?: number) => void;
+    dispose: () => void;
+}
+
+/**
+ * Input values and signals shared between `PatchRenderer` and its handle.
+ * @internal
+ */
+export interface PatchInputController {
+    values: Map<string, number>;
+    signals: Map<string, PatchInputSignal>;
+    listeners: Set<(key: string, value: number) => void>;
+}
+
+/**
+ * Empty input controller.
+ * @internal
+ */
+export function createPatchInputController(): PatchInputController {
+    return { values: new Map(), signals: new Map(), listeners: new Set() };
+}
+
+/**
+ * Store an input value, move its signal, and notify listeners on change.
+ * @internal
+ */
+export function applyPatchInputValue(
+    controller: PatchInputController,
+    key: string,
+    value: number,
+    rampTime = 0
+): void {
+    const previous = controller.values.get(key);
+    controller.values.set(key, value);
+    controller.signals.get(key)?.setValue(value, rampTime);
+    if (previous !== value) {
+        Array.from(controller.listeners).forEach((listener) => listener(key, value));
+    }
+}
+
+/**
+ * Inputs whose every connection ends on a modulatable param without an
+ * LFO, keyed by input key, with their `<nodeId>:<handle>` source key.
+ * Other inputs re-render the patch when they change.
+ * @internal
+ */
+export function getSignalInputHandles(patch: PatchDocument): Map<string, string> {
+    const nodeById = new Map(patch.nodes.map((node) => [node.id, node] as const));
+    const handles = new Map<string, string>();
+
+    patch.interface.inputs.forEach((input) => {
+        const consumers = patch.connections.filter(
+            (connection) => connection.source === input.nodeId && connection.sourceHandle === input.handle
+        );
+        const drivesParamsOnly = consumers.length > 0 && consumers.every((connection) => {
+            const target = nodeById.get(connection.target);
+            if (!target || !connection.targetHandle) return false;
+            if (!isSignalHandle(target.data.type, connection.targetHandle)) return false;
+            // Under an LFO the input is the base value, which is a plain prop
+            return !patch.connections.some((other) => (
+                other.target === connection.target
+                && other.targetHandle === connection.targetHandle
+                && nodeById.get(other.source)?.data.type === 'lfo'
+            ));
+        });
+        if (drivesParamsOnly) {
+            handles.set(input.key, `${input.nodeId}:${input.handle}`);
+        }
+    });
+
+    return handles;
+}
+
+/**
+ * Create a running constant source for an input.
+ * @internal
+ */
+export function createPatchInputSignal(context: BaseAudioContext, value: number): PatchInputSignal {
+    const source = context.createConstantSource();
+    const node = context.createGain();
+    source.offset.value = value;
+    source.connect(node);
+    source.start();
+
+    return {
+        output: { node, __modulationSignal: true },
+        setValue: (nextValue, rampTime = 0) => {
+            const now = context.currentTime;
+            source.offset.cancelScheduledValues(now);
+            if (rampTime > 0) {
+                source.offset.setValueAtTime(source.offset.value, now);
+                source.offset.linearRampToValueAtTime(nextValue, now + rampTime);
+            } else {
+                source.offset.setValueAtTime(nextValue, now);
+            }
+        },
+        dispose: () => {
+            try {
+                source.stop();
+            } catch {
+                // Already stopped
+            }
+            source.disconnect();
+            node.disconnect();
+        },
+    };
+}
@@ -0,0 +1,120 @@
+import { patternsToMidiFile } from '../midi/smf';
+import type { MidiFileWriteOptions, MidiPatternTrack, MidiRecordedNote } from '../midi/types';
+import type { TrackNote } from '../sequencer/types';
+import { asNumber } from './document/shared';
+import type { PatchDocument, PatchNode } from './types';
+
+/**
+ * Read `pianoRoll` node notes as track notes, dropping notes outside the pattern.
+ * @internal
+ */
+export function buildPianoRollNotes(data: PatchNode['data'], steps: number): TrackNote[] {
+    const notes = Array.isArray(data.notes) ? data.notes as Array<Record<string, unknown>> : [];
+    return notes
+        .map((note) => ({
+            step: Math.floor(asNumber(note.step, -1)),
+            note: asNumber(note.pitch, 60),
+            velocity: Math.max(0, Math.min(1, asNumber(note.velocity, 1))),
+            length: Math.max(0, asNumber(note.length, asNumber(note.duration, 1))),
+        }))
+        .filter((note) => note.step >= 0 && note.step < steps);
+}
+
+/**
+ * Read `stepSequencer` node steps as a velocity pattern (0 for inactive steps).
+ * @internal
+ */
+export function buildStepSequencerPattern(data: PatchNode['data'], steps: number): number[] {
+    const activeSteps = Array.isArray(data.activeSteps) ? data.activeSteps : Array(steps).fill(false);
+    const velocities = Array.isArray(data.pattern) ? data.pattern : Array(steps).fill(0.8);
+    return Array.from({ length: steps }, (_, index) => (
+        activeSteps[index] ? asNumber(velocities[index], 1) : 0
+    ));
+}
+
+function toStepSequencerData(data: PatchNode['data'], notes: readonly MidiRecordedNote[]): PatchNode['data'] {
+    const steps = typeof data.steps === 'number' && data.steps > 0 ? data.steps : 16;
+    const previousPattern = Array.isArray(data.pattern) ? data.pattern as unknown[] : [];
+    const activeSteps = Array.from({ length: steps }, () => false);
+    const pattern = Array.from({ length: steps }, (_, index) => (
+        typeof previousPattern[index] === 'number' ? previousPattern[index] as number : 0.8
+    ));
+
+    notes.forEach((note) => {
+        const step = Math.floor(note.step);
+        if (step < 0 || step >= steps) return;
+        activeSteps[step] = true;
+        pattern[step] = note.velocity;
+    });
+
+    return { ...data, activeSteps, pattern };
+}
+
+/**
+ * Write notes (e.g. from `useMidiRecorder`) into a `pianoRoll` or
+ * `stepSequencer` node and return the updated patch.
+ *
+ * `pianoRoll` nodes store the notes as-is. `stepSequencer` nodes have no
+ * pitch, so each note only activates its start step with its velocity.
+ *
+ * @throws When the node does not exist or cannot hold notes.
+ */
+export function setPatchNodeNotes<TPatch extends PatchDocument>(
+    patch: TPatch,
+    nodeId: string,
+    notes: readonly MidiRecordedNote[]
+): TPatch {
+    const node = patch.nodes.find((candidate) => candidate.id === nodeId);
+    if (!node) {
+        throw new Error(`Patch node "${nodeId}" does not exist.`);
+    }
+    if (node.data.type !== 'pianoRoll' && node.data.type !== 'stepSequencer') {
+        throw new Error(`Patch node "${nodeId}" is a "${node.data.type}" node; only pianoRoll and stepSequencer nodes hold notes.`);
+    }
+
+    const data = node.data.type === 'pianoRoll'
+        ? { ...node.data, notes: notes.map((note) => ({ ...note })) }
+        : toStepSequencerData(node.data, notes);
+
+    return {
+        ...patch,
+        nodes: patch.nodes.map((candidate) => (candidate === node ? { ...node, data } : candidate)),
+    };
+}
+
+/**
+ * Write the `stepSequencer` and `pianoRoll` nodes of a patch as a Standard
+ * MIDI File (format 1), one track per node in patch order.
+ *
+ * Tempo and time signature come from the `transport` node. Step sequencer
+ * triggers are written on middle C (note 60), as `PatchRenderer` plays them.
+ *
+ * @param patch - Patch document to export.
+ * @param options - Tick resolution, tempo track name, and pattern repeats.
+ * @returns SMF bytes, e.g. for a `.mid` download.
+ */
+export function patchToMidiFile(patch: PatchDocument, options: MidiFileWriteOptions = {}): Uint8Array {
+    const transport = patch.nodes.find((node) => node.data.type === 'transport')?.data;
+    const tracks = patch.nodes.flatMap((node): MidiPatternTrack[] => {
+        const { data } = node;
+        if (data.type !== 'stepSequencer' && data.type !== 'pianoRoll') return [];
+        const steps = asNumber(data.steps, 16);
+        const name = typeof data.label === 'string' && data.label ? data.label : node.id;
+        return data.type === 'pianoRoll'
+            ? [{ name, steps, notes: buildPianoRollNotes(data, steps) }]
+            : [{ name, steps, pattern: buildStepSequencerPattern(data, steps) }];
+    });
+
+    return patternsToMidiFile(
+        tracks,
+        transport
+            ? {
+                bpm: asNumber(transport.bpm, 120),
+                beatsPerBar: asNumber(transport.beatsPerBar, 4),
+                beatUnit: asNumber(transport.beatUnit, 4),
+                stepsPerBeat: asNumber(transport.stepsPerBeat, 4),
+            }
+            : {},
+        { name: patch.name, ...options }
+    );
+}
@@ -0,0 +1,85 @@
+import { getAudioAssetManager, loadAssetBatch } from '../core/assets';
+import type { PreloadAssetsOptions } from '../core/types';
+import { migratePatchDocument, resolvePatchAssetPath } from './document';
+import { asString } from './document/shared';
+import { resolvePatchSourceDescriptor } from './runtime';
+import type { PatchDocument } from './types';
+
+/**
+ * Options for `preloadPatchAssets`.
+ */
+export interface PreloadPatchAssetsOptions extends PreloadAssetsOptions {
+    /** Base path prepended to node `assetPath` values, as on `PatchRenderer` */
+    assetRoot?: string;
+}
+
+interface PatchAssetUrls {
+    audio: Set<string>;
+    midi: Set<string>;
+}
+
+async function collectPatchAssets(
+    patch: PatchDocument,
+    assetRoot: string | undefined,
+    urls: PatchAssetUrls,
+    visited: Set<string>
+): Promise<void> {
+    for (const node of patch.nodes) {
+        const data = node.data as Record<string, unknown>;
+        const assetPath = resolvePatchAssetPath(asString(data.assetPath, ''), assetRoot);
+
+        switch (data.type) {
+            case 'sampler':
+            case 'granularSampler':
+            case 'convolver':
+                if (assetPath) urls.audio.add(assetPath);
+                break;
+            case 'midiPlayer':
+                if (assetPath) urls.midi.add(assetPath);
+                break;
+            case 'patch': {
+                const descriptor = resolvePatchSourceDescriptor({
+                    patchInline: data.patchInline as PatchDocument | null | undefined,
+                    patchAsset: data.patchAsset as string | null | undefined,
+                    patchName: data.patchName as string | undefined,
+                    assetRoot,
+                });
+                if (!descriptor || visited.has(descriptor.key)) break;
+                visited.add(descriptor.key);
+                await collectPatchAssets(await descriptor.load(), assetRoot, urls, visited);
+                break;
+            }
+            default:
+                break;
+        }
+    }
+}
+
+/**
+ * Load every asset a patch plays into the context's asset cache, so a
+ * `PatchRenderer` on the same context starts without fetching.
+ *
+ * Walks `sampler`, `granularSampler` and `convolver` audio files,
+ * `midiPlayer` MIDI files, and nested `patch` nodes (inline or asset).
+ *
+ * @param context - Audio context that will render the patch.
+ * @param patch - Patch document.
+ * @param options - Asset root and batch progress callback.
+ * @returns Resolved URLs of the loaded assets; rejects with the first failure.
+ */
+export async function preloadPatchAssets(
+    context: BaseAudioContext,
+    patch: PatchDocument,
+    options: PreloadPatchAssetsOptions = {}
+): Promise<string[]> {
+    const urls: PatchAssetUrls = { audio: new Set(), midi: new Set() };
+    await collectPatchAssets(migratePatchDocument(patch), options.assetRoot, urls, new Set());
+
+    const manager = getAudioAssetManager(context);
+    await loadAssetBatch<unknown>([
+        ...Array.from(urls.audio, (url) => ({ url, load: () => manager.load(url) })),
+        ...Array.from(urls.midi, (url) => ({ url, load: () => manager.loadData(url) })),
+    ], options.onProgress);
+
+    return [...urls.audio, ...urls.midi];
+}
@@ -0,0 +1,38 @@
+import patchSchema from '../../schemas/patch.schema.json';
+import { getPatchNodeTypeDefinitions } from './document';
+import { deepClone } from './document/shared';
+
+interface PatchSchemaDefs {
+    nodeType: { enum: string[] };
+    patchNodeData: { allOf?: Array<Record<string, unknown>> };
+    [key: string]: unknown;
+}
+
+/**
+ * Build the patch document JSON schema, including registered node types.
+ *
+ * Returns the published `@open-din/react/patch/schema.json` with every
+ * `registerPatchNodeType` type added to the node type list, and each
+ * definition `schema` applied to the `data` of nodes of that type.
+ *
+ * @returns A fresh JSON schema object.
+ */
+export function createPatchSchema(): Record<string, unknown> {
+    const schema = deepClone(patchSchema) as unknown as { $defs: PatchSchemaDefs; [key: string]: unknown };
+    const definitions = getPatchNodeTypeDefinitions();
+    if (definitions.length === 0) return schema;
+
+    schema.$defs.nodeType.enum = [...schema.$defs.nodeType.enum, ...definitions.map((definition) => definition.type)];
+
+    const dataRules = definitions
+        .filter((definition) => definition.schema)
+        .map((definition) => ({
+            if: { properties: { type: { const: definition.type } }, required: ['type'] },
+            then: deepClone(definition.schema),
+        }));
+    if (dataRules.length > 0) {
+        schema.$defs.patchNodeData.allOf = [...(schema.$defs.patchNodeData.allOf ?? []), ...dataRules];
+    }
+
+    return schema;
+}
@@ -1,4 +1,4 @@
-import type { ReactNode } from 'react';
+import type { ComponentType, ReactNode } from 'react';
 import type {
     MidiCCOutputProps,
     MidiCCValue,
@@ -146,6 +146,132 @@ export interface PatchDocument {
     interface: PatchInterface;
 }
 
+/**
+ * A patch document of any version, e.g. a saved patch before migration.
+ */
+export interface VersionedPatchDocument {
+    version: number;
+    [key: string]: unknown;
+}
+
+/**
+ * One applied step of a patch migration.
+ */
+export interface PatchMigrationStepReport {
+    from: number;
+    to: number;
+    description: string;
+    /** Human-readable list of what the step changed */
+    changes: string[];
+}
+
+/**
+ * What a migration did to reach the target version.
+ */
+export interface PatchMigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    /** Applied steps in order; empty when the document was already at the target version */
+    steps: PatchMigrationStepReport[];
+}
+
+export type PatchDiagnosticSeverity = 'error' | 'warning';
+
+export type PatchDiagnosticCode =
+    | 'invalid-document'
+    | 'unsupported-version'
+    | 'invalid-node'
+    | 'duplicate-node-id'
+    | 'unknown-node-type'
+    | 'invalid-connection'
+    | 'missing-connection-node'
+    | 'self-connection'
+    | 'unknown-source-handle'
+    | 'unknown-target-handle'
+    | 'cycle'
+    | 'unreachable-node'
+    | 'dangling-interface-entry';
+
+/**
+ * One problem found in a patch document.
+ *
+ * Errors make strict loading throw; warnings describe parts that load but
+ * have no effect.
+ */
+export interface PatchDiagnostic {
+    severity: PatchDiagnosticSeverity;
+    code: PatchDiagnosticCode;
+    message: string;
+    nodeId?: string;
+    connectionId?: string;
+    handle?: string;
+    /** Suggested fix, when one is known */
+    suggestion?: string;
+}
+
+/**
+ * Every problem found in a patch document, in document order.
+ */
+export interface PatchValidationReport {
+    /** `true` when there are no `error` diagnostics */
+    valid: boolean;
+    diagnostics: PatchDiagnostic[];
+}
+
+/**
+ * Value driving a node input handle, as resolved for built-in nodes.
+ */
+export interface PatchNodeControlValue {
+    /** Connected value: a number, an LFO output, or a gate; unset when nothing drives the handle */
+    value?: unknown;
+    /** Base value under an LFO, for `<param>Base` props */
+    base?: number;
+}
+
+/**
+ * Helpers passed to `PatchNodeTypeDefinition.buildProps`.
+ */
+export interface PatchNodeBuildContext {
+    /**
+     * Resolve what drives a target handle: patch inputs, data nodes, MIDI
+     * inputs, voices and (when `modulatable`) LFOs, falling back to `baseValue`.
+     */
+    resolveControlValue: (
+        handle: string,
+        options?: { baseValue?: number; modulatable?: boolean }
+    ) => PatchNodeControlValue;
+    /** Prefix an `assetPath` with the renderer `assetRoot` */
+    resolveAssetPath: (assetPath: string | undefined) => string | undefined;
+}
+
+/**
+ * A custom patch node type added with `registerPatchNodeType`.
+ */
+export interface PatchNodeTypeDefinition<TProps extends object = Record<string, unknown>> {
+    /** Value of `type` and `data.type` in patch documents; cannot be a built-in type */
+    type: string;
+    /** Component rendered for each node of this type */
+    component: ComponentType<TProps>;
+    /** Output handle ids, besides `out` on audio nodes */
+    sourceHandles?: readonly string[];
+    /** Input handle ids, besides `in` on audio nodes */
+    targetHandles?: readonly string[];
+    /**
+     * Audio nodes render inside the audio chain with their upstream nodes as
+     * children, and their `out` handle carries audio. Other nodes render
+     * beside the graph.
+     */
+    isAudio?: boolean;
+    /**
+     * Map node data to component props. By default every `data` field but
+     * `type` and `label` is passed through, and each target handle is
+     * resolved as a modulatable `<handle>` / `<handle>Base` pair.
+     */
+    buildProps?: (data: PatchNodeData, context: PatchNodeBuildContext) => Partial<TProps>;
+    /** JSON schema for the node `data`, added to `createPatchSchema()` */
+    schema?: Record<string, unknown>;
+}
+
 export interface ImportPatchOptions {
     includeProvider?: boolean;
     assetRoot?: string;
@@ -161,6 +287,8 @@ type InterfaceItems<TPatch extends PatchDocument, TKey extends keyof PatchInterf
     TPatch['interface'][TKey] extends readonly (infer TItem)[] ? TItem : never;
 
 type KeysOf<TItems> = TItems extends { key: infer TKey extends string } ? TKey : never;
+// A document typed as plain `PatchDocument` has no known keys, so it gets no input or event props
+type PropKeysOf<TItems> = string extends KeysOf<TItems> ? never : KeysOf<TItems>;
 type ItemByKey<TItems, TKey extends string> = Extract<TItems, { key: TKey }>;
 
 type MidiInputValueFor<TItem> =
@@ -175,11 +303,11 @@ type MidiOutputBindingFor<TItem> =
                 : never;
 
 export type PatchInputProps<TPatch extends PatchDocument> = {
-    [TKey in KeysOf<InterfaceItems<TPatch, 'inputs'>>]?: number;
+    [TKey in PropKeysOf<InterfaceItems<TPatch, 'inputs'>>]?: number;
 };
 
 export type PatchEventProps<TPatch extends PatchDocument> = {
-    [TKey in KeysOf<InterfaceItems<TPatch, 'events'>>]?: unknown;
+    [TKey in PropKeysOf<InterfaceItems<TPatch, 'events'>>]?: unknown;
 };
 
 export type PatchMidiInputBindings<TPatch extends PatchDocument> = {
@@ -195,6 +323,39 @@ export interface PatchMidiBindings<TPatch extends PatchDocument> {
     outputs?: PatchMidiOutputBindings<TPatch>;
 }
 
+export type PatchInputKey<TPatch extends PatchDocument> = KeysOf<InterfaceItems<TPatch, 'inputs'>>;
+
+export type PatchEventKey<TPatch extends PatchDocument> = KeysOf<InterfaceItems<TPatch, 'events'>>;
+
+export interface PatchSetInputOptions {
+    /** Seconds to ramp linearly from the current value; `0` jumps */
+    rampTime?: number;
+}
+
+export type PatchInputListener<TPatch extends PatchDocument = PatchDocument> = (
+    key: PatchInputKey<TPatch>,
+    value: number
+) => void;
+
+/**
+ * Imperative control of a rendered patch, from the `PatchRenderer` ref.
+ *
+ * Inputs that only drive modulatable audio params (including target
+ * handles of registered node types without `buildProps`) are applied to the
+ * `AudioParam`s directly, without re-rendering. `setInput` on any other
+ * input re-renders the patch.
+ */
+export interface PatchHandle<TPatch extends PatchDocument = PatchDocument> {
+    /** Set a public input; overrides its prop until the prop changes */
+    setInput: (key: PatchInputKey<TPatch>, value: number, options?: PatchSetInputOptions) => void;
+    /** Current value of a public input */
+    getInput: (key: PatchInputKey<TPatch>) => number;
+    /** Fire a public event; without `token`, the current token is incremented */
+    fireEvent: (key: PatchEventKey<TPatch>, token?: unknown) => void;
+    /** Listen to input value changes from props, MIDI learn and `setInput` */
+    subscribe: (listener: PatchInputListener<TPatch>) => () => void;
+}
+
 export type PatchProps<TPatch extends PatchDocument> =
     PatchInputProps<TPatch>
     & PatchEventProps<TPatch>
@@ -206,4 +367,8 @@ export type PatchRendererProps<TPatch extends PatchDocument> = PatchProps<TPatch
     patch: TPatch;
     includeProvider?: boolean;
     assetRoot?: string;
+    /** Skip invalid nodes and connections instead of throwing */
+    lenient?: boolean;
+    /** Called with the diagnostics of each loaded patch in lenient mode */
+    onDiagnostics?: (diagnostics: PatchDiagnostic[]) => void;
 };
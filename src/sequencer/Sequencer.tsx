@@ -10,6 +10,8 @@ import {
 } from 'react';
 import type { SequencerProps, SequencerContextValue } from './types';
 import { useAudio } from '../core/AudioProvider';
+import { TransportContext } from '../transport/TransportContext';
+import { DEFAULT_SCHEDULE_INTERVAL, getSchedulerClock } from '../transport/clock';
 
 /**
  * Default sequencer context value.
@@ -19,7 +21,11 @@ const defaultValue: SequencerContextValue = {
     totalSteps: 16,
     isPlaying: false,
     bpm: 120,
+    stepDuration: 0.125,
     subscribe: () => () => { },
+    soloTrackIds: [],
+    setTrackSolo: () => { },
+    isTrackAudible: () => true,
 };
 
 /**
@@ -31,7 +37,9 @@ export const SequencerContext = createContext<SequencerContextValue>(defaultValu
  * Sequencer component that manages step timing and triggers.
  *
  * Provides a step-based sequencer that triggers its child Tracks
- * according to the tempo and step count.
+ * according to the tempo and step count. Inside a `TransportProvider` and
+ * without its own `bpm`, it follows the transport's tempo, swing, play state
+ * and position; otherwise it schedules on the shared scheduler clock.
  *
  * @example
  * ```tsx
@@ -47,28 +55,39 @@ export const SequencerContext = createContext<SequencerContextValue>(defaultValu
  */
 export const Sequencer: FC<SequencerProps> = ({
     children,
-    bpm = 120,
+    bpm,
     steps = 16,
     autoStart = false,
     loop = true,
     lookAhead = 0.1,
-    scheduleInterval = 25,
+    scheduleInterval = DEFAULT_SCHEDULE_INTERVAL,
     onStep,
     onComplete,
     onStart,
     onStop,
 }) => {
     const { context, isUnlocked } = useAudio();
-    const [isPlaying, setIsPlaying] = useState(autoStart);
+    const transport = useContext(TransportContext);
+    const [ownIsPlaying, setOwnIsPlaying] = useState(autoStart);
     const [currentStep, setCurrentStep] = useState(0);
+    const [soloTrackIds, setSoloTrackIds] = useState<string[]>([]);
 
     const subscribersRef = useRef<Set<(step: number, time: number) => void>>(new Set());
-    const schedulerIntervalRef = useRef<number | null>(null);
     const nextStepTimeRef = useRef<number>(0);
     const currentStepRef = useRef<number>(0);
+    const soloTrackIdsRef = useRef<Set<string>>(new Set());
+    const completedRef = useRef(false);
+    const autoStartedRef = useRef(false);
+    const wasPlayingRef = useRef(false);
+
+    // Without its own tempo, a sequencer inside a TransportProvider follows it
+    const followsTransport = Boolean(transport) && bpm === undefined;
+    const transportIsPlaying = Boolean(transport?.isPlaying);
+    const isPlaying = followsTransport ? transportIsPlaying : ownIsPlaying;
+    const tempo = bpm ?? transport?.bpm ?? 120;
 
     // Calculate step duration from BPM (assuming 16th notes, 4 steps per beat)
-    const stepDuration = 60 / bpm / 4;
+    const stepDuration = followsTransport && transport ? transport.stepDuration : 60 / tempo / 4;
 
     // Subscribe to step events
     const subscribe = useCallback((callback: (step: number, time: number) => void) => {
@@ -78,51 +97,97 @@ export const Sequencer: FC<SequencerProps> = ({
         };
     }, []);
 
+    // Track solo registry
+    const setTrackSolo = useCallback((trackId: string, solo: boolean) => {
+        const soloed = soloTrackIdsRef.current;
+        if (soloed.has(trackId) === solo) return;
+        if (solo) {
+            soloed.add(trackId);
+        } else {
+            soloed.delete(trackId);
+        }
+        setSoloTrackIds(Array.from(soloed));
+    }, []);
+
+    const isTrackAudible = useCallback((trackId: string) => {
+        const soloed = soloTrackIdsRef.current;
+        return soloed.size === 0 || soloed.has(trackId);
+    }, []);
+
+    const emitStep = useCallback((step: number, time: number) => {
+        // Notify subscribers
+        subscribersRef.current.forEach((callback) => {
+            callback(step, time);
+        });
+
+        // Fire onStep callback
+        onStep?.(step, time);
+
+        // Update current step for UI
+        setCurrentStep(step);
+    }, [onStep]);
+
     // Start playback
     const start = useCallback(() => {
         if (!context || !isUnlocked) return;
-        setIsPlaying(true);
+        setOwnIsPlaying(true);
         currentStepRef.current = 0;
         nextStepTimeRef.current = context.currentTime;
         onStart?.();
     }, [context, isUnlocked, onStart]);
 
-    // Stop playback
-    const stop = useCallback(() => {
-        setIsPlaying(false);
-        setCurrentStep(0);
-        currentStepRef.current = 0;
-        onStop?.();
-    }, [onStop]);
-
-    // Auto-start
+    // Auto-start: a following sequencer starts the transport once
     useEffect(() => {
-        if (autoStart && isUnlocked && !isPlaying) {
+        if (!autoStart || !isUnlocked) return;
+        if (followsTransport) {
+            if (!autoStartedRef.current && transport && !transport.isPlaying) {
+                autoStartedRef.current = true;
+                transport.play();
+            }
+            return;
+        }
+        if (!ownIsPlaying) {
             start();
         }
-    }, [autoStart, isUnlocked, isPlaying, start]);
+    }, [autoStart, isUnlocked, followsTransport, transport, ownIsPlaying, start]);
 
-    // Scheduler
+    // Mirror transport play state changes
     useEffect(() => {
-        if (!isPlaying || !context) return;
-
-        const scheduler = () => {
-            const currentTime = context.currentTime;
+        if (!followsTransport) return;
+        if (transportIsPlaying && !wasPlayingRef.current) {
+            completedRef.current = false;
+            onStart?.();
+        } else if (!transportIsPlaying && wasPlayingRef.current) {
+            setCurrentStep(0);
+            onStop?.();
+        }
+        wasPlayingRef.current = transportIsPlaying;
+    }, [followsTransport, transportIsPlaying, onStart, onStop]);
 
-            while (nextStepTimeRef.current < currentTime + lookAhead) {
-                const step = currentStepRef.current;
-                const stepTime = nextStepTimeRef.current;
+    // Follow transport steps and position
+    const transportSubscribe = transport?.subscribe;
+    useEffect(() => {
+        if (!followsTransport || !transportSubscribe) return;
 
-                // Notify subscribers
-                subscribersRef.current.forEach((callback) => {
-                    callback(step, stepTime);
-                });
+        return transportSubscribe((tick) => {
+            if (tick.totalSteps >= steps && !loop) {
+                if (!completedRef.current) {
+                    completedRef.current = true;
+                    onComplete?.();
+                }
+                return;
+            }
+            emitStep(tick.totalSteps % steps, tick.time);
+        });
+    }, [followsTransport, transportSubscribe, steps, loop, emitStep, onComplete]);
 
-                // Fire onStep callback
-                onStep?.(step, stepTime);
+    // Own scheduler on the shared clock
+    useEffect(() => {
+        if (followsTransport || !ownIsPlaying || !context) return;
 
-                // Update current step for UI
-                setCurrentStep(step);
+        const scheduler = (currentTime: number) => {
+            while (nextStepTimeRef.current < currentTime + lookAhead) {
+                emitStep(currentStepRef.current, nextStepTimeRef.current);
 
                 // Move to next step
                 currentStepRef.current++;
@@ -133,7 +198,7 @@ export const Sequencer: FC<SequencerProps> = ({
                     if (loop) {
                         currentStepRef.current = 0;
                     } else {
-                        setIsPlaying(false);
+                        setOwnIsPlaying(false);
                         onComplete?.();
                         return;
                     }
@@ -141,23 +206,20 @@ export const Sequencer: FC<SequencerProps> = ({
             }
         };
 
-        // Run scheduler on interval
-        schedulerIntervalRef.current = window.setInterval(scheduler, scheduleInterval);
-
-        return () => {
-            if (schedulerIntervalRef.current) {
-                clearInterval(schedulerIntervalRef.current);
-            }
-        };
-    }, [isPlaying, context, steps, loop, stepDuration, lookAhead, scheduleInterval, onStep, onComplete]);
+        return getSchedulerClock(context, scheduleInterval).subscribe(scheduler);
+    }, [followsTransport, ownIsPlaying, context, steps, loop, stepDuration, lookAhead, scheduleInterval, emitStep, onComplete]);
 
     // Context value
     const value: SequencerContextValue = {
         currentStep,
         totalSteps: steps,
         isPlaying,
-        bpm,
+        bpm: tempo,
+        stepDuration,
         subscribe,
+        soloTrackIds,
+        setTrackSolo,
+        isTrackAudible,
     };
 
     return (
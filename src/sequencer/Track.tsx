@@ -4,7 +4,7 @@ import {
     useMemo,
     type FC,
 } from 'react';
-import type { TrackProps, TriggerEvent, Pattern } from './types';
+import type { TrackProps, TriggerEvent, TrackNote } from './types';
 import { useSequencer } from './Sequencer';
 import { TriggerProvider } from './TriggerContext';
 import { useAudio } from '../core/AudioProvider';
@@ -22,6 +22,21 @@ function normalizeVelocity(value: boolean | number | null): number | null {
     return Math.max(0, Math.min(1, value));
 }
 
+/**
+ * Group notes by the track step they start on.
+ */
+function groupNotesByStep(notes: TrackNote[], steps: number, offset: number): Map<number, TrackNote[]> {
+    const result = new Map<number, TrackNote[]>();
+    notes.forEach((note) => {
+        if (!Number.isFinite(note.step) || note.step < 0 || note.step >= steps) return;
+        const step = (Math.floor(note.step) + offset + steps) % steps;
+        const stepNotes = result.get(step) ?? [];
+        stepNotes.push(note);
+        result.set(step, stepNotes);
+    });
+    return result;
+}
+
 /**
  * Track component that defines a pattern and triggers its children.
  *
@@ -38,12 +53,26 @@ function normalizeVelocity(value: boolean | number | null): number | null {
  *   <Synth />
  * </Track>
  * ```
+ *
+ * @example
+ * ```tsx
+ * <Track id="chords" notes={[
+ *   { step: 0, note: 60, length: 4 },
+ *   { step: 0, note: 64, length: 4 },
+ *   { step: 0, note: 67, length: 4 },
+ * ]}>
+ *   <PolyVoice voices={3}>
+ *     {({ frequency, gate }) => gate ? <Osc frequency={frequency} autoStart /> : null}
+ *   </PolyVoice>
+ * </Track>
+ * ```
  */
 export const Track: FC<TrackProps> = ({
     children,
     id,
     steps: trackSteps,
     pattern = [],
+    notes,
     offset = 0,
     mute = false,
     solo = false,
@@ -53,10 +82,15 @@ export const Track: FC<TrackProps> = ({
     onTrigger,
 }) => {
     const { context } = useAudio();
-    const { subscribe, totalSteps: sequencerSteps, bpm } = useSequencer();
+    const {
+        subscribe,
+        totalSteps: sequencerSteps,
+        stepDuration,
+        setTrackSolo,
+        isTrackAudible,
+    } = useSequencer();
 
     const steps = trackSteps ?? sequencerSteps;
-    const stepDuration = 60 / bpm / 4;
 
     const triggerEventRef = useRef<TriggerEvent | null>(null);
     const subscribersRef = useRef<Set<(event: TriggerEvent) => void>>(new Set());
@@ -73,6 +107,17 @@ export const Track: FC<TrackProps> = ({
         return result;
     }, [pattern, steps, offset]);
 
+    const notesByStep = useMemo(
+        () => (notes ? groupNotesByStep(notes, steps, offset) : null),
+        [notes, steps, offset]
+    );
+
+    // Register solo state with the sequencer
+    useEffect(() => {
+        setTrackSolo(id, solo);
+        return () => setTrackSolo(id, false);
+    }, [id, solo, setTrackSolo]);
+
     // Subscribe to sequencer steps
     useEffect(() => {
         if (!context) return;
@@ -80,10 +125,38 @@ export const Track: FC<TrackProps> = ({
         const unsubscribe = subscribe((sequencerStep, time) => {
             // Calculate which step this track is on
             const trackStep = sequencerStep % steps;
+            const muted = mute || !isTrackAudible(id);
+
+            if (notesByStep) {
+                triggerEventRef.current = null;
+                if (muted) return;
+
+                (notesByStep.get(trackStep) ?? []).forEach((stepNote) => {
+                    if (probability < 1 && Math.random() > probability) return;
+
+                    const event: TriggerEvent = {
+                        step: trackStep,
+                        velocity: Math.max(0, Math.min(1, stepNote.velocity ?? 1)),
+                        time,
+                        duration: stepDuration * Math.max(0, stepNote.length ?? 1),
+                        trackId: id,
+                        note: stepNote.note,
+                        data,
+                    };
+
+                    triggerEventRef.current = event;
+                    subscribersRef.current.forEach((callback) => {
+                        callback(event);
+                    });
+                    onTrigger?.(event);
+                });
+                return;
+            }
+
             const velocity = normalizedPattern[trackStep];
 
             // Check if we should trigger
-            if (velocity === null || mute) {
+            if (velocity === null || muted) {
                 triggerEventRef.current = null;
                 return;
             }
@@ -117,7 +190,7 @@ export const Track: FC<TrackProps> = ({
         });
 
         return unsubscribe;
-    }, [context, subscribe, steps, normalizedPattern, mute, probability, stepDuration, id, note, data, onTrigger]);
+    }, [context, subscribe, steps, normalizedPattern, notesByStep, mute, isTrackAudible, probability, stepDuration, id, note, data, onTrigger]);
 
     // Subscribe function for children
     const subscribeToTrigger = (callback: (event: TriggerEvent) => void) => {
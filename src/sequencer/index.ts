@@ -5,6 +5,7 @@
 // Types
 export type {
     Pattern,
+    TrackNote,
     TriggerEvent,
     EventTriggerMode,
     SequencerProps,
@@ -14,6 +14,35 @@ import type { ReactNode } from 'react';
  */
 export type Pattern = (boolean | number | null)[];
 
+/**
+ * A pitched note placed on a track step.
+ *
+ * Used by tracks that carry melodies or chords instead of a velocity pattern.
+ */
+export interface TrackNote {
+    /**
+     * Step index where the note starts (0-indexed).
+     */
+    step: number;
+
+    /**
+     * MIDI note number (0-127).
+     */
+    note: number;
+
+    /**
+     * Velocity/intensity of the note (0-1).
+     * @default 1
+     */
+    velocity?: number;
+
+    /**
+     * Note length in steps.
+     * @default 1
+     */
+    length?: number;
+}
+
 // =============================================================================
 // Trigger Event
 // =============================================================================
@@ -77,7 +106,10 @@ export interface SequencerProps {
 
     /**
      * Tempo in BPM.
-     * Overrides the global transport tempo if set.
+     * Overrides the global transport tempo if set. Without it, a sequencer
+     * inside a `TransportProvider` follows the transport's tempo, swing,
+     * play state and position.
+     * @default 120 (outside a transport)
      */
     bpm?: number;
 
@@ -89,6 +121,7 @@ export interface SequencerProps {
 
     /**
      * Auto-start playback on mount.
+     * A sequencer following a transport starts the transport instead.
      * @default false
      */
     autoStart?: boolean;
@@ -102,6 +135,7 @@ export interface SequencerProps {
     /**
      * Look-ahead time in seconds for scheduling.
      * Higher values improve timing accuracy but increase latency.
+     * Ignored while following a transport, which uses its own.
      * @default 0.1
      */
     lookAhead?: number;
@@ -109,6 +143,7 @@ export interface SequencerProps {
     /**
      * Schedule interval in milliseconds.
      * How often to check and schedule upcoming events.
+     * Ignored while following a transport, which uses its own.
      * @default 25
      */
     scheduleInterval?: number;
@@ -162,6 +197,14 @@ export interface TrackProps {
      */
     pattern?: Pattern;
 
+    /**
+     * Pitched notes to trigger instead of `pattern`.
+     * Notes sharing a step fire as separate triggers, each with its own
+     * pitch, velocity and duration.
+     * @see TrackNote
+     */
+    notes?: TrackNote[];
+
     /**
      * Offset in steps from the sequence start.
      * Use for creating grooves and polyrhythms.
@@ -176,7 +219,8 @@ export interface TrackProps {
     mute?: boolean;
 
     /**
-     * Solo this track (only this track plays).
+     * Solo this track. While any track in the same Sequencer is soloed,
+     * only soloed tracks fire.
      * @default false
      */
     solo?: boolean;
@@ -324,10 +368,31 @@ export interface SequencerContextValue {
      */
     bpm: number;
 
+    /**
+     * Duration of one step in seconds.
+     */
+    stepDuration: number;
+
     /**
      * Subscribe to step events.
      */
     subscribe: (callback: (step: number, time: number) => void) => () => void;
+
+    /**
+     * IDs of the tracks currently soloed.
+     */
+    soloTrackIds: string[];
+
+    /**
+     * Register or clear the solo state of a track.
+     */
+    setTrackSolo: (trackId: string, solo: boolean) => void;
+
+    /**
+     * Whether a track may fire under the current solo state.
+     * Every track is audible while no track is soloed.
+     */
+    isTrackAudible: (trackId: string) => boolean;
 }
 
 // =============================================================================
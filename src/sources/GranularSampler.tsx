@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState, type FC } from 'react';
+import type { GrainWindow, GranularSamplerProps } from './types';
+import { isModulationSource, type ModulatableValue } from '../core/ModulatableValue';
+import { AudioOutProvider } from '../core/AudioOutContext';
+import { getAudioAssetManager } from '../core/assets';
+import { useAudioNode } from '../nodes/useAudioNode';
+import { getSchedulerClock } from '../transport/clock';
+
+const WINDOW_SAMPLES = 128;
+
+function createGrainWindow(shape: GrainWindow): Float32Array<ArrayBuffer> {
+    const curve = new Float32Array(WINDOW_SAMPLES);
+    for (let i = 0; i < WINDOW_SAMPLES; i++) {
+        const x = i / (WINDOW_SAMPLES - 1);
+        switch (shape) {
+            case 'triangle':
+                curve[i] = 1 - Math.abs(2 * x - 1);
+                break;
+            case 'trapezoid':
+                curve[i] = Math.min(1, 4 * x, 4 * (1 - x));
+                break;
+            case 'gaussian':
+                curve[i] = Math.exp(-0.5 * ((x - 0.5) / 0.125) ** 2);
+                break;
+            default:
+                curve[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * x);
+        }
+    }
+    return curve;
+}
+
+/**
+ * Reads a modulatable value on the scheduler thread: LFO outputs and
+ * modulation signals are sampled through an analyser and added to `base`.
+ */
+function createValueReader(context: AudioContext, value: ModulatableValue, base: number) {
+    if (!isModulationSource(value)) {
+        return { read: () => value, dispose: () => { } };
+    }
+
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 32;
+    const samples = new Float32Array(analyser.fftSize);
+    value.node.connect(analyser);
+
+    return {
+        read: () => {
+            analyser.getFloatTimeDomainData(samples);
+            return base + samples[samples.length - 1];
+        },
+        dispose: () => {
+            try {
+                value.node.disconnect(analyser);
+            } catch {
+                // May already be disconnected
+            }
+        },
+    };
+}
+
+/**
+ * GranularSampler component for pad and texture playback.
+ *
+ * Plays short windowed grains of a buffer, scheduled on the shared audio
+ * clock. `position` and `density` accept LFOs; the other grain settings
+ * apply from the next grain.
+ *
+ * @example
+ * ```tsx
+ * const drift = useLFO({ rate: 0.05, depth: 0.2 });
+ * <GranularSampler src="/samples/choir.wav" position={drift} positionBase={0.4} density={24} autoStart />
+ * ```
+ */
+export const GranularSampler: FC<GranularSamplerProps> = ({
+    children,
+    nodeRef: externalRef,
+    src,
+    autoStart = false,
+    active,
+    grainSize = 0.1,
+    density = 10,
+    densityBase,
+    position = 0,
+    positionBase,
+    positionJitter = 0,
+    pitch = 0,
+    spray = 0,
+    window: windowShape = 'hann',
+    gain = 1,
+    lookAhead = 0.1,
+    scheduleInterval = 25,
+    onLoad,
+    onError,
+}) => {
+    const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+    const { nodeRef, context, isUnlocked } = useAudioNode<GainNode>({
+        createNode: (ctx) => ctx.createGain(),
+    });
+
+    const settingsRef = useRef({ grainSize, positionJitter, pitch, spray });
+    const windowCurveRef = useRef(createGrainWindow(windowShape));
+    const readersRef = useRef<{ density: () => number; position: () => number }>({
+        density: () => 10,
+        position: () => 0,
+    });
+
+    useEffect(() => {
+        settingsRef.current = { grainSize, positionJitter, pitch, spray };
+    }, [grainSize, positionJitter, pitch, spray]);
+
+    useEffect(() => {
+        windowCurveRef.current = createGrainWindow(windowShape);
+    }, [windowShape]);
+
+    // Load buffer from URL if string
+    useEffect(() => {
+        if (!context) return;
+
+        if (typeof src === 'string') {
+            let cancelled = false;
+            getAudioAssetManager(context).load(src)
+                .then((decodedBuffer) => {
+                    if (cancelled) return;
+                    setBuffer(decodedBuffer);
+                    onLoad?.(decodedBuffer);
+                })
+                .catch((error) => {
+                    if (!cancelled) onError?.(error);
+                });
+            return () => {
+                cancelled = true;
+            };
+        }
+        setBuffer(src);
+    }, [context, src, onLoad, onError]);
+
+    // Sync external ref
+    useEffect(() => {
+        if (externalRef) {
+            (externalRef as React.MutableRefObject<GainNode | null>).current = nodeRef.current;
+        }
+    }, [externalRef, nodeRef.current]);
+
+    // Apply output gain
+    useEffect(() => {
+        if (nodeRef.current) {
+            nodeRef.current.gain.value = gain;
+        }
+    }, [gain, nodeRef.current]);
+
+    // Modulatable values (with LFO support)
+    useEffect(() => {
+        if (!context) return;
+        const densityReader = createValueReader(context, density, densityBase ?? 10);
+        const positionReader = createValueReader(context, position, positionBase ?? 0);
+        readersRef.current = { density: densityReader.read, position: positionReader.read };
+        return () => {
+            densityReader.dispose();
+            positionReader.dispose();
+        };
+    }, [context, density, densityBase, position, positionBase]);
+
+    const isPlaying = Boolean(buffer) && isUnlocked && (active ?? autoStart);
+    const output = nodeRef.current;
+
+    // Grain scheduler
+    useEffect(() => {
+        if (!isPlaying || !context || !buffer || !output) return;
+
+        let nextGrainTime = context.currentTime;
+
+        const startGrain = (time: number) => {
+            const settings = settingsRef.current;
+            const size = Math.max(0.001, settings.grainSize);
+            const playbackRate = Math.pow(2, settings.pitch / 12);
+            const span = Math.min(buffer.duration, size * playbackRate);
+            const center = Math.max(0, Math.min(1, readersRef.current.position()));
+            const jitter = (Math.random() - 0.5) * Math.max(0, settings.positionJitter);
+            const offset = Math.max(0, Math.min(buffer.duration - span, (center + jitter) * buffer.duration));
+
+            const source = context.createBufferSource();
+            const envelope = context.createGain();
+            source.buffer = buffer;
+            source.playbackRate.value = playbackRate;
+            envelope.gain.value = 0;
+            envelope.gain.setValueCurveAtTime(windowCurveRef.current, time, size);
+            source.connect(envelope);
+            envelope.connect(output);
+            source.onended = () => {
+                source.disconnect();
+                envelope.disconnect();
+            };
+            source.start(time, offset, span);
+        };
+
+        const scheduler = (currentTime: number) => {
+            const horizon = currentTime + lookAhead;
+            // Do not burst grains to catch up after a stall
+            nextGrainTime = Math.max(nextGrainTime, currentTime);
+
+            while (nextGrainTime < horizon) {
+                const spray = Math.max(0, settingsRef.current.spray);
+                startGrain(nextGrainTime + Math.random() * spray);
+                nextGrainTime += 1 / Math.max(0.1, readersRef.current.density());
+            }
+        };
+
+        scheduler(context.currentTime);
+        return getSchedulerClock(context, scheduleInterval).subscribe(scheduler);
+    }, [isPlaying, context, buffer, output, lookAhead, scheduleInterval]);
+
+    return (
+        <AudioOutProvider node={nodeRef.current}>
+            {children}
+        </AudioOutProvider>
+    );
+};
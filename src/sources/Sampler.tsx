@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState, type FC } from 'react';
 import type { SamplerProps } from './types';
 import { useAudio } from '../core/AudioProvider';
+import { getAudioAssetManager } from '../core/assets';
 import { useAudioOut, AudioOutProvider } from '../core/AudioOutContext';
 
 /**
@@ -52,12 +53,7 @@ export const Sampler: FC<SamplerProps> = ({
         if (!context) return;
 
         if (typeof src === 'string') {
-            fetch(src)
-                .then((response) => {
-                    if (!response.ok) throw new Error(`Failed to load: ${src}`);
-                    return response.arrayBuffer();
-                })
-                .then((arrayBuffer) => context.decodeAudioData(arrayBuffer))
+            getAudioAssetManager(context).load(src)
                 .then((decodedBuffer) => {
                     setBuffer(decodedBuffer);
                     onLoad?.(decodedBuffer);
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState, type FC } from 'react';
 import type { ReactNode } from 'react';
 import { useAudio } from '../core/AudioProvider';
+import { getAudioAssetManager } from '../core/assets';
 import { useAudioOut, AudioOutProvider } from '../core/AudioOutContext';
 import { useTrigger } from '../sequencer/useTrigger';
 
@@ -49,14 +50,7 @@ export const TriggeredSampler: FC<TriggeredSamplerProps> = ({
         let cancelled = false;
 
         if (typeof src === 'string') {
-            fetch(src)
-                .then((response) => {
-                    if (!response.ok) {
-                        throw new Error(`Failed to load sampler source: ${src}`);
-                    }
-                    return response.arrayBuffer();
-                })
-                .then((arrayBuffer) => context.decodeAudioData(arrayBuffer))
+            getAudioAssetManager(context).load(src)
                 .then((decodedBuffer) => {
                     if (!cancelled) {
                         setBuffer(decodedBuffer);
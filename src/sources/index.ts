@@ -6,6 +6,8 @@
 export type {
     SourceNodeProps,
     SamplerProps,
+    GranularSamplerProps,
+    GrainWindow,
     NoiseProps,
     NoiseType,
     MediaStreamProps,
@@ -20,6 +22,7 @@ export type { UseLFOOptions } from './useLFO';
 
 // Components
 export { Sampler } from './Sampler';
+export { GranularSampler } from './GranularSampler';
 export { TriggeredSampler } from './TriggeredSampler';
 export type { TriggeredSamplerProps } from './TriggeredSampler';
 export { Noise } from './Noise';
@@ -1,4 +1,5 @@
 import type { ReactNode, RefObject } from 'react';
+import type { ModulatableValue } from '../core/ModulatableValue';
 
 // =============================================================================
 // Base Source Props
@@ -108,6 +109,115 @@ export interface SamplerProps extends SourceNodeProps {
     nodeRef?: RefObject<AudioBufferSourceNode | null>;
 }
 
+// =============================================================================
+// Granular Sampler
+// =============================================================================
+
+/**
+ * Amplitude envelope applied to each grain.
+ */
+export type GrainWindow = 'hann' | 'triangle' | 'trapezoid' | 'gaussian';
+
+/**
+ * Props for the GranularSampler component (granular buffer playback).
+ */
+export interface GranularSamplerProps extends Omit<SourceNodeProps, 'nodeRef'> {
+    /**
+     * Audio source: URL string or pre-decoded AudioBuffer.
+     */
+    src: string | AudioBuffer;
+
+    /**
+     * Grain length in seconds.
+     * @default 0.1
+     */
+    grainSize?: number;
+
+    /**
+     * Grains started per second.
+     * Can be a fixed number or an LFO for modulation.
+     * @default 10
+     */
+    density?: ModulatableValue;
+
+    /**
+     * Base density when using LFO modulation.
+     * @default 10
+     */
+    densityBase?: number;
+
+    /**
+     * Read position in the buffer, from 0 (start) to 1 (end).
+     * Can be a fixed number or an LFO for modulation.
+     * @default 0
+     */
+    position?: ModulatableValue;
+
+    /**
+     * Base position when using LFO modulation.
+     * @default 0
+     */
+    positionBase?: number;
+
+    /**
+     * Random read offset per grain, as a fraction of the buffer length
+     * spread around `position`.
+     * @default 0
+     */
+    positionJitter?: number;
+
+    /**
+     * Grain transposition in semitones.
+     * @default 0
+     */
+    pitch?: number;
+
+    /**
+     * Random delay added to each grain start, in seconds.
+     * @default 0
+     */
+    spray?: number;
+
+    /**
+     * Grain envelope shape.
+     * @default 'hann'
+     */
+    window?: GrainWindow;
+
+    /**
+     * Output gain.
+     * @default 1
+     */
+    gain?: number;
+
+    /**
+     * Seconds of grains scheduled ahead of the audio clock.
+     * @default 0.1
+     */
+    lookAhead?: number;
+
+    /**
+     * Scheduler interval in milliseconds.
+     * @default 25
+     */
+    scheduleInterval?: number;
+
+    /**
+     * Callback when the buffer is loaded (if URL provided).
+     */
+    onLoad?: (buffer: AudioBuffer) => void;
+
+    /**
+     * Callback on loading error.
+     */
+    onError?: (error: Error) => void;
+
+    /**
+     * Ref to the output GainNode.
+     */
+    nodeRef?: RefObject<GainNode | null>;
+}
+
 // =============================================================================
 // Noise
 // =============================================================================
@@ -3,7 +3,7 @@
 // =============================================================================
 
 import { useEffect, useRef, type FC } from 'react';
-import { useAudio } from '../core';
+import { useAudio, useAudioOut } from '../core';
 import { useTriggerContext } from '../sequencer/TriggerContext';
 import { noteToFreq } from '../notes';
 import type { AMSynthProps } from './types';
@@ -40,6 +40,7 @@ export const AMSynth: FC<AMSynthProps> = ({
     nodeRef: externalRef,
 }) => {
     const { context } = useAudio();
+    const { outputNode } = useAudioOut();
     const { subscribe } = useTriggerContextSafe();
 
     // Merge with defaults
@@ -71,7 +72,6 @@ export const AMSynth: FC<AMSynthProps> = ({
         if (!context) return;
         masterGainRef.current = context.createGain();
         masterGainRef.current.gain.value = 1;
-        masterGainRef.current.connect(context.destination);
 
         return () => {
             masterGainRef.current?.disconnect();
@@ -79,6 +79,22 @@ export const AMSynth: FC<AMSynthProps> = ({
         };
     }, [context]);
 
+    // Connect master gain to the parent output
+    useEffect(() => {
+        const masterGain = masterGainRef.current;
+        if (!masterGain || !outputNode) return;
+
+        masterGain.connect(outputNode);
+
+        return () => {
+            try {
+                masterGain.disconnect(outputNode);
+            } catch {
+                // Ignore disconnect during teardown.
+            }
+        };
+    }, [context, outputNode]);
+
     // Subscribe to trigger events
     useEffect(() => {
         if (!context || !subscribe || bypass) return;
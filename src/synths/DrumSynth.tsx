@@ -3,7 +3,7 @@
 // =============================================================================
 
 import { useEffect, useRef, type FC } from 'react';
-import { useAudio } from '../core';
+import { useAudio, useAudioOut } from '../core';
 import { useTriggerContext } from '../sequencer/TriggerContext';
 import type { EnvelopeConfig } from './types';
 import { DEFAULT_ENVELOPE } from './types';
@@ -179,6 +179,7 @@ export const DrumSynth: FC<DrumSynthProps> = ({
     bypass = false,
 }) => {
     const { context } = useAudio();
+    const { outputNode: parentOutputNode } = useAudioOut();
     const { subscribe } = useTriggerContextSafe();
 
     // Merge with defaults
@@ -191,6 +192,8 @@ export const DrumSynth: FC<DrumSynthProps> = ({
     paramsRef.current = {
         oscillators, noise, envConfig, volume, saturation, saturationAmount
     };
+    const parentOutputRef = useRef(parentOutputNode);
+    parentOutputRef.current = parentOutputNode;
 
     // Noise buffer cache
     const noiseBuffersRef = useRef<{
@@ -249,6 +252,9 @@ export const DrumSynth: FC<DrumSynthProps> = ({
 
         const unsub = subscribe((event) => {
             const params = paramsRef.current;
+            const destination = parentOutputRef.current;
+            if (!destination) return;
+
             const { time, velocity, duration: stepDuration } = event;
             const now = time;
 
@@ -270,7 +276,7 @@ export const DrumSynth: FC<DrumSynthProps> = ({
                 outputNode = waveshaper;
             }
 
-            outputNode.connect(context.destination);
+            outputNode.connect(destination);
 
             // Create oscillator layers
             params.oscillators.forEach((oscConfig) => {
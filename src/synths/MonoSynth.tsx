@@ -3,7 +3,7 @@
 // =============================================================================
 
 import { useEffect, useRef, type FC } from 'react';
-import { useAudio } from '../core';
+import { useAudio, useAudioOut } from '../core';
 import { useTriggerContext } from '../sequencer/TriggerContext';
 import { noteToFreq } from '../notes';
 import type { MonoSynthProps } from './types';
@@ -45,6 +45,7 @@ export const MonoSynth: FC<MonoSynthProps> = ({
     nodeRef: externalRef,
 }) => {
     const { context } = useAudio();
+    const { outputNode } = useAudioOut();
     const { subscribe } = useTriggerContextSafe();
 
     // Merge with defaults
@@ -70,7 +71,6 @@ export const MonoSynth: FC<MonoSynthProps> = ({
         if (!context) return;
         masterGainRef.current = context.createGain();
         masterGainRef.current.gain.value = 1;
-        masterGainRef.current.connect(context.destination);
 
         return () => {
             masterGainRef.current?.disconnect();
@@ -78,6 +78,22 @@ export const MonoSynth: FC<MonoSynthProps> = ({
         };
     }, [context]);
 
+    // Connect master gain to the parent output
+    useEffect(() => {
+        const masterGain = masterGainRef.current;
+        if (!masterGain || !outputNode) return;
+
+        masterGain.connect(outputNode);
+
+        return () => {
+            try {
+                masterGain.disconnect(outputNode);
+            } catch {
+                // Ignore disconnect during teardown.
+            }
+        };
+    }, [context, outputNode]);
+
     // Subscribe to trigger events
     useEffect(() => {
         if (!context || !subscribe || bypass) return;
@@ -3,7 +3,7 @@
 // =============================================================================
 
 import { useEffect, useRef, type FC } from 'react';
-import { useAudio } from '../core';
+import { useAudio, useAudioOut } from '../core';
 import { useTriggerContext } from '../sequencer/TriggerContext';
 import type { NoiseSynthProps } from './types';
 import { DEFAULT_ENVELOPE, DEFAULT_FILTER } from './types';
@@ -34,6 +34,7 @@ export const NoiseSynth: FC<NoiseSynthProps> = ({
     nodeRef: externalRef,
 }) => {
     const { context } = useAudio();
+    const { outputNode } = useAudioOut();
     const { subscribe } = useTriggerContextSafe();
 
     // Merge with defaults
@@ -66,7 +67,6 @@ export const NoiseSynth: FC<NoiseSynthProps> = ({
 
         masterGainRef.current = context.createGain();
         masterGainRef.current.gain.value = 1;
-        masterGainRef.current.connect(context.destination);
 
         // Generate noise buffers (2 seconds each)
         const bufferSize = context.sampleRate * 2;
@@ -114,6 +114,22 @@ export const NoiseSynth: FC<NoiseSynthProps> = ({
         };
     }, [context]);
 
+    // Connect master gain to the parent output
+    useEffect(() => {
+        const masterGain = masterGainRef.current;
+        if (!masterGain || !outputNode) return;
+
+        masterGain.connect(outputNode);
+
+        return () => {
+            try {
+                masterGain.disconnect(outputNode);
+            } catch {
+                // Ignore disconnect during teardown.
+            }
+        };
+    }, [context, outputNode]);
+
     // Subscribe to trigger events
     useEffect(() => {
         if (!context || !subscribe || bypass) return;
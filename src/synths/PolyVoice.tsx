@@ -1,10 +1,18 @@
-import { useState, useMemo, type ReactNode } from 'react';
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAudio } from '../core';
 import { useOnTrigger } from '../sequencer/useTrigger';
+import { scheduleAtContextTime } from '../transport/clock';
 import { Voice, type VoiceRenderProps, type VoiceProps } from './Voice';
 import type { TriggerEvent } from '../sequencer/types';
 
+/**
+ * Which held voice `PolyVoice` takes over when every voice is busy:
+ * the oldest note, the quietest note, or the lowest / highest pitch.
+ */
+export type VoiceStealPolicy = 'oldest' | 'quietest' | 'lowest' | 'highest';
+
 export interface PolyVoiceProps {
-    /** Number of polyphonic voices @default 4 */
+    /** Maximum number of voices sounding at once @default 4 */
     voices?: number;
     /** Render function for each voice */
     children: (props: VoiceRenderProps) => ReactNode;
@@ -12,85 +20,202 @@ export interface PolyVoiceProps {
     notes?: VoiceProps['notes'];
     /** Portamento time in seconds @default 0 */
     portamento?: number;
+    /** Held voice to take over when no voice is free @default 'oldest' */
+    steal?: VoiceStealPolicy;
+    /** Voices started per note @default 1 */
+    unison?: number;
+    /** Total detune spread across unison voices, in cents @default 0 */
+    detune?: number;
+    /**
+     * Notes currently held, e.g. from `useMidiNote().activeNotes`. A note
+     * triggered with no duration holds its voices until it leaves this list.
+     */
+    heldNotes?: readonly number[];
 }
 
-interface VoiceState {
+interface VoiceSlot {
     id: number;
     event: TriggerEvent | null;
-    lastTriggerTime: number;
+    gate: boolean;
+    detune: number;
+    /** Allocation order, used by the `oldest` policy */
+    startedAt: number;
+    /** Release order; released voices are reused longest-released first */
+    releasedAt: number;
+}
+
+function createSlot(id: number): VoiceSlot {
+    return { id, event: null, gate: false, detune: 0, startedAt: 0, releasedAt: 0 };
+}
+
+function compareHeld(a: VoiceSlot, b: VoiceSlot, steal: VoiceStealPolicy): number {
+    const aEvent = a.event as TriggerEvent;
+    const bEvent = b.event as TriggerEvent;
+    switch (steal) {
+        case 'quietest':
+            return aEvent.velocity - bEvent.velocity || a.startedAt - b.startedAt;
+        case 'lowest':
+            return aEvent.note - bEvent.note || a.startedAt - b.startedAt;
+        case 'highest':
+            return bEvent.note - aEvent.note || a.startedAt - b.startedAt;
+        default:
+            return a.startedAt - b.startedAt;
+    }
+}
+
+/**
+ * Order voices by how freely they can be (re)used for `note`: voices already
+ * playing the note, then unused voices, then released voices, then held
+ * voices in steal-policy order.
+ */
+function rankSlots(pool: readonly VoiceSlot[], note: number, steal: VoiceStealPolicy): VoiceSlot[] {
+    const getGroup = (slot: VoiceSlot) => {
+        if (slot.event?.note === note) return 0;
+        if (!slot.event) return 1;
+        return slot.gate ? 3 : 2;
+    };
+
+    return [...pool].sort((a, b) => {
+        const group = getGroup(a) - getGroup(b);
+        if (group !== 0) return group;
+        if (getGroup(a) === 2) return a.releasedAt - b.releasedAt;
+        if (getGroup(a) === 3) return compareHeld(a, b, steal);
+        return a.id - b.id;
+    });
+}
+
+function getUnisonDetune(index: number, unison: number, detune: number): number {
+    return unison > 1 ? detune * (index / (unison - 1) - 0.5) : 0;
 }
 
 /**
  * PolyVoice Component - Polyphonic voice allocator.
- * 
+ *
  * Manages a pool of Voice components and routes incoming sequencer triggers
- * to available voices using a simple voice stealing algorithm (oldest trigger).
+ * to free voices first. When every voice sounds, released voices are reused
+ * before a held one is stolen according to `steal`. Each voice gates off at
+ * the end of its trigger `duration`, or, for triggers without a duration,
+ * when its note leaves `heldNotes`.
  */
 export const PolyVoice = ({
     voices = 4,
     children,
     notes,
-    portamento = 0
+    portamento = 0,
+    steal = 'oldest',
+    unison = 1,
+    detune = 0,
+    heldNotes,
 }: PolyVoiceProps) => {
-    // Initialize pool of voices
-    const [voicePool, setVoicePool] = useState<VoiceState[]>(() =>
-        Array.from({ length: voices }, (_, i) => ({
-            id: i,
-            event: null,
-            lastTriggerTime: 0
-        }))
+    const { context } = useAudio();
+    const poolSize = Math.max(1, Math.floor(voices));
+
+    const [voicePool, setVoicePool] = useState<VoiceSlot[]>(() =>
+        Array.from({ length: poolSize }, (_, i) => createSlot(i))
     );
+    const poolRef = useRef(voicePool);
+    const counterRef = useRef(0);
+    const releasesRef = useRef(new Map<number, () => void>());
+
+    const commit = useCallback((next: VoiceSlot[]) => {
+        poolRef.current = next;
+        setVoicePool(next);
+    }, []);
+
+    // Unison voices share one scheduled release, cancelled once none of them still waits on it
+    const cancelRelease = useCallback((id: number) => {
+        const releases = releasesRef.current;
+        const cancel = releases.get(id);
+        if (cancel === undefined) return;
+        releases.delete(id);
+        if (!Array.from(releases.values()).includes(cancel)) {
+            cancel();
+        }
+    }, []);
+
+    const release = useCallback((ids: readonly number[]) => {
+        const releasing = new Set(ids);
+        if (!poolRef.current.some((slot) => releasing.has(slot.id) && slot.gate)) return;
+        counterRef.current += 1;
+        const releasedAt = counterRef.current;
+        ids.forEach(cancelRelease);
+        commit(poolRef.current.map((slot) => (
+            releasing.has(slot.id) && slot.gate ? { ...slot, gate: false, releasedAt } : slot
+        )));
+    }, [cancelRelease, commit]);
+
+    useEffect(() => {
+        if (poolRef.current.length === poolSize) return;
+        poolRef.current
+            .slice(poolSize)
+            .forEach((slot) => cancelRelease(slot.id));
+        commit(Array.from({ length: poolSize }, (_, i) => poolRef.current[i] ?? createSlot(i)));
+    }, [cancelRelease, commit, poolSize]);
+
+    useEffect(() => {
+        const releases = releasesRef.current;
+        return () => {
+            new Set(releases.values()).forEach((cancel) => cancel());
+            releases.clear();
+        };
+    }, []);
 
     useOnTrigger((event) => {
-        setVoicePool(prevPool => {
-            const now = performance.now();
-            const newPool = [...prevPool];
-
-            // 1. Find free voice (no event or old event) - Simplistic: "Note Off" isn't explicitly tracked in state here easily
-            // We assume voices are "free" to be stolen if they are the oldest.
-            // A better approach usually tracks "active" boolean based on note-off.
-            // But here we rely on stealing oldest.
-
-            // Find index of voice with oldest trigger
-            let oldestIndex = 0;
-            let oldestTime = Infinity;
-
-            // Also check for same note retrigger (monophonic behavior per note?)
-            // If same note is playing, retrigger that voice? Common behavior.
-            const sameNoteIndex = newPool.findIndex(v => v.event?.note === event.note);
-
-            let targetIndex = -1;
-
-            if (sameNoteIndex !== -1) {
-                targetIndex = sameNoteIndex;
-            } else {
-                // Find oldest
-                for (let i = 0; i < newPool.length; i++) {
-                    if (newPool[i].lastTriggerTime < oldestTime) {
-                        oldestTime = newPool[i].lastTriggerTime;
-                        oldestIndex = i;
-                    }
-                }
-                targetIndex = oldestIndex;
-            }
-
-            // Allocate voice
-            newPool[targetIndex] = {
-                ...newPool[targetIndex],
-                event: event,
-                lastTriggerTime: now
-            };
-
-            return newPool;
-        });
+        const voiceCount = Math.min(poolSize, Math.max(1, Math.floor(unison)));
+        const targets = rankSlots(poolRef.current, event.note, steal).slice(0, voiceCount);
+        counterRef.current += 1;
+        const startedAt = counterRef.current;
+
+        const allocated = new Map(targets.map((slot, index) => [slot.id, {
+            ...slot,
+            event,
+            gate: true,
+            detune: getUnisonDetune(index, voiceCount, detune),
+            startedAt,
+        }]));
+        targets.forEach((slot) => cancelRelease(slot.id));
+        commit(poolRef.current.map((slot) => allocated.get(slot.id) ?? slot));
+
+        if (event.duration > 0 && context) {
+            const ids = targets.map((slot) => slot.id);
+            const cancel = scheduleAtContextTime(context, event.time + event.duration, () => {
+                release(ids.filter((id) => releasesRef.current.get(id) === cancel));
+            });
+            ids.forEach((id) => releasesRef.current.set(id, cancel));
+        }
     });
 
+    // Release held notes (no trigger duration) once they leave heldNotes. Notes that
+    // were never held stay on, since their trigger can arrive before heldNotes updates.
+    const heldKey = heldNotes ? heldNotes.join(',') : null;
+    const previousHeldRef = useRef<ReadonlySet<number>>(new Set());
+    useEffect(() => {
+        const held = new Set(heldKey ? heldKey.split(',').map(Number) : []);
+        const previousHeld = previousHeldRef.current;
+        previousHeldRef.current = held;
+        if (heldKey === null) return;
+        const released = poolRef.current
+            .filter((slot) => (
+                slot.gate
+                && slot.event
+                && slot.event.duration <= 0
+                && previousHeld.has(slot.event.note)
+                && !held.has(slot.event.note)
+            ))
+            .map((slot) => slot.id);
+        if (released.length > 0) {
+            release(released);
+        }
+    }, [heldKey, release]);
+
     return (
         <>
             {voicePool.map((voice) => (
                 <Voice
                     key={voice.id}
                     event={voice.event}
+                    gate={voice.gate}
+                    detune={voice.detune}
                     notes={notes}
                     portamento={portamento}
                 >
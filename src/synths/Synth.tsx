@@ -3,7 +3,7 @@
 // =============================================================================
 
 import { useEffect, useRef, type FC } from 'react';
-import { useAudio } from '../core';
+import { useAudio, useAudioOut } from '../core';
 import { useTriggerContext } from '../sequencer/TriggerContext';
 import { noteToFreq } from '../notes';
 import type { SynthProps } from './types';
@@ -39,6 +39,7 @@ export const Synth: FC<SynthProps> = ({
     nodeRef: externalRef,
 }) => {
     const { context } = useAudio();
+    const { outputNode } = useAudioOut();
     const { subscribe } = useTriggerContextSafe();
 
     // Merge with defaults
@@ -64,7 +65,6 @@ export const Synth: FC<SynthProps> = ({
         if (!context) return;
         masterGainRef.current = context.createGain();
         masterGainRef.current.gain.value = volume;
-        masterGainRef.current.connect(context.destination);
 
         return () => {
             masterGainRef.current?.disconnect();
@@ -72,6 +72,22 @@ export const Synth: FC<SynthProps> = ({
         };
     }, [context]);
 
+    // Connect master gain to the parent output
+    useEffect(() => {
+        const masterGain = masterGainRef.current;
+        if (!masterGain || !outputNode) return;
+
+        masterGain.connect(outputNode);
+
+        return () => {
+            try {
+                masterGain.disconnect(outputNode);
+            } catch {
+                // Ignore disconnect during teardown.
+            }
+        };
+    }, [context, outputNode]);
+
     // Update master gain
     useEffect(() => {
         if (masterGainRef.current) {
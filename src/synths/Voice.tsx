@@ -2,6 +2,7 @@ import { useRef, useState, useEffect, useCallback, type RefObject, type ReactNod
 import { useOnTrigger } from '../sequencer/useTrigger';
 import { useAudio } from '../core';
 import { midiToFreq } from '../notes';
+import { scheduleAtContextTime } from '../transport/clock';
 import type { TriggerEvent } from '../sequencer/types';
 
 /**
@@ -33,6 +34,10 @@ export interface VoiceProps {
     portamento?: number;
     /** Manual event override (for PolyVoice) */
     event?: TriggerEvent | null;
+    /** Manual gate override (for PolyVoice note-off tracking) */
+    gate?: boolean;
+    /** Pitch offset in cents applied to every note @default 0 */
+    detune?: number;
 }
 
 /**
@@ -48,7 +53,9 @@ export const Voice = ({
     children,
     portamento = 0,
     notes,
-    event: propEvent
+    event: propEvent,
+    gate: propGate,
+    detune = 0
 }: VoiceProps) => {
     // Refs for imperative access to nodes
     const oscRef = useRef<OscillatorNode>(null);
@@ -62,6 +69,9 @@ export const Voice = ({
     const [duration, setDuration] = useState(0);
 
     const { context } = useAudio();
+    const cancelReleaseRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => () => cancelReleaseRef.current?.(), []);
 
     // Helper to process a trigger event
     const processEvent = useCallback((event: TriggerEvent) => {
@@ -78,6 +88,9 @@ export const Voice = ({
         } else {
             freq = midiToFreq(event.note);
         }
+        if (detune !== 0) {
+            freq *= Math.pow(2, detune / 1200);
+        }
 
         // Schedule Frequency on Oscillator (Sample Accurate)
         if (oscRef.current) {
@@ -103,6 +116,8 @@ export const Voice = ({
         setVelocity(event.velocity);
         setDuration(event.duration);
         setGate(true);
+        cancelReleaseRef.current?.();
+        cancelReleaseRef.current = null;
 
         // Note Off logic?
         // Note Off is usually handled by the sequencer sending a Note Off event, 
@@ -115,13 +130,13 @@ export const Voice = ({
         // We just leave `gate` true until next event? 
         // Or we toggle it off after duration to represent "key release"?
         if (event.duration > 0) {
-            // We set a timeout to turn off gate for visual/logic consistency
-            const timeout = setTimeout(() => {
+            // Turn the gate off on the context clock, so offline renders release on time
+            cancelReleaseRef.current = scheduleAtContextTime(context, event.time + event.duration, () => {
+                cancelReleaseRef.current = null;
                 setGate(false);
-            }, event.duration * 1000);
-            return () => clearTimeout(timeout);
+            });
         }
-    }, [context, notes, portamento]);
+    }, [context, detune, notes, portamento]);
 
     // Mode 1: Controlled via prop (PolyVoice)
     useEffect(() => {
@@ -153,7 +168,7 @@ export const Voice = ({
     });
 
     const renderProps: VoiceRenderProps = {
-        gate,
+        gate: propGate ?? gate,
         velocity,
         frequency,
         duration,
@@ -43,4 +43,4 @@ export { AMSynth } from './AMSynth';
 export { NoiseSynth } from './NoiseSynth';
 export { DrumSynth } from './DrumSynth';
 export { Voice, type VoiceProps, type VoiceRenderProps } from './Voice';
-export { PolyVoice, type PolyVoiceProps } from './PolyVoice';
+export { PolyVoice, type PolyVoiceProps, type VoiceStealPolicy } from './PolyVoice';
@@ -5,11 +5,30 @@ import {
     useCallback,
     useRef,
     useEffect,
+    useMemo,
     type FC,
     type ReactNode,
 } from 'react';
-import type { TransportState, TransportConfig, TimePosition, TransportEvents } from './types';
+import type {
+    TransportState,
+    TransportConfig,
+    TimePosition,
+    TransportEvents,
+    TransportLoopRegion,
+    TransportMarker,
+    TransportTick,
+} from './types';
 import { useAudio } from '../core/AudioProvider';
+import { DEFAULT_SCHEDULE_INTERVAL, getSchedulerClock } from './clock';
+import {
+    getPositionAtStep,
+    getSecondsAtStep,
+    getStepAtPosition,
+    getStepAtSeconds,
+    getTempoAtStep,
+    resolveTempoMap,
+    type ResolvedTempoMap,
+} from './tempoMap';
 
 /**
  * Default transport configuration.
@@ -47,13 +66,61 @@ export const TransportContext = createContext<TransportState | null>(null);
  */
 export interface TransportProviderProps extends Partial<TransportConfig>, TransportEvents {
     children: ReactNode;
+
+    /**
+     * Look-ahead time in seconds for scheduling steps.
+     * @default 0.1
+     */
+    lookAhead?: number;
+
+    /**
+     * Tick interval of the shared scheduler clock in milliseconds.
+     * @default 25
+     */
+    scheduleInterval?: number;
+}
+
+/**
+ * Step range of an enabled, non-empty loop region (end exclusive).
+ */
+function resolveLoopSteps(
+    region: TransportLoopRegion | null | undefined,
+    timeline: ResolvedTempoMap
+): { start: number; end: number } | null {
+    if (!region || region.enabled === false) return null;
+    const start = Math.max(0, Math.round(getStepAtPosition(timeline, region.start)));
+    const end = Math.round(getStepAtPosition(timeline, region.end));
+    return end > start ? { start, end } : null;
+}
+
+/**
+ * Marker names by the step they sit on.
+ */
+function resolveMarkerSteps(markers: TransportMarker[] | undefined, timeline: ResolvedTempoMap): Map<number, string[]> {
+    const result = new Map<number, string[]>();
+    markers?.forEach((marker) => {
+        const step = Math.max(0, Math.round(getStepAtPosition(timeline, marker.position)));
+        result.set(step, [...(result.get(step) ?? []), marker.name]);
+    });
+    return result;
+}
+
+/**
+ * Swing delay of a step relative to the straight grid.
+ */
+function getSwingOffset(totalSteps: number, stepDuration: number, config: TransportConfig): number {
+    if (!config.swing || !config.swingSubdivision) return 0;
+    return totalSteps % config.swingSubdivision === 1
+        ? stepDuration * config.swing * 0.5
+        : 0;
 }
 
 /**
  * Transport provider component for musical timing and playback control.
  *
  * Manages tempo, time signature, and provides timing information
- * to all child components.
+ * to all child components. Steps are scheduled ahead of time on the shared
+ * scheduler clock of the audio context, which nested sequencers follow.
  *
  * @example
  * ```tsx
@@ -78,10 +145,17 @@ export const TransportProvider: FC<TransportProviderProps> = ({
     swing = DEFAULT_CONFIG.swing,
     swingSubdivision = DEFAULT_CONFIG.swingSubdivision,
     mode = DEFAULT_CONFIG.mode,
+    tempoMap,
+    loopRegion = null,
+    markers = [],
+    lookAhead = 0.1,
+    scheduleInterval = DEFAULT_SCHEDULE_INTERVAL,
     onStep,
     onBeat,
     onBar,
     onPhrase,
+    onLoop,
+    onMarker,
     onPlay,
     onStop,
     onPause,
@@ -97,74 +171,191 @@ export const TransportProvider: FC<TransportProviderProps> = ({
         stepsPerBeat,
         swing,
         swingSubdivision,
+        tempoMap,
+        loopRegion,
+        markers,
         mode,
     });
 
-    const schedulerRef = useRef<number | null>(null);
-    const startTimeRef = useRef<number>(0);
-    const nextStepTimeRef = useRef<number>(0);
-
-    // Calculate durations
-    const beatDuration = 60 / config.bpm;
+    // Index of the next step to schedule and its unswung grid time
+    const nextStepIndexRef = useRef<number>(0);
+    const nextGridTimeRef = useRef<number>(0);
+    const isPlayingRef = useRef(false);
+    const configRef = useRef(config);
+    const timeline = useMemo(() => resolveTempoMap(config), [config]);
+    const timelineRef = useRef(timeline);
+    const loopSteps = useMemo(() => resolveLoopSteps(config.loopRegion, timeline), [config.loopRegion, timeline]);
+    const loopStepsRef = useRef(loopSteps);
+    const markerSteps = useMemo(() => resolveMarkerSteps(config.markers, timeline), [config.markers, timeline]);
+    const markerStepsRef = useRef(markerSteps);
+    const eventsRef = useRef<TransportEvents>({ onStep, onBeat, onBar, onPhrase, onLoop, onMarker });
+    const subscribersRef = useRef<Set<(tick: TransportTick) => void>>(new Set());
+
+    // Calculate durations at the playhead
+    const tempo = getTempoAtStep(timeline, position.totalSteps);
+    const beatDuration = 60 / tempo.bpm;
     const stepDuration = beatDuration / config.stepsPerBeat;
-    const barDuration = beatDuration * config.beatsPerBar;
+    const barDuration = beatDuration * tempo.beatsPerBar;
     const phraseDuration = barDuration * config.barsPerPhrase;
 
+    useEffect(() => {
+        configRef.current = config;
+        timelineRef.current = timeline;
+        loopStepsRef.current = loopSteps;
+        markerStepsRef.current = markerSteps;
+    }, [config, timeline, loopSteps, markerSteps]);
+
+    useEffect(() => {
+        eventsRef.current = { onStep, onBeat, onBar, onPhrase, onLoop, onMarker };
+    }, [onStep, onBeat, onBar, onPhrase, onLoop, onMarker]);
+
+    // Schedule every step that starts before the look-ahead horizon
+    const advance = useCallback((currentTime: number) => {
+        if (!isPlayingRef.current) return;
+
+        const horizon = currentTime + lookAhead;
+        let lastPosition: TimePosition | null = null;
+
+        for (;;) {
+            const activeConfig = configRef.current;
+            const activeTimeline = timelineRef.current;
+            const totalSteps = nextStepIndexRef.current;
+            const gridTime = nextGridTimeRef.current;
+            const stepStart = getSecondsAtStep(activeTimeline, totalSteps);
+            const activeStepDuration = getSecondsAtStep(activeTimeline, totalSteps + 1) - stepStart;
+            const time = gridTime + getSwingOffset(totalSteps, activeStepDuration, activeConfig);
+            if (time >= horizon) break;
+
+            // Wrap at the loop end, only while the playhead is inside the loop
+            const loop = loopStepsRef.current;
+            const wraps = Boolean(loop && totalSteps < loop.end && totalSteps + 1 >= loop.end);
+            const nextIndex = wraps && loop ? loop.start : totalSteps + 1;
+            const followingStepDuration = getSecondsAtStep(activeTimeline, nextIndex + 1)
+                - getSecondsAtStep(activeTimeline, nextIndex);
+            const nextTime = gridTime + activeStepDuration
+                + getSwingOffset(nextIndex, followingStepDuration, activeConfig);
+            const tick: TransportTick = {
+                ...getPositionAtStep(activeTimeline, totalSteps),
+                time,
+                duration: nextTime - time,
+            };
+
+            const events = eventsRef.current;
+            events.onStep?.(tick.step, time);
+            if (tick.step === 0) {
+                events.onBeat?.(tick.beat, time);
+                if (tick.beat === 0) {
+                    events.onBar?.(tick.bar, time);
+                    if (tick.bar === 0) {
+                        events.onPhrase?.(tick.phrase, time);
+                    }
+                }
+            }
+            markerStepsRef.current.get(totalSteps)?.forEach((name) => events.onMarker?.(name, time));
+            subscribersRef.current.forEach((callback) => callback(tick));
+            if (wraps) {
+                events.onLoop?.(nextTime);
+            }
+
+            nextStepIndexRef.current = nextIndex;
+            nextGridTimeRef.current = gridTime + activeStepDuration;
+            lastPosition = {
+                step: tick.step,
+                beat: tick.beat,
+                bar: tick.bar,
+                phrase: tick.phrase,
+                totalSteps: nextIndex,
+                totalTime: getSecondsAtStep(activeTimeline, nextIndex),
+            };
+        }
+
+        if (lastPosition) {
+            setPosition(lastPosition);
+        }
+    }, [lookAhead]);
+
     // Play control
     const play = useCallback(() => {
         if (!context || !isUnlocked) return;
+        isPlayingRef.current = true;
         setIsPlaying(true);
-        startTimeRef.current = context.currentTime;
-        nextStepTimeRef.current = context.currentTime;
+        nextGridTimeRef.current = context.currentTime;
         onPlay?.();
     }, [context, isUnlocked, onPlay]);
 
     // Stop control
     const stop = useCallback(() => {
+        isPlayingRef.current = false;
         setIsPlaying(false);
         setPosition(DEFAULT_POSITION);
-        if (schedulerRef.current) {
-            cancelAnimationFrame(schedulerRef.current);
-            schedulerRef.current = null;
-        }
+        nextStepIndexRef.current = 0;
         onStop?.();
     }, [onStop]);
 
     // Pause control
     const pause = useCallback(() => {
+        isPlayingRef.current = false;
         setIsPlaying(false);
-        if (schedulerRef.current) {
-            cancelAnimationFrame(schedulerRef.current);
-            schedulerRef.current = null;
-        }
         onPause?.();
     }, [onPause]);
 
-    // Seek to position
-    const seek = useCallback((targetPosition: Partial<TimePosition>) => {
-        const stepsPerBar = config.stepsPerBeat * config.beatsPerBar;
-        const stepsPerPhrase = stepsPerBar * config.barsPerPhrase;
-
-        const newPhrase = targetPosition.phrase ?? position.phrase;
-        const newBar = targetPosition.bar ?? position.bar;
-        const newBeat = targetPosition.beat ?? position.beat;
-        const newStep = targetPosition.step ?? position.step;
-
-        const totalSteps =
-            newPhrase * stepsPerPhrase +
-            newBar * stepsPerBar +
-            newBeat * config.stepsPerBeat +
-            newStep;
-
-        setPosition({
-            step: newStep,
-            beat: newBeat,
-            bar: newBar,
-            phrase: newPhrase,
-            totalSteps,
-            totalTime: totalSteps * stepDuration,
+    // Seek to position or marker
+    const seek = useCallback((target: Partial<TimePosition> | string) => {
+        let targetStep: number;
+        if (typeof target === 'string') {
+            const marker = config.markers?.find(({ name }) => name === target);
+            if (!marker) {
+                throw new Error(`Unknown transport marker "${target}".`);
+            }
+            targetStep = getStepAtPosition(timeline, marker.position);
+        } else if (target.totalSteps !== undefined) {
+            targetStep = target.totalSteps;
+        } else {
+            targetStep = getStepAtPosition(timeline, {
+                phrase: target.phrase ?? position.phrase,
+                bar: target.bar ?? position.bar,
+                beat: target.beat ?? position.beat,
+                step: target.step ?? position.step,
+            });
+        }
+        const totalSteps = Math.max(0, Math.round(targetStep));
+
+        nextStepIndexRef.current = totalSteps;
+        if (context) {
+            nextGridTimeRef.current = context.currentTime;
+        }
+
+        setPosition(getPositionAtStep(timeline, totalSteps));
+    }, [context, config.markers, position, timeline]);
+
+    // Loop region and markers
+    const setLoopRegion = useCallback((region: TransportLoopRegion | null) => {
+        setConfigState((prev) => (prev.loopRegion === region ? prev : { ...prev, loopRegion: region }));
+    }, []);
+
+    const setMarker = useCallback((name: string, markerPosition: Partial<TimePosition>) => {
+        setConfigState((prev) => {
+            const others = (prev.markers ?? []).filter((marker) => marker.name !== name);
+            return { ...prev, markers: [...others, { name, position: markerPosition }] };
         });
-    }, [position, config, stepDuration]);
+    }, []);
+
+    const removeMarker = useCallback((name: string) => {
+        setConfigState((prev) => (
+            prev.markers?.some((marker) => marker.name === name)
+                ? { ...prev, markers: prev.markers.filter((marker) => marker.name !== name) }
+                : prev
+        ));
+    }, []);
+
+    // Convert between musical positions and seconds on the tempo map
+    const positionToSeconds = useCallback((target: Partial<TimePosition>) => (
+        getSecondsAtStep(timeline, getStepAtPosition(timeline, target))
+    ), [timeline]);
+
+    const secondsToPosition = useCallback((seconds: number) => (
+        getPositionAtStep(timeline, getStepAtSeconds(timeline, Math.max(0, seconds)) + 1e-9)
+    ), [timeline]);
 
     // Set tempo
     const setTempo = useCallback((newBpm: number) => {
@@ -196,62 +387,25 @@ export const TransportProvider: FC<TransportProviderProps> = ({
     // Reset position without stopping
     const reset = useCallback(() => {
         setPosition(DEFAULT_POSITION);
+        nextStepIndexRef.current = 0;
         if (context) {
-            nextStepTimeRef.current = context.currentTime;
+            nextGridTimeRef.current = context.currentTime;
         }
     }, [context]);
 
     // Manual update for 'manual' mode
     const update = useCallback((now?: number) => {
-        if (config.mode !== 'manual' || !context || !isPlaying) return;
-
-        const currentTime = now ?? context.currentTime;
-        const stepsPerBar = config.stepsPerBeat * config.beatsPerBar;
-        const stepsPerPhrase = stepsPerBar * config.barsPerPhrase;
-        const lookAhead = 0.1;
-
-        while (nextStepTimeRef.current < currentTime + lookAhead) {
-            const stepTime = nextStepTimeRef.current;
-            const totalSteps = position.totalSteps;
-
-            const currentPhrase = Math.floor(totalSteps / stepsPerPhrase);
-            const stepsInPhrase = totalSteps % stepsPerPhrase;
-            const currentBar = Math.floor(stepsInPhrase / stepsPerBar);
-            const stepsInBar = stepsInPhrase % stepsPerBar;
-            const currentBeat = Math.floor(stepsInBar / config.stepsPerBeat);
-            const currentStep = stepsInBar % config.stepsPerBeat;
-
-            onStep?.(currentStep, stepTime);
-            if (currentStep === 0) {
-                onBeat?.(currentBeat, stepTime);
-                if (currentBeat === 0) {
-                    onBar?.(currentBar, stepTime);
-                    if (currentBar === 0) {
-                        onPhrase?.(currentPhrase, stepTime);
-                    }
-                }
-            }
+        if (config.mode !== 'manual' || !context) return;
+        advance(now ?? context.currentTime);
+    }, [advance, config.mode, context]);
 
-            setPosition({
-                step: currentStep,
-                beat: currentBeat,
-                bar: currentBar,
-                phrase: currentPhrase,
-                totalSteps: totalSteps + 1,
-                totalTime: (totalSteps + 1) * stepDuration,
-            });
-
-            let swingOffset = 0;
-            if (config.swing && config.swingSubdivision) {
-                const isSwungStep = (totalSteps + 1) % config.swingSubdivision === 1;
-                if (isSwungStep) {
-                    swingOffset = stepDuration * (config.swing ?? 0) * 0.5;
-                }
-            }
-
-            nextStepTimeRef.current += stepDuration + swingOffset;
-        }
-    }, [config, context, isPlaying, position.totalSteps, stepDuration, onStep, onBeat, onBar, onPhrase]);
+    // Subscribe to scheduled steps
+    const subscribe = useCallback((callback: (tick: TransportTick) => void) => {
+        subscribersRef.current.add(callback);
+        return () => {
+            subscribersRef.current.delete(callback);
+        };
+    }, []);
 
     // Individual setters
     const setBpm = useCallback((newBpm: number) => {
@@ -275,91 +429,35 @@ export const TransportProvider: FC<TransportProviderProps> = ({
         setConfigState((prev) => (prev.barsPerPhrase === bars ? prev : { ...prev, barsPerPhrase: bars }));
     }, []);
 
-    // Scheduler loop (only for 'raf' mode)
+    // Scheduler (shared clock, except in 'manual' mode)
     useEffect(() => {
         if (!isPlaying || !context || config.mode === 'manual') return;
-
-        const stepsPerBar = config.stepsPerBeat * config.beatsPerBar;
-        const stepsPerPhrase = stepsPerBar * config.barsPerPhrase;
-
-        const schedule = () => {
-            const lookAhead = 0.1; // Look-ahead time in seconds
-            const currentTime = context.currentTime;
-
-            while (nextStepTimeRef.current < currentTime + lookAhead) {
-                const stepTime = nextStepTimeRef.current;
-                const totalSteps = position.totalSteps;
-
-                // Calculate position from total steps
-                const currentPhrase = Math.floor(totalSteps / stepsPerPhrase);
-                const stepsInPhrase = totalSteps % stepsPerPhrase;
-                const currentBar = Math.floor(stepsInPhrase / stepsPerBar);
-                const stepsInBar = stepsInPhrase % stepsPerBar;
-                const currentBeat = Math.floor(stepsInBar / config.stepsPerBeat);
-                const currentStep = stepsInBar % config.stepsPerBeat;
-
-                // Fire callbacks
-                onStep?.(currentStep, stepTime);
-
-                if (currentStep === 0) {
-                    onBeat?.(currentBeat, stepTime);
-
-                    if (currentBeat === 0) {
-                        onBar?.(currentBar, stepTime);
-
-                        if (currentBar === 0) {
-                            onPhrase?.(currentPhrase, stepTime);
-                        }
-                    }
-                }
-
-                // Update position
-                setPosition({
-                    step: currentStep,
-                    beat: currentBeat,
-                    bar: currentBar,
-                    phrase: currentPhrase,
-                    totalSteps: totalSteps + 1,
-                    totalTime: (totalSteps + 1) * stepDuration,
-                });
-
-                // Calculate next step time with swing
-                let swingOffset = 0;
-                if (config.swing && config.swingSubdivision) {
-                    const isSwungStep = (totalSteps + 1) % config.swingSubdivision === 1;
-                    if (isSwungStep) {
-                        swingOffset = stepDuration * (config.swing ?? 0) * 0.5;
-                    }
-                }
-
-                nextStepTimeRef.current += stepDuration + swingOffset;
-            }
-
-            schedulerRef.current = requestAnimationFrame(schedule);
-        };
-
-        schedulerRef.current = requestAnimationFrame(schedule);
-
-        return () => {
-            if (schedulerRef.current) {
-                cancelAnimationFrame(schedulerRef.current);
-            }
-        };
-    }, [isPlaying, context, config, position.totalSteps, stepDuration, onStep, onBeat, onBar, onPhrase]);
+        return getSchedulerClock(context, scheduleInterval).subscribe(advance);
+    }, [isPlaying, context, config.mode, scheduleInterval, advance]);
 
     // Build state value
     const value: TransportState = {
         ...position,
         isPlaying,
-        bpm: config.bpm,
+        bpm: tempo.bpm,
+        beatsPerBar: tempo.beatsPerBar,
+        swing: config.swing ?? 0,
         stepDuration,
         beatDuration,
         barDuration,
         phraseDuration,
+        subscribe,
+        positionToSeconds,
+        secondsToPosition,
         play,
         stop,
         pause,
         seek,
+        loopRegion: config.loopRegion ?? null,
+        markers: config.markers ?? [],
+        setLoopRegion,
+        setMarker,
+        removeMarker,
         setTempo,
         setConfig,
         toggle,
@@ -0,0 +1,145 @@
+import type { SchedulerClock, SchedulerClockListener } from './types';
+
+/**
+ * Default tick interval of the scheduler clock in milliseconds.
+ */
+export const DEFAULT_SCHEDULE_INTERVAL = 25;
+
+// Dedicated workers keep ticking at full rate while the tab is in the background.
+const WORKER_SOURCE = 'let id=null;onmessage=(e)=>{clearInterval(id);id=null;if(e.data>0){id=setInterval(()=>postMessage(0),e.data);}};';
+
+const clocksByContext = new WeakMap<BaseAudioContext, Map<number, SchedulerClock>>();
+
+function startWorkerTicker(interval: number, onTick: () => void): (() => void) | null {
+    if (
+        typeof Worker === 'undefined'
+        || typeof Blob === 'undefined'
+        || typeof URL === 'undefined'
+        || typeof URL.createObjectURL !== 'function'
+    ) {
+        return null;
+    }
+
+    let url: string | null = null;
+    try {
+        url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+        const worker = new Worker(url);
+        worker.onmessage = onTick;
+        worker.postMessage(interval);
+        const workerUrl = url;
+        return () => {
+            worker.terminate();
+            URL.revokeObjectURL(workerUrl);
+        };
+    } catch {
+        // Blocked by CSP or unsupported: fall back to a main-thread interval.
+        if (url) URL.revokeObjectURL(url);
+        return null;
+    }
+}
+
+function startTicker(interval: number, onTick: () => void): () => void {
+    const stopWorker = startWorkerTicker(interval, onTick);
+    if (stopWorker) return stopWorker;
+
+    const intervalId = setInterval(onTick, interval);
+    return () => {
+        clearInterval(intervalId);
+    };
+}
+
+function createSchedulerClock(context: BaseAudioContext, interval: number): SchedulerClock {
+    const listeners = new Set<SchedulerClockListener>();
+    let stopTicker: (() => void) | null = null;
+
+    const tick = () => {
+        const currentTime = context.currentTime;
+        Array.from(listeners).forEach((listener) => listener(currentTime));
+    };
+
+    const subscribe = (listener: SchedulerClockListener) => {
+        listeners.add(listener);
+        if (!stopTicker) {
+            stopTicker = startTicker(interval, tick);
+        }
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0 && stopTicker) {
+                stopTicker();
+                stopTicker = null;
+            }
+        };
+    };
+
+    return { interval, subscribe, tick };
+}
+
+/**
+ * Get the shared lookahead scheduler clock of an audio context.
+ *
+ * Every scheduler using the same context and interval shares one timer,
+ * so transports, sequencers and MIDI file players advance together.
+ * Listeners are called on every tick with the context's `currentTime`;
+ * each adds its own look-ahead window.
+ *
+ * @param context - The audio context whose `currentTime` drives the clock
+ * @param interval - Tick interval in milliseconds
+ *
+ * @example
+ * ```ts
+ * const clock = getSchedulerClock(context);
+ * const unsubscribe = clock.subscribe((currentTime) => {
+ *   while (nextTime < currentTime + 0.1) {
+ *     scheduleNote(nextTime);
+ *     nextTime += stepDuration;
+ *   }
+ * });
+ * ```
+ */
+export function getSchedulerClock(
+    context: BaseAudioContext,
+    interval: number = DEFAULT_SCHEDULE_INTERVAL
+): SchedulerClock {
+    let clocks = clocksByContext.get(context);
+    if (!clocks) {
+        clocks = new Map();
+        clocksByContext.set(context, clocks);
+    }
+
+    let clock = clocks.get(interval);
+    if (!clock) {
+        clock = createSchedulerClock(context, interval);
+        clocks.set(interval, clock);
+    }
+    return clock;
+}
+
+/**
+ * Tick every scheduler clock of an audio context immediately.
+ * Used by offline rendering to advance schedulers at render boundaries.
+ */
+export function tickSchedulerClocks(context: BaseAudioContext): void {
+    clocksByContext.get(context)?.forEach((clock) => clock.tick());
+}
+
+/**
+ * Call `callback` on the first scheduler clock tick at or after `time`.
+ *
+ * Unlike a timer, the callback follows the context clock, so it lands on the
+ * same render slice every time an offline render is repeated.
+ *
+ * @returns Function cancelling the callback if it has not run yet
+ */
+export function scheduleAtContextTime(
+    context: BaseAudioContext,
+    time: number,
+    callback: () => void
+): () => void {
+    const unsubscribe = getSchedulerClock(context).subscribe((currentTime) => {
+        if (currentTime < time) return;
+        unsubscribe();
+        callback();
+    });
+    return unsubscribe;
+}
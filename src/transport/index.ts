@@ -8,6 +8,13 @@ export type {
     TransportConfig,
     TransportState,
     TransportEvents,
+    TransportTick,
+    SchedulerClock,
+    SchedulerClockListener,
+    TempoMapPoint,
+    TempoMapConfig,
+    TransportLoopRegion,
+    TransportMarker,
 } from './types';
 
 // Context & Provider
@@ -16,3 +23,7 @@ export { TransportProvider, TransportContext } from './TransportContext';
 // Hooks
 export { useTransport } from './useTransport';
 export { useBeat, useStep, useBar, usePhrase } from './useBeat';
+
+// Scheduling
+export { getSchedulerClock } from './clock';
+export { timePositionToSeconds, secondsToTimePosition } from './tempoMap';
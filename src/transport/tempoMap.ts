@@ -0,0 +1,247 @@
+import type { TempoMapConfig, TempoMapPoint, TimePosition } from './types';
+
+/**
+ * Span of the timeline with one meter and a constant or linearly ramping tempo.
+ * @internal
+ */
+export interface TempoSegment {
+    startBar: number;
+    startStep: number;
+    startTime: number;
+    /** Length in steps (`Infinity` for the last segment). */
+    length: number;
+    startBpm: number;
+    endBpm: number;
+    beatsPerBar: number;
+    beatUnit: number;
+}
+
+/**
+ * Tempo map resolved into contiguous segments.
+ * @internal
+ */
+export interface ResolvedTempoMap {
+    stepsPerBeat: number;
+    barsPerPhrase: number;
+    segments: TempoSegment[];
+}
+
+function assertPoint(point: TempoMapPoint): void {
+    if (!Number.isInteger(point.bar) || point.bar < 0) {
+        throw new Error(`Tempo map points must be at whole, non-negative bars; received bar ${point.bar}.`);
+    }
+    if (point.bpm !== undefined && !(point.bpm > 0)) {
+        throw new Error(`Tempo map bpm must be greater than 0; received ${point.bpm} at bar ${point.bar}.`);
+    }
+    if (point.beatsPerBar !== undefined && !(Number.isInteger(point.beatsPerBar) && point.beatsPerBar > 0)) {
+        throw new Error(`Tempo map beatsPerBar must be a positive integer; received ${point.beatsPerBar} at bar ${point.bar}.`);
+    }
+}
+
+function segmentDuration(segment: TempoSegment, steps: number, stepsPerBeat: number): number {
+    if (steps <= 0) return 0;
+    if (segment.startBpm === segment.endBpm) {
+        return (steps * 60) / (segment.startBpm * stepsPerBeat);
+    }
+    const slope = (segment.endBpm - segment.startBpm) / segment.length;
+    return (60 / (stepsPerBeat * slope)) * Math.log((segment.startBpm + slope * steps) / segment.startBpm);
+}
+
+function segmentSteps(segment: TempoSegment, seconds: number, stepsPerBeat: number): number {
+    if (seconds <= 0) return 0;
+    if (segment.startBpm === segment.endBpm) {
+        return (seconds * segment.startBpm * stepsPerBeat) / 60;
+    }
+    const slope = (segment.endBpm - segment.startBpm) / segment.length;
+    return (segment.startBpm / slope) * (Math.exp((seconds * stepsPerBeat * slope) / 60) - 1);
+}
+
+function findSegment<K extends 'startStep' | 'startTime' | 'startBar'>(
+    map: ResolvedTempoMap,
+    key: K,
+    value: number
+): TempoSegment {
+    let found = map.segments[0];
+    for (const segment of map.segments) {
+        if (segment[key] > value) break;
+        found = segment;
+    }
+    return found;
+}
+
+/**
+ * Resolve transport settings and their tempo map into timeline segments.
+ * Points are applied in bar order; a point with `ramp: 'linear'` reaches its
+ * `bpm` at its bar, ramping from the tempo of the previous point.
+ * @internal
+ */
+export function resolveTempoMap(config: TempoMapConfig = {}): ResolvedTempoMap {
+    const bpm = config.bpm ?? 120;
+    const beatsPerBar = config.beatsPerBar ?? 4;
+    const beatUnit = config.beatUnit ?? 4;
+    const stepsPerBeat = config.stepsPerBeat ?? 4;
+    const barsPerPhrase = config.barsPerPhrase ?? 4;
+    const points = config.tempoMap ?? [];
+
+    points.forEach(assertPoint);
+    const sorted = [...points].sort((a, b) => a.bar - b.bar);
+
+    // Merge points sharing a bar, later entries winning
+    const merged: TempoMapPoint[] = [];
+    sorted.forEach((point) => {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.bar === point.bar) {
+            merged[merged.length - 1] = { ...previous, ...point };
+        } else {
+            merged.push({ ...point });
+        }
+    });
+    if (merged.length === 0 || merged[0].bar > 0) {
+        merged.unshift({ bar: 0 });
+    }
+
+    const segments: TempoSegment[] = [];
+    let tempo = bpm;
+    let meter = { beatsPerBar, beatUnit };
+    let startStep = 0;
+    let startTime = 0;
+
+    merged.forEach((point, index) => {
+        if (point.bpm !== undefined) tempo = point.bpm;
+        meter = {
+            beatsPerBar: point.beatsPerBar ?? meter.beatsPerBar,
+            beatUnit: point.beatUnit ?? meter.beatUnit,
+        };
+
+        const next = merged[index + 1];
+        const length = next
+            ? (next.bar - point.bar) * meter.beatsPerBar * stepsPerBeat
+            : Infinity;
+        const endBpm = next?.ramp === 'linear' && next.bpm !== undefined ? next.bpm : tempo;
+
+        const segment: TempoSegment = {
+            startBar: point.bar,
+            startStep,
+            startTime,
+            length,
+            startBpm: tempo,
+            endBpm,
+            beatsPerBar: meter.beatsPerBar,
+            beatUnit: meter.beatUnit,
+        };
+        segments.push(segment);
+
+        if (next) {
+            startTime += segmentDuration(segment, length, stepsPerBeat);
+            startStep += length;
+        }
+    });
+
+    return { stepsPerBeat, barsPerPhrase, segments };
+}
+
+/**
+ * Seconds from the start of the timeline to a (fractional) step index.
+ * @internal
+ */
+export function getSecondsAtStep(map: ResolvedTempoMap, step: number): number {
+    const segment = findSegment(map, 'startStep', step);
+    return segment.startTime + segmentDuration(segment, step - segment.startStep, map.stepsPerBeat);
+}
+
+/**
+ * Fractional step index reached after a number of seconds.
+ * @internal
+ */
+export function getStepAtSeconds(map: ResolvedTempoMap, seconds: number): number {
+    const segment = findSegment(map, 'startTime', seconds);
+    return segment.startStep + segmentSteps(segment, seconds - segment.startTime, map.stepsPerBeat);
+}
+
+/**
+ * Tempo and meter in effect at a step index.
+ * @internal
+ */
+export function getTempoAtStep(map: ResolvedTempoMap, step: number): { bpm: number; beatsPerBar: number; beatUnit: number } {
+    const segment = findSegment(map, 'startStep', step);
+    const progress = Number.isFinite(segment.length)
+        ? Math.min(1, Math.max(0, (step - segment.startStep) / segment.length))
+        : 0;
+    return {
+        bpm: segment.startBpm + (segment.endBpm - segment.startBpm) * progress,
+        beatsPerBar: segment.beatsPerBar,
+        beatUnit: segment.beatUnit,
+    };
+}
+
+/**
+ * Musical position of a step index, honoring meter changes.
+ * @internal
+ */
+export function getPositionAtStep(map: ResolvedTempoMap, totalSteps: number): TimePosition {
+    const step = Math.max(0, Math.floor(totalSteps));
+    const segment = findSegment(map, 'startStep', step);
+    const stepsPerBar = segment.beatsPerBar * map.stepsPerBeat;
+    const stepsIntoSegment = step - segment.startStep;
+    const absoluteBar = segment.startBar + Math.floor(stepsIntoSegment / stepsPerBar);
+    const stepsInBar = stepsIntoSegment % stepsPerBar;
+
+    return {
+        step: stepsInBar % map.stepsPerBeat,
+        beat: Math.floor(stepsInBar / map.stepsPerBeat),
+        bar: absoluteBar % map.barsPerPhrase,
+        phrase: Math.floor(absoluteBar / map.barsPerPhrase),
+        totalSteps: step,
+        totalTime: getSecondsAtStep(map, step),
+    };
+}
+
+/**
+ * Step index of a musical position. `totalSteps` wins when provided.
+ * @internal
+ */
+export function getStepAtPosition(map: ResolvedTempoMap, position: Partial<TimePosition>): number {
+    if (position.totalSteps !== undefined) return position.totalSteps;
+
+    const absoluteBar = (position.phrase ?? 0) * map.barsPerPhrase + (position.bar ?? 0);
+    const barStart = Math.floor(absoluteBar);
+    const segment = findSegment(map, 'startBar', barStart);
+    const stepsPerBar = segment.beatsPerBar * map.stepsPerBeat;
+
+    return segment.startStep
+        + (absoluteBar - segment.startBar) * stepsPerBar
+        + (position.beat ?? 0) * map.stepsPerBeat
+        + (position.step ?? 0);
+}
+
+/**
+ * Convert a musical position to seconds from the start of the timeline,
+ * following the tempo map (ramps and meter changes included).
+ *
+ * Unspecified position fields default to 0; `bar` counts within `phrase`.
+ *
+ * @example
+ * ```ts
+ * const config = { bpm: 120, tempoMap: [{ bar: 8, bpm: 140, ramp: 'linear' }] };
+ * timePositionToSeconds({ phrase: 2, bar: 0 }, config); // start of bar 8
+ * ```
+ */
+export function timePositionToSeconds(position: Partial<TimePosition>, config: TempoMapConfig = {}): number {
+    const map = resolveTempoMap(config);
+    return getSecondsAtStep(map, getStepAtPosition(map, position));
+}
+
+/**
+ * Convert seconds from the start of the timeline to the musical position
+ * of the step playing at that time, following the tempo map.
+ *
+ * @example
+ * ```ts
+ * secondsToTimePosition(2, { bpm: 120 }); // { phrase: 0, bar: 1, beat: 0, step: 0, ... }
+ * ```
+ */
+export function secondsToTimePosition(seconds: number, config: TempoMapConfig = {}): TimePosition {
+    const map = resolveTempoMap(config);
+    // Nudge against float error so exact step boundaries land on the step itself
+    return getPositionAtStep(map, getStepAtSeconds(map, Math.max(0, seconds)) + 1e-9);
+}
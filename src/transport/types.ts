@@ -41,6 +41,92 @@ export interface TimePosition {
     totalTime: number;
 }
 
+// =============================================================================
+// Tempo Map
+// =============================================================================
+
+/**
+ * A tempo and/or time-signature change placed at a bar.
+ *
+ * @example
+ * ```ts
+ * const tempoMap: TempoMapPoint[] = [
+ *   { bar: 8, bpm: 140, ramp: 'linear' }, // accelerate from bar 0 to bar 8
+ *   { bar: 16, beatsPerBar: 3 },          // switch to 3/4 at bar 16
+ * ];
+ * ```
+ */
+export interface TempoMapPoint {
+    /**
+     * Absolute bar index (0-indexed, across phrases) where the change applies.
+     */
+    bar: number;
+
+    /**
+     * Tempo from this bar on. Keeps the previous tempo if omitted.
+     */
+    bpm?: number;
+
+    /**
+     * How the tempo reaches `bpm`.
+     * 'linear' = ramps from the previous point, arriving at `bpm` on this bar
+     * Omitted = jumps to `bpm` on this bar
+     */
+    ramp?: 'linear';
+
+    /**
+     * Time signature numerator from this bar on.
+     */
+    beatsPerBar?: number;
+
+    /**
+     * Time signature denominator from this bar on.
+     */
+    beatUnit?: number;
+}
+
+// =============================================================================
+// Loop Region & Markers
+// =============================================================================
+
+/**
+ * Range the transport repeats while playing.
+ * `end` is exclusive: `{ start: { bar: 4 }, end: { bar: 8 } }` loops the
+ * fifth to eighth bars.
+ */
+export interface TransportLoopRegion {
+    /**
+     * First position of the loop.
+     */
+    start: Partial<TimePosition>;
+
+    /**
+     * Position where playback wraps back to `start`.
+     */
+    end: Partial<TimePosition>;
+
+    /**
+     * Whether the loop is active.
+     * @default true
+     */
+    enabled?: boolean;
+}
+
+/**
+ * Named cue point on the timeline.
+ */
+export interface TransportMarker {
+    /**
+     * Unique marker name, usable with `seek(name)`.
+     */
+    name: string;
+
+    /**
+     * Position of the marker.
+     */
+    position: Partial<TimePosition>;
+}
+
 // =============================================================================
 // Transport Configuration
 // =============================================================================
@@ -94,15 +180,85 @@ export interface TransportConfig {
      */
     swingSubdivision?: number;
 
+    /**
+     * Tempo and time-signature changes the transport follows while playing.
+     * `bpm`, `beatsPerBar` and `beatUnit` apply until the first point.
+     */
+    tempoMap?: TempoMapPoint[];
+
+    /**
+     * Loop region applied while the playhead is inside it.
+     */
+    loopRegion?: TransportLoopRegion | null;
+
+    /**
+     * Named cue points reported through `onMarker`.
+     */
+    markers?: TransportMarker[];
+
     /**
      * Transport mode.
-     * 'raf' = uses internal requestAnimationFrame loop
+     * 'raf' = advances on the shared lookahead scheduler clock
      * 'manual' = requires calling update() from external loop
      * @default 'raf'
      */
     mode?: 'raf' | 'manual';
 }
 
+// =============================================================================
+// Scheduler Clock
+// =============================================================================
+
+/**
+ * Listener called on every scheduler clock tick with the context time.
+ */
+export type SchedulerClockListener = (currentTime: number) => void;
+
+/**
+ * Shared lookahead clock that drives transports and sequencers.
+ */
+export interface SchedulerClock {
+    /**
+     * Tick interval in milliseconds.
+     */
+    readonly interval: number;
+
+    /**
+     * Register a listener, called on every tick.
+     * @returns Unsubscribe function
+     */
+    subscribe: (listener: SchedulerClockListener) => () => void;
+
+    /**
+     * Call every listener now, outside the regular interval.
+     */
+    tick: () => void;
+}
+
+/**
+ * A step scheduled by the transport ahead of playback.
+ */
+export interface TransportTick extends TimePosition {
+    /**
+     * AudioContext time of the step, swing included.
+     */
+    time: number;
+
+    /**
+     * Time in seconds until the following step.
+     */
+    duration: number;
+}
+
+/**
+ * Transport settings a tempo map is resolved against.
+ * Omitted values use the transport defaults.
+ */
+export type TempoMapConfig = Partial<Pick<
+    TransportConfig,
+    'bpm' | 'beatsPerBar' | 'beatUnit' | 'barsPerPhrase' | 'stepsPerBeat' | 'tempoMap'
+>>;
+
 // =============================================================================
 // Transport State
 // =============================================================================
@@ -117,10 +273,15 @@ export interface TransportState extends TimePosition {
     isPlaying: boolean;
 
     /**
-     * Current tempo in BPM.
+     * Current tempo in BPM, following the tempo map at the playhead.
      */
     bpm: number;
 
+    /**
+     * Current time signature numerator, following the tempo map.
+     */
+    beatsPerBar: number;
+
     /**
      * Duration of one step in seconds.
      */
@@ -141,6 +302,29 @@ export interface TransportState extends TimePosition {
      */
     phraseDuration: number;
 
+    /**
+     * Current swing amount (0-1).
+     */
+    swing: number;
+
+    /**
+     * Subscribe to steps as they are scheduled, ahead of playback.
+     * @returns Unsubscribe function
+     */
+    subscribe: (callback: (tick: TransportTick) => void) => () => void;
+
+    /**
+     * Convert a musical position to seconds from the transport start,
+     * following the tempo map.
+     */
+    positionToSeconds: (position: Partial<TimePosition>) => number;
+
+    /**
+     * Convert seconds from the transport start to a musical position,
+     * following the tempo map.
+     */
+    secondsToPosition: (seconds: number) => TimePosition;
+
     /**
      * Start playback from current position.
      */
@@ -157,13 +341,40 @@ export interface TransportState extends TimePosition {
     pause: () => void;
 
     /**
-     * Jump to a specific position.
-     * @param position - Partial position (unspecified values default to 0)
+     * Jump to a specific position or to a marker by name.
+     * @param position - Partial position (unspecified values keep the current ones), `{ totalSteps }`, or marker name
+     * @throws Error if no marker has the given name
+     */
+    seek: (position: Partial<TimePosition> | string) => void;
+
+    /**
+     * Active loop region, or `null` when none is set.
+     */
+    loopRegion: TransportLoopRegion | null;
+
+    /**
+     * Named cue points on the timeline.
      */
-    seek: (position: Partial<TimePosition>) => void;
+    markers: TransportMarker[];
+
+    /**
+     * Set or clear the loop region.
+     */
+    setLoopRegion: (region: TransportLoopRegion | null) => void;
+
+    /**
+     * Add a marker, or move the marker with the same name.
+     */
+    setMarker: (name: string, position: Partial<TimePosition>) => void;
+
+    /**
+     * Remove a marker by name.
+     */
+    removeMarker: (name: string) => void;
 
     /**
      * Set the tempo.
+     * Tempo map points still take over from their bar on.
      * @param bpm - New tempo in beats per minute
      */
     setTempo: (bpm: number) => void;
@@ -240,6 +451,17 @@ export interface TransportEvents {
      */
     onPhrase?: (phrase: number, time: number) => void;
 
+    /**
+     * Fired when the playhead wraps from the loop end back to its start,
+     * with the time the loop start plays.
+     */
+    onLoop?: (time: number) => void;
+
+    /**
+     * Fired when a step on a marker is scheduled.
+     */
+    onMarker?: (name: string, time: number) => void;
+
     /**
      * Fired when playback starts.
      */
@@ -0,0 +1,29 @@
+function chunk(type: string, body: number[]): number[] {
+    const length = body.length;
+    return [
+        ...Array.from(type, (char) => char.charCodeAt(0)),
+        (length >>> 24) & 0xff,
+        (length >>> 16) & 0xff,
+        (length >>> 8) & 0xff,
+        length & 0xff,
+        ...body,
+    ];
+}
+
+/**
+ * Build Standard MIDI File bytes from raw track event bodies (delta times included).
+ */
+export function buildMidiFileBytes(tracks: number[][], options: { format?: 0 | 1; ticksPerQuarter?: number } = {}): Uint8Array {
+    const format = options.format ?? (tracks.length > 1 ? 1 : 0);
+    const ticksPerQuarter = options.ticksPerQuarter ?? 96;
+    const header = chunk('MThd', [
+        0x00, format,
+        (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+        (ticksPerQuarter >> 8) & 0xff, ticksPerQuarter & 0xff,
+    ]);
+
+    return new Uint8Array([
+        ...header,
+        ...tracks.flatMap((events) => chunk('MTrk', [...events, 0x00, 0xff, 0x2f, 0x00])),
+    ]);
+}
@@ -37,6 +37,10 @@ export class MockAudioParam {
         this.value = value;
     }
 
+    setValueCurveAtTime(values: ArrayLike<number>) {
+        this.value = values[values.length - 1] ?? this.value;
+    }
+
     cancelScheduledValues() {}
 }
 
@@ -126,6 +130,11 @@ class MockAnalyserNode extends MockAudioNode {
         if (!array) return;
         array.fill(128);
     }
+
+    getFloatTimeDomainData(array: Float32Array) {
+        if (!array) return;
+        array.fill(0);
+    }
 }
 
 class MockGainNode extends MockAudioNode {
@@ -273,6 +282,47 @@ export class MockAudioContext extends MockEventTarget {
     }
 }
 
+export class MockOfflineAudioContext extends MockAudioContext {
+    length: number;
+    numberOfChannels: number;
+    private suspensions: Array<{ time: number; resolve: () => void }> = [];
+    private resumeWaiter: (() => void) | null = null;
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        super();
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.resume = async () => {
+            this.state = 'running';
+            this.resumeWaiter?.();
+            this.resumeWaiter = null;
+        };
+    }
+
+    suspend(time: number) {
+        return new Promise<void>((resolve) => {
+            this.suspensions.push({ time, resolve });
+        });
+    }
+
+    async startRendering() {
+        this.state = 'running';
+        const suspensions = [...this.suspensions].sort((a, b) => a.time - b.time);
+        for (const suspension of suspensions) {
+            this.currentTime = suspension.time;
+            this.state = 'suspended';
+            const resumed = new Promise<void>((resolve) => {
+                this.resumeWaiter = resolve;
+            });
+            suspension.resolve();
+            await resumed;
+        }
+        this.currentTime = this.length / this.sampleRate;
+        return new MockAudioBuffer(this.numberOfChannels, this.length, this.sampleRate);
+    }
+}
+
 export const installMockWebAudio = () => {
     if (typeof window !== 'undefined') {
         Object.defineProperty(window, 'AudioContext', {
@@ -289,6 +339,10 @@ export const installMockWebAudio = () => {
         configurable: true,
         value: MockAudioContext,
     });
+    Object.defineProperty(globalThis, 'OfflineAudioContext', {
+        configurable: true,
+        value: MockOfflineAudioContext,
+    });
     Object.defineProperty(globalThis, 'AudioBuffer', {
         configurable: true,
         value: MockAudioBuffer,
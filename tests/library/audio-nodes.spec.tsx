@@ -1,20 +1,34 @@
-import { render, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React, { createRef } from 'react';
 import {
     ADSR,
+    AMSynth,
     AudioProvider,
     AuxSend,
     Compressor,
+    Convolver,
     Delay,
+    DrumSynth,
+    EventTrigger,
     Filter,
+    FMSynth,
     Gain,
+    MonoSynth,
+    NoiseSynth,
     Osc,
     Panner,
+    PolyVoice,
     PresetWaveShaper,
     StereoPanner,
+    Synth,
     WaveShaper,
+    WavetableOsc,
+    getWavetableCoefficients,
+    preloadAssets,
     useLFO,
+    type PolyVoiceProps,
 } from '@open-din/react';
+import { MockAudioContext, MockAudioNode } from '../helpers/mockWebAudio';
 
 const FilterHarness = () => {
     const lfo = useLFO({ rate: 0.5, depth: 24, waveform: 'sine' });
@@ -40,6 +54,14 @@ const FilterHarness = () => {
     );
 };
 
+const renderVoiceProbe: PolyVoiceProps['children'] = ({ gate, frequency }) => (
+    <span data-testid="voice">{`${gate ? 'on' : 'off'}:${Math.round(frequency)}`}</span>
+);
+
+function getVoiceStates() {
+    return screen.getAllByTestId('voice').map((element) => element.textContent);
+}
+
 describe('library audio node components', () => {
     it('wires a representative graph and auto-starts oscillators', async () => {
         const oscRef = createRef<OscillatorNode>();
@@ -63,4 +85,200 @@ describe('library audio node components', () => {
             expect(document.querySelectorAll('*').length).toBeGreaterThan(0);
         });
     });
+
+    it('connects modulation signals to params around their base value', async () => {
+        const signal = new MockAudioNode();
+        const gainRef = createRef<GainNode>();
+
+        const { unmount } = render(
+            <AudioProvider>
+                <Gain gain={{ node: signal as unknown as AudioNode, __modulationSignal: true }} gainBase={0.25} nodeRef={gainRef}>
+                    <Osc autoStart />
+                </Gain>
+            </AudioProvider>
+        );
+
+        await waitFor(() => expect(gainRef.current).not.toBeNull());
+        expect(signal.connections).toContain(gainRef.current!.gain);
+        expect(gainRef.current!.gain.value).toBe(0.25);
+
+        unmount();
+        expect(signal.connections).not.toContain(gainRef.current?.gain);
+    });
+
+    it('routes synth outputs into the parent audio node', async () => {
+        const connect = vi.spyOn(MockAudioNode.prototype, 'connect');
+        const gainRef = createRef<AudioNode>();
+
+        const renderSynths = (token: number) => (
+            <AudioProvider>
+                <Gain gain={0.5} nodeRef={gainRef}>
+                    <EventTrigger token={token} note={48}>
+                        <Synth notes={['C3']} />
+                        <MonoSynth />
+                        <FMSynth />
+                        <AMSynth />
+                        <NoiseSynth />
+                        <DrumSynth oscillators={[{ type: 'sine', frequency: 60 }]} />
+                    </EventTrigger>
+                </Gain>
+            </AudioProvider>
+        );
+
+        const { rerender } = render(renderSynths(0));
+        fireEvent.click(document);
+        rerender(renderSynths(1));
+
+        await waitFor(() => {
+            const intoGain = connect.mock.calls.filter(([target]) => target === gainRef.current);
+            expect(intoGain.length).toBeGreaterThanOrEqual(6);
+        });
+
+        const intoDestination = connect.mock.calls.filter(([target]) => (target as object).constructor === MockAudioNode);
+        expect(intoDestination).toHaveLength(1);
+
+        connect.mockRestore();
+    });
+
+    it('allocates free voices first, steals by policy and releases on note-off', async () => {
+        const renderPoly = (token: number, note: number, heldNotes: number[]) => (
+            <AudioProvider>
+                <EventTrigger token={token} note={note} duration={0}>
+                    <PolyVoice voices={2} steal="lowest" heldNotes={heldNotes}>
+                        {renderVoiceProbe}
+                    </PolyVoice>
+                </EventTrigger>
+            </AudioProvider>
+        );
+
+        const { rerender } = render(renderPoly(0, 60, []));
+        fireEvent.click(document);
+
+        rerender(renderPoly(1, 60, [60]));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:262', 'off:440']));
+
+        rerender(renderPoly(2, 64, [60, 64]));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:262', 'on:330']));
+
+        // Every voice is held: the lowest note gives its voice up
+        rerender(renderPoly(3, 67, [60, 64, 67]));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:392', 'on:330']));
+
+        rerender(renderPoly(3, 67, [67]));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:392', 'off:330']));
+
+        // The released voice is reused before the held one is stolen
+        rerender(renderPoly(4, 72, [67, 72]));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:392', 'on:523']));
+    });
+
+    it('keeps voices whose trigger arrives before heldNotes updates', async () => {
+        const renderPoly = (token: number, heldNotes: number[]) => (
+            <AudioProvider>
+                <EventTrigger token={token} note={60} duration={0}>
+                    <PolyVoice voices={2} heldNotes={heldNotes}>
+                        {renderVoiceProbe}
+                    </PolyVoice>
+                </EventTrigger>
+            </AudioProvider>
+        );
+
+        const { rerender } = render(renderPoly(0, []));
+        fireEvent.click(document);
+
+        rerender(renderPoly(1, []));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:262', 'off:440']));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(getVoiceStates()).toEqual(['on:262', 'off:440']);
+
+        rerender(renderPoly(1, [60]));
+        expect(getVoiceStates()).toEqual(['on:262', 'off:440']);
+
+        rerender(renderPoly(1, []));
+        await waitFor(() => expect(getVoiceStates()).toEqual(['off:262', 'off:440']));
+    });
+
+    it('spreads unison voices across the detune range and releases after the trigger duration', async () => {
+        const context = new MockAudioContext();
+        const renderPoly = (token: number) => (
+            <AudioProvider context={context as unknown as AudioContext}>
+                <EventTrigger token={token} note={69} duration={0.05}>
+                    <PolyVoice voices={4} unison={2} detune={20}>
+                        {renderVoiceProbe}
+                    </PolyVoice>
+                </EventTrigger>
+            </AudioProvider>
+        );
+
+        const { rerender } = render(renderPoly(0));
+        fireEvent.click(document);
+        rerender(renderPoly(1));
+
+        await waitFor(() => expect(getVoiceStates()).toEqual(['on:437', 'on:443', 'off:440', 'off:440']));
+
+        // Releases follow the context clock, not the wall clock
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(getVoiceStates()).toEqual(['on:437', 'on:443', 'off:440', 'off:440']);
+
+        context.currentTime = 0.05;
+        await waitFor(() => expect(getVoiceStates()).toEqual(['off:437', 'off:443', 'off:440', 'off:440']));
+    });
+
+    it('builds wavetable frames and crossfades them from the table position', async () => {
+        const cycle = Array.from({ length: 64 }, (_, index) => Math.sin((2 * Math.PI * index) / 64));
+        const analyzed = getWavetableCoefficients({ samples: cycle, harmonics: 4 });
+        expect(analyzed.imag[1]).toBeCloseTo(1, 5);
+        expect(Array.from(analyzed.imag.slice(2)).every((value) => Math.abs(value) < 1e-6)).toBe(true);
+        expect(Array.from(getWavetableCoefficients([1, 0.5]).imag)).toEqual([0, 1, 0.5]);
+        expect(() => getWavetableCoefficients({ real: [0, 1], imag: [0] })).toThrow('same length');
+
+        const createPeriodicWave = vi.spyOn(MockAudioContext.prototype, 'createPeriodicWave');
+        const createConstantSource = vi.spyOn(MockAudioContext.prototype, 'createConstantSource');
+        const createOscillator = vi.spyOn(MockAudioContext.prototype, 'createOscillator');
+        const createWaveShaper = vi.spyOn(MockAudioContext.prototype, 'createWaveShaper');
+        const tables = [[1], [1, 0.5, 0.33]];
+
+        render(
+            <AudioProvider>
+                <WavetableOsc tables={tables} position={0.25} frequency={110} autoStart />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(createPeriodicWave).toHaveBeenCalledTimes(2);
+            const [frequency, detune, position, bias] = createConstantSource.mock.results.map(
+                (result) => (result.value as ConstantSourceNode).offset.value
+            );
+            expect([frequency, detune, position, bias]).toEqual([110, 0, 0.25, -1]);
+        });
+
+        const oscillators = createOscillator.mock.results.map((result) => result.value as OscillatorNode & { started: boolean });
+        expect(oscillators.map((oscillator) => oscillator.started)).toEqual([true, true]);
+        const curves = createWaveShaper.mock.results.map((result) => (result.value as WaveShaperNode).curve as Float32Array);
+        expect([curves[0][0], curves[0][512], curves[0][1024]]).toEqual([1, 0.5, 0]);
+        expect([curves[1][0], curves[1][512], curves[1][1024]]).toEqual([0, 0.5, 1]);
+
+        vi.restoreAllMocks();
+    });
+
+    it('loads convolver impulses from the preloaded asset cache', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new ArrayBuffer(16) });
+        vi.stubGlobal('fetch', fetchMock);
+        const context = new MockAudioContext();
+        const [impulse] = await preloadAssets(context as unknown as AudioContext, ['/impulses/hall.wav']);
+        const onLoad = vi.fn();
+
+        render(
+            <AudioProvider context={context as unknown as BaseAudioContext}>
+                <Convolver impulse="/impulses/hall.wav" onLoad={onLoad} />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(onLoad).toHaveBeenCalledWith(impulse);
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        vi.unstubAllGlobals();
+    });
 });
@@ -1,6 +1,20 @@
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
-import { AudioProvider, useAudio } from '@open-din/react';
+import { afterEach } from 'vitest';
+import {
+    AudioProvider,
+    getAudioAssetManager,
+    preloadAssets,
+    useAudio,
+    useAudioAsset,
+    type AudioAssetProgress,
+} from '@open-din/react';
+import { MockAudioContext, MockOfflineAudioContext } from '../helpers/mockWebAudio';
+
+afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+});
 
 function AudioProbe() {
     const audio = useAudio();
@@ -33,4 +47,95 @@ describe('AudioProvider', () => {
             expect(screen.getByTestId('unlocked')).toHaveTextContent('true');
         });
     });
+
+    it('adopts a caller-owned context as unlocked and leaves it open on unmount', async () => {
+        const offline = new MockOfflineAudioContext(2, 44100, 44100);
+        const onUnlock = vi.fn();
+
+        const { unmount } = render(
+            <AudioProvider context={offline as unknown as BaseAudioContext} onUnlock={onUnlock}>
+                <AudioProbe />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('unlocked')).toHaveTextContent('true');
+        });
+        expect(onUnlock).toHaveBeenCalledTimes(1);
+
+        unmount();
+        expect(offline.state).not.toBe('closed');
+    });
+});
+
+function AssetProbe({ src }: { src: string }) {
+    const asset = useAudioAsset(src);
+    return (
+        <div>
+            <span data-testid="asset-status">{asset.status}</span>
+            <span data-testid="asset-duration">{asset.buffer ? asset.buffer.duration : ''}</span>
+            <span data-testid="asset-error">{asset.error?.message ?? ''}</span>
+        </div>
+    );
+}
+
+describe('audio assets', () => {
+    it('dedupes loads per context and reports progress', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new ArrayBuffer(16) });
+        vi.stubGlobal('fetch', fetchMock);
+        const context = new MockAudioContext() as unknown as AudioContext;
+        const events: AudioAssetProgress[] = [];
+        const progress: string[] = [];
+        getAudioAssetManager(context).subscribe((event) => events.push(event));
+
+        const buffers = await preloadAssets(context, ['/kick.wav', '/snare.wav', '/kick.wav'], {
+            onProgress: ({ url, status, completed, total }) => progress.push(`${status}:${url}:${completed}/${total}`),
+        });
+        await getAudioAssetManager(context).load('/kick.wav');
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(buffers[0]).toBe(buffers[2]);
+        expect(getAudioAssetManager(context).get('/snare.wav').status).toBe('loaded');
+        expect(progress).toEqual([
+            'loading:/kick.wav:0/2',
+            'loading:/snare.wav:0/2',
+            'loaded:/kick.wav:1/2',
+            'loaded:/snare.wav:2/2',
+        ]);
+        expect(events[events.length - 1]).toMatchObject({ url: '/snare.wav', status: 'loaded', completed: 2, total: 2 });
+
+        await getAudioAssetManager(new MockAudioContext() as unknown as AudioContext).load('/kick.wav');
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('exposes loading and error states through useAudioAsset', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async (url: string) => (
+            url === '/missing.wav'
+                ? { ok: false, status: 404, statusText: 'Not Found' }
+                : { ok: true, arrayBuffer: async () => new ArrayBuffer(16) }
+        )));
+        const context = new MockAudioContext();
+
+        const { rerender } = render(
+            <AudioProvider context={context as unknown as BaseAudioContext}>
+                <AssetProbe src="/pad.wav" />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('asset-status')).toHaveTextContent('loaded');
+        });
+        expect(screen.getByTestId('asset-duration')).toHaveTextContent('1');
+
+        rerender(
+            <AudioProvider context={context as unknown as BaseAudioContext}>
+                <AssetProbe src="/missing.wav" />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('asset-status')).toHaveTextContent('error');
+        });
+        expect(screen.getByTestId('asset-error')).toHaveTextContent('Failed to load asset "/missing.wav" (404 Not Found).');
+    });
 });
@@ -4,16 +4,34 @@ import { afterEach } from 'vitest';
 import {
     AudioProvider,
     createMidiRuntime,
+    createVirtualMidiBackend,
     MidiCCOutput,
+    MidiFilePlayer,
+    MidiLearnProvider,
     MidiNoteOutput,
     MidiProvider,
     MidiTransportSync,
+    parseMidiFile,
+    parseMidiLearnMap,
+    patternsToMidiFile,
+    renderOffline,
     TransportProvider,
     useMidi,
+    useMidiAftertouch,
     useMidiCC,
+    useMidiLearnValue,
     useMidiNote,
+    useMidiPitchBend,
+    useMidiProgram,
+    useMidiRecorder,
+    useMidiSysex,
+    useMpeNotes,
+    useAudio,
+    useOnTrigger,
     useTransport,
 } from '@open-din/react';
+import { buildMidiFileBytes } from '../helpers/midiFile';
+import { MockAudioContext } from '../helpers/mockWebAudio';
 
 afterEach(() => {
     cleanup();
@@ -120,13 +138,52 @@ function MidiCCProbe() {
     );
 }
 
+function MidiExpressionProbe() {
+    const bend = useMidiPitchBend({ channel: 1 });
+    const pressure = useMidiAftertouch();
+    const keyPressure = useMidiAftertouch({ note: 60 });
+    const program = useMidiProgram();
+    return (
+        <div>
+            <span data-testid="bend-raw">{bend.raw}</span>
+            <span data-testid="bend-value">{bend.value.toFixed(2)}</span>
+            <span data-testid="pressure-raw">{pressure.raw}</span>
+            <span data-testid="key-pressure-raw">{keyPressure.raw}</span>
+            <span data-testid="program">{program.program ?? 'none'}</span>
+            <span data-testid="program-token">{program.changeToken}</span>
+        </div>
+    );
+}
+
+function MpeVoiceProbe() {
+    const { voices, zones } = useMpeNotes({ voices: 2 });
+    return (
+        <div>
+            <span data-testid="mpe-members">{zones.lower?.memberChannels.join(',') ?? 'none'}</span>
+            {voices.map((voice) => (
+                <span key={voice.index} data-testid={`mpe-voice-${voice.index}`}>
+                    {[
+                        voice.gate ? 'on' : 'off',
+                        voice.note ?? '-',
+                        voice.pitchBend.toFixed(1),
+                        voice.pressure.toFixed(2),
+                        voice.timbre.toFixed(2),
+                    ].join('|')}
+                </span>
+            ))}
+        </div>
+    );
+}
+
 function TransportProbe() {
     const transport = useTransport();
     return (
         <div>
             <button type="button" onClick={transport.play}>play</button>
             <button type="button" onClick={transport.stop}>stop</button>
+            <button type="button" onClick={() => transport.seek({ totalSteps: 32 })}>seek</button>
             <span data-testid="transport-running">{transport.isPlaying ? 'running' : 'idle'}</span>
+            <span data-testid="transport-steps">{transport.totalSteps}</span>
             <span data-testid="transport-bpm">{transport.bpm.toFixed(1)}</span>
         </div>
     );
@@ -193,6 +250,130 @@ describe('midi components and hooks', () => {
         });
     });
 
+    it('tracks pitch bend, aftertouch, and program change messages', async () => {
+        const access = new MockMIDIAccess();
+        const input = new MockMIDIInput('in-a', 'Keyboard');
+        access.setInputs([input]);
+        installMidiAccess(access);
+        const runtime = createMidiRuntime();
+
+        render(
+            <MidiProvider runtime={runtime} requestOnMount>
+                <MidiStateProbe />
+                <MidiExpressionProbe />
+            </MidiProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('midi-status')).toHaveTextContent('granted');
+        });
+        expect(screen.getByTestId('bend-raw')).toHaveTextContent('8192');
+        expect(screen.getByTestId('program')).toHaveTextContent('none');
+
+        act(() => {
+            input.emit([0xE0, 0x7F, 0x7F]);
+            input.emit([0xD0, 100]);
+            input.emit([0x90, 60, 96]);
+            input.emit([0xA0, 60, 42]);
+            input.emit([0xC0, 12]);
+        });
+
+        await waitFor(() => {
+            expect(screen.getByTestId('bend-raw')).toHaveTextContent('16383');
+            expect(screen.getByTestId('bend-value')).toHaveTextContent('1.00');
+            expect(screen.getByTestId('pressure-raw')).toHaveTextContent('100');
+            expect(screen.getByTestId('key-pressure-raw')).toHaveTextContent('42');
+            expect(screen.getByTestId('program')).toHaveTextContent('12');
+            expect(screen.getByTestId('program-token')).toHaveTextContent('1');
+        });
+        expect(runtime.getSnapshot().lastInputEvent?.kind).toBe('programchange');
+
+        act(() => {
+            input.emit([0xE0, 0x00, 0x00]);
+            input.emit([0x80, 60, 0]);
+        });
+
+        await waitFor(() => {
+            expect(screen.getByTestId('bend-value')).toHaveTextContent('-1.00');
+            expect(screen.getByTestId('key-pressure-raw')).toHaveTextContent('0');
+            expect(screen.getByTestId('pressure-raw')).toHaveTextContent('100');
+        });
+    });
+
+    it('tracks per-note MPE expression on stable voice slots', async () => {
+        const access = new MockMIDIAccess();
+        const input = new MockMIDIInput('in-a', 'Seaboard');
+        access.setInputs([input]);
+        installMidiAccess(access);
+        const runtime = createMidiRuntime();
+
+        render(
+            <MidiProvider runtime={runtime} requestOnMount mpe={{ lower: { memberChannels: 3 } }}>
+                <MidiStateProbe />
+                <MpeVoiceProbe />
+            </MidiProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('midi-status')).toHaveTextContent('granted');
+        });
+        expect(screen.getByTestId('mpe-members')).toHaveTextContent('2,3,4');
+
+        act(() => {
+            input.emit([0x91, 60, 100]);
+            input.emit([0x92, 64, 100]);
+            input.emit([0xE1, 0x00, 0x50]);
+            input.emit([0xD2, 127]);
+            input.emit([0xB2, 74, 0]);
+        });
+
+        await waitFor(() => {
+            expect(screen.getByTestId('mpe-voice-0')).toHaveTextContent('on|60|12.0|0.00|0.50');
+            expect(screen.getByTestId('mpe-voice-1')).toHaveTextContent('on|64|0.0|1.00|0.00');
+        });
+
+        act(() => {
+            input.emit([0xE0, 0x7F, 0x7F]);
+            input.emit([0x81, 60, 0]);
+            input.emit([0x93, 67, 100]);
+        });
+
+        await waitFor(() => {
+            expect(screen.getByTestId('mpe-voice-0')).toHaveTextContent('on|67|2.0|0.00|0.50');
+            expect(screen.getByTestId('mpe-voice-1')).toHaveTextContent('on|64|2.0|1.00|0.00');
+        });
+
+        const [state] = Array.from(runtime.getSnapshot().activeNotes.values()).filter((entry) => entry.note === 64);
+        expect(state.zone).toBe('lower');
+        expect(state.expression.pitchBend).toBeCloseTo(2);
+    });
+
+    it('sends pitch bend, aftertouch, and program change messages', async () => {
+        const access = new MockMIDIAccess();
+        const output = new MockMIDIOutput('out-a', 'Synth');
+        access.setOutputs([output]);
+        installMidiAccess(access);
+        const runtime = createMidiRuntime();
+        await runtime.requestAccess();
+
+        expect(runtime.sendPitchBend({ value: 0, channel: 2 })).toBe(true);
+        runtime.sendPitchBend({ value: 1 });
+        runtime.sendPitchBend({ value: 0x2001, valueFormat: 'raw' });
+        runtime.sendAftertouch({ value: 1 });
+        runtime.sendAftertouch({ value: 64, note: 60, valueFormat: 'raw' });
+        runtime.sendProgramChange({ program: 5, channel: 10 });
+
+        expect(output.sent).toEqual([
+            [0xE1, 0x00, 0x40],
+            [0xE0, 0x7F, 0x7F],
+            [0xE0, 0x01, 0x40],
+            [0xD0, 127],
+            [0xA0, 60, 64],
+            [0xC9, 5],
+        ]);
+        expect(runtime.getSnapshot().lastOutputEvent).toMatchObject({ kind: 'programchange', rawValue: 5 });
+    });
+
     it('sends note and CC messages from declarative outputs', async () => {
         const access = new MockMIDIAccess();
         const output = new MockMIDIOutput('out-a', 'Synth');
@@ -304,4 +485,557 @@ describe('midi components and hooks', () => {
 
         slave.unmount();
     });
+
+    it('requests sysex access and buffers fragmented sysex messages', async () => {
+        const access = new MockMIDIAccess();
+        const input = new MockMIDIInput('in-a', 'Synth');
+        const output = new MockMIDIOutput('out-a', 'Synth');
+        access.setInputs([input]);
+        access.setOutputs([output]);
+        installMidiAccess(access);
+        const runtime = createMidiRuntime();
+        const received: number[][] = [];
+
+        function SysexProbe() {
+            const sysex = useMidiSysex({
+                manufacturerId: 0x41,
+                onMessage: (event) => received.push([...event.bytes]),
+            });
+            return (
+                <div>
+                    <span data-testid="sysex-enabled">{sysex.enabled ? 'yes' : 'no'}</span>
+                    <span data-testid="sysex-count">{sysex.messages.length}</span>
+                </div>
+            );
+        }
+
+        render(
+            <MidiProvider runtime={runtime} requestOnMount sysex>
+                <MidiStateProbe />
+                <SysexProbe />
+            </MidiProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('sysex-enabled')).toHaveTextContent('yes');
+        });
+        expect(navigator.requestMIDIAccess).toHaveBeenCalledWith({ sysex: true });
+
+        act(() => {
+            input.emit([0xF0, 0x41, 0x10]);
+            input.emit([0xF8]);
+            input.emit([0x42, 0x12, 0xF7]);
+            input.emit([0xF0, 0x43, 0x01, 0xF7]);
+            input.emit([0xF0, 0x41, 0x20, 0xF7]);
+        });
+
+        await waitFor(() => {
+            expect(screen.getByTestId('sysex-count')).toHaveTextContent('2');
+        });
+        expect(received).toEqual([
+            [0xF0, 0x41, 0x10, 0x42, 0x12, 0xF7],
+            [0xF0, 0x41, 0x20, 0xF7],
+        ]);
+        expect(runtime.getSnapshot().sysexMessages.map((event) => event.kind)).toEqual(['sysex', 'sysex', 'sysex']);
+
+        expect(runtime.sendSysex({ data: [0x41, 0x10, 0x00] })).toBe(true);
+        expect(output.sent[output.sent.length - 1]).toEqual([0xF0, 0x41, 0x10, 0x00, 0xF7]);
+        expect(() => runtime.sendSysex({ data: [0x41, 0x80] })).toThrow('Invalid sysex data byte 128 at index 2');
+
+        const plainRuntime = createMidiRuntime();
+        await plainRuntime.requestAccess();
+        expect(plainRuntime.getSnapshot().sysexEnabled).toBe(false);
+        expect(plainRuntime.sendSysex({ data: [0x41] })).toBe(false);
+    });
+
+    it('follows and emits song position pointers', async () => {
+        const access = new MockMIDIAccess();
+        const input = new MockMIDIInput('in-a', 'DAW');
+        const output = new MockMIDIOutput('out-a', 'Drum Machine');
+        access.setInputs([input]);
+        access.setOutputs([output]);
+        installMidiAccess(access);
+        const slaveRuntime = createMidiRuntime();
+
+        const slave = render(
+            <AudioProvider>
+                <MidiProvider runtime={slaveRuntime} requestOnMount>
+                    <MidiStateProbe />
+                    <TransportProvider bpm={120}>
+                        <MidiTransportSync mode="midi-master" />
+                        <TransportProbe />
+                    </TransportProvider>
+                </MidiProvider>
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(screen.getByTestId('midi-status')).toHaveTextContent('granted');
+        });
+
+        act(() => {
+            input.emit([0xF2, 16, 0]);
+        });
+        await waitFor(() => {
+            expect(screen.getByTestId('transport-steps')).toHaveTextContent('16');
+        });
+
+        act(() => {
+            input.emit([0xFB]);
+            for (let tick = 0; tick < 12; tick += 1) {
+                input.emit([0xF8]);
+            }
+        });
+        await waitFor(() => {
+            expect(screen.getByTestId('transport-running')).toHaveTextContent('running');
+        });
+        expect(slaveRuntime.getSnapshot().clock.songPosition).toBe(18);
+
+        act(() => {
+            input.emit([0xFC]);
+            input.emit([0xF8]);
+        });
+        await waitFor(() => {
+            expect(screen.getByTestId('transport-running')).toHaveTextContent('idle');
+        });
+        expect(Number(screen.getByTestId('transport-steps').textContent)).toBeGreaterThanOrEqual(16);
+        expect(slaveRuntime.getSnapshot().clock.songPosition).toBe(18);
+        slave.unmount();
+
+        const masterRuntime = createMidiRuntime();
+        render(
+            <AudioProvider>
+                <MidiProvider runtime={masterRuntime} requestOnMount>
+                    <MidiStateProbe />
+                    <TransportProvider bpm={120}>
+                        <MidiTransportSync mode="transport-master" sendClock={false} />
+                        <TransportProbe />
+                    </TransportProvider>
+                </MidiProvider>
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(screen.getByTestId('midi-status')).toHaveTextContent('granted');
+        });
+        output.sent.length = 0;
+
+        fireEvent.click(screen.getByRole('button', { name: 'seek' }));
+        await waitFor(() => {
+            expect(output.sent).toContainEqual([0xF2, 32, 0]);
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'play' }));
+        await waitFor(() => {
+            expect(output.sent).toContainEqual([0xFB]);
+        });
+        expect(output.sent).not.toContainEqual([0xFA]);
+        expect(output.sent.filter((bytes) => bytes[0] === 0xF2)).toHaveLength(1);
+        expect(masterRuntime.sendSongPosition({ position: 300 })).toBe(true);
+        expect(output.sent[output.sent.length - 1]).toEqual([0xF2, 44, 2]);
+    });
+
+    it('runs against a virtual backend with loopback, scripts, and hot-plugging', async () => {
+        const backend = createVirtualMidiBackend({
+            inputs: [{ id: 'pads', name: 'Pads' }],
+            loopback: true,
+        });
+        const runtime = createMidiRuntime({ backend });
+        await runtime.requestAccess();
+
+        expect(runtime.getSnapshot().inputs.map((port) => port.id)).toEqual(['loopback-in', 'pads']);
+
+        runtime.sendNoteOn({ note: 64, velocity: 1, outputId: 'loopback-out', channel: 3 });
+        expect(backend.outputs.get('loopback-out')?.sent).toEqual([[0x92, 64, 127]]);
+        expect(runtime.getSnapshot().lastInputEvent).toMatchObject({ kind: 'noteon', inputId: 'loopback-in', note: 64 });
+
+        const playback = backend.play([
+            { at: 5, data: [0xB0, 1, 64], inputId: 'pads' },
+            { at: 0, data: [0x90, 60, 100], inputId: 'pads' },
+        ]);
+        await playback.done;
+        expect(runtime.getSnapshot().activeNotes.get('pads:1:60')).toBeDefined();
+        expect(runtime.getSnapshot().ccValues.get('pads:1:1')?.raw).toBe(64);
+
+        backend.addOutput({ id: 'synth', name: 'Synth' });
+        expect(runtime.getSnapshot().outputs.map((port) => port.id)).toContain('synth');
+        backend.removePort('pads');
+        expect(runtime.getSnapshot().inputs.map((port) => port.id)).toEqual(['loopback-in']);
+
+        const denied = createMidiRuntime({ backend: createVirtualMidiBackend({ denyAccess: true }) });
+        await denied.requestAccess();
+        expect(denied.getSnapshot().status).toBe('denied');
+    });
+
+    it('accepts a virtual backend on MidiProvider and destroys its runtime on unmount', async () => {
+        const backend = createVirtualMidiBackend({ inputs: [{ id: 'keys', name: 'Keys' }] });
+        const input = backend.inputs.get('keys');
+        const removeListener = vi.spyOn(input as EventTarget, 'removeEventListener');
+
+        const view = render(
+            <MidiProvider backend={backend} requestOnMount>
+                <MidiStateProbe />
+                <MidiNoteProbe />
+            </MidiProvider>
+        );
+
+        await waitFor(() => {
+            expect(screen.getByTestId('midi-status')).toHaveTextContent('granted');
+        });
+        expect(screen.getByTestId('midi-default-input')).toHaveTextContent('Keys');
+
+        act(() => {
+            backend.inputs.get('keys')?.emit([0x90, 62, 127]);
+        });
+        expect(screen.getByTestId('note-gate')).toHaveTextContent('on');
+        expect(screen.getByTestId('note-value')).toHaveTextContent('62');
+
+        view.unmount();
+        expect(removeListener).toHaveBeenCalledWith('midimessage', expect.any(Function));
+    });
+
+    it('learns CC and note sources for registered targets and restores them from JSON', async () => {
+        const backend = createVirtualMidiBackend({ inputs: [{ id: 'pads', name: 'Pads' }] });
+        const runtime = createMidiRuntime({ backend });
+        const saved = JSON.stringify({
+            version: 1,
+            bindings: [{ target: 'gain', kind: 'note', inputId: 'pads', channel: 10, number: 36 }],
+        });
+        const maps: string[] = [];
+
+        function LearnKnob({ target, min, max }: { target: string; min: number; max: number }) {
+            const learned = useMidiLearnValue(target, { min, max });
+            return (
+                <div>
+                    <span data-testid={`${target}-value`}>{learned.value === null ? 'none' : learned.value.toFixed(1)}</span>
+                    <span data-testid={`${target}-learning`}>{learned.learning ? 'learning' : 'idle'}</span>
+                    <button type="button" onClick={learned.learn}>{`learn ${target}`}</button>
+                    <button type="button" onClick={learned.unbind}>{`unbind ${target}`}</button>
+                </div>
+            );
+        }
+
+        render(
+            <MidiProvider runtime={runtime}>
+                <MidiLearnProvider defaultBindings={saved} onChange={(map) => maps.push(JSON.stringify(map))}>
+                    <LearnKnob target="gain" min={0} max={2} />
+                    <LearnKnob target="pan" min={-1} max={1} />
+                </MidiLearnProvider>
+            </MidiProvider>
+        );
+
+        await act(async () => {
+            await runtime.requestAccess();
+        });
+
+        const pads = backend.inputs.get('pads')!;
+        act(() => pads.emit([0x99, 36, 127]));
+        expect(screen.getByTestId('gain-value')).toHaveTextContent('2.0');
+        act(() => pads.emit([0x89, 36, 0]));
+        expect(screen.getByTestId('gain-value')).toHaveTextContent('0.0');
+
+        fireEvent.click(screen.getByText('learn pan'));
+        expect(screen.getByTestId('pan-learning')).toHaveTextContent('learning');
+        act(() => pads.emit([0xB0, 10, 127]));
+        expect(screen.getByTestId('pan-learning')).toHaveTextContent('idle');
+        expect(screen.getByTestId('pan-value')).toHaveTextContent('1.0');
+
+        // Learning a source already bound elsewhere moves it to the new target
+        fireEvent.click(screen.getByText('learn gain'));
+        act(() => pads.emit([0xB0, 10, 0]));
+        expect(screen.getByTestId('gain-value')).toHaveTextContent('0.0');
+        expect(screen.getByTestId('pan-value')).toHaveTextContent('none');
+        expect(parseMidiLearnMap(maps[maps.length - 1]).bindings).toEqual([
+            { target: 'gain', kind: 'cc', inputId: 'pads', channel: 1, number: 10 },
+        ]);
+
+        fireEvent.click(screen.getByText('unbind gain'));
+        expect(screen.getByTestId('gain-value')).toHaveTextContent('none');
+        expect(JSON.parse(maps[maps.length - 1])).toEqual({ version: 1, bindings: [] });
+
+        expect(() => parseMidiLearnMap('{"version":2,"bindings":[]}')).toThrow('Invalid MIDI learn map');
+        expect(() => parseMidiLearnMap({
+            version: 1,
+            bindings: [{ target: 'gain', kind: 'cc', inputId: 'pads', channel: 17, number: 1 }],
+        })).toThrow('channel must be 1-16');
+    });
+
+    it('records quantized notes while the transport plays and replaces notes it passes over', async () => {
+        const backend = createVirtualMidiBackend({ inputs: [{ id: 'keys', name: 'Keys' }] });
+        const keys = backend.inputs.get('keys')!;
+        let harness: {
+            context: { currentTime: number } | null;
+            transport: ReturnType<typeof useTransport>;
+            recorder: ReturnType<typeof useMidiRecorder>;
+        } | null = null;
+
+        function RecorderProbe() {
+            const { context } = useAudio();
+            const transport = useTransport();
+            const recorder = useMidiRecorder({
+                mode: 'replace',
+                quantize: 2,
+                defaultNotes: [
+                    { pitch: 48, step: 6, length: 1, velocity: 1 },
+                    { pitch: 50, step: 12, length: 1, velocity: 1 },
+                ],
+            });
+            harness = { context: context as { currentTime: number } | null, transport, recorder };
+            return null;
+        }
+
+        render(
+            <AudioProvider>
+                <MidiProvider backend={backend} requestOnMount>
+                    <TransportProvider bpm={120} mode="manual" lookAhead={0.05}>
+                        <RecorderProbe />
+                    </TransportProvider>
+                </MidiProvider>
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+        await waitFor(() => {
+            expect(harness?.context).toBeTruthy();
+        });
+
+        const advanceTo = (time: number) => act(() => {
+            harness!.context!.currentTime = time;
+            harness!.transport.update(time);
+        });
+
+        act(() => harness!.recorder.record());
+        act(() => harness!.transport.play());
+        expect(harness!.recorder.capturing).toBe(true);
+
+        // One step lasts 0.125s at 120 BPM
+        advanceTo(0.26);
+        act(() => keys.emit([0x90, 60, 127]));
+        advanceTo(0.52);
+        act(() => keys.emit([0x80, 60, 0]));
+        advanceTo(0.9);
+        act(() => keys.emit([0x90, 62, 64]));
+        act(() => harness!.transport.stop());
+
+        expect(harness!.recorder.notes).toEqual([
+            { pitch: 60, step: 2, length: 2, velocity: 1 },
+            { pitch: 62, step: 8, length: 2, velocity: 64 / 127 },
+            { pitch: 50, step: 12, length: 1, velocity: 1 },
+        ]);
+
+        act(() => harness!.recorder.stop());
+        act(() => keys.emit([0x90, 64, 127]));
+        expect(harness!.recorder.recording).toBe(false);
+        expect(harness!.recorder.notes).toHaveLength(3);
+    });
+
+    it('parses format 1 MIDI files with tempo changes and running status', () => {
+        const file = parseMidiFile(buildMidiFileBytes([
+            [0x00, 0xFF, 0x51, 0x03, 0x07, 0xA1, 0x20, 0x00, 0xFF, 0x58, 0x04, 0x03, 0x02, 0x18, 0x08, 0x60, 0xFF, 0x51, 0x03, 0x03, 0xD0, 0x90],
+            [0x00, 0xFF, 0x03, 0x04, 0x4C, 0x65, 0x61, 0x64, 0x00, 0x90, 0x3C, 0x64, 0x60, 0x3C, 0x00, 0x00, 0x40, 0x50, 0x60, 0x40, 0x00],
+            [0x00, 0x99, 0x24, 0x7F, 0x30, 0x89, 0x24, 0x00],
+        ]));
+
+        expect(file.format).toBe(1);
+        expect(file.ticksPerQuarter).toBe(96);
+        expect(file.tempos.map((tempo) => tempo.bpm)).toEqual([120, 240]);
+        expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 4 }]);
+        expect(file.tracks[1].name).toBe('Lead');
+        expect(file.tracks[1].notes.map((note) => [note.note, note.startTick, note.durationTicks])).toEqual([[60, 0, 96], [64, 96, 96]]);
+        expect(file.tracks[1].notes[1].startTime).toBeCloseTo(0.5);
+        expect(file.tracks[1].notes[1].duration).toBeCloseTo(0.25);
+        expect(file.tracks[2].channels).toEqual([10]);
+        expect(file.durationTicks).toBe(192);
+        expect(file.duration).toBeCloseTo(0.75);
+    });
+
+    it('writes patterns and tempo ramps as a format 1 MIDI file', () => {
+        const bytes = patternsToMidiFile(
+            [
+                { name: 'Kick', channel: 10, note: 36, pattern: [1, 0, 0.5, 0], repeat: 4 },
+                { name: 'Bass', steps: 4, offset: 1, notes: [{ step: 3, note: 40, length: 2 }] },
+            ],
+            { bpm: 120, beatsPerBar: 3, tempoMap: [{ bar: 1, bpm: 60, ramp: 'linear' }] },
+            { ticksPerQuarter: 96, name: 'Groove' }
+        );
+        const file = parseMidiFile(bytes);
+
+        expect(file.format).toBe(1);
+        expect(file.ticksPerQuarter).toBe(96);
+        expect(file.tracks.map((track) => track.name)).toEqual(['Groove', 'Kick', 'Bass']);
+        // The ramp is written once per beat at its mid-beat tempo
+        expect(file.tempos.map((tempo) => [tempo.tick, Math.round(tempo.bpm)])).toEqual([[0, 110], [96, 90], [192, 70], [288, 60]]);
+        expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 4 }]);
+        expect(file.tracks[1].channels).toEqual([10]);
+        expect(file.tracks[1].notes.map((note) => [note.note, note.startTick, note.durationTicks, note.velocity])).toEqual([
+            [36, 0, 24, 1], [36, 48, 24, 64 / 127],
+            [36, 96, 24, 1], [36, 144, 24, 64 / 127],
+            [36, 192, 24, 1], [36, 240, 24, 64 / 127],
+            [36, 288, 24, 1], [36, 336, 24, 64 / 127],
+        ]);
+        expect(file.tracks[2].notes.map((note) => [note.note, note.startTick, note.durationTicks])).toEqual([[40, 0, 48]]);
+        expect(file.durationTicks).toBe(384);
+
+        expect(() => patternsToMidiFile([{ pattern: [1], channel: 17 }])).toThrow('MIDI channel must be 1-16');
+    });
+
+    it('emits trigger events for the selected MIDI file tracks', async () => {
+        const bytes = buildMidiFileBytes([
+            [0x00, 0x90, 0x3C, 0x64, 0x18, 0x3C, 0x00, 0x00, 0x43, 0x50, 0x18, 0x43, 0x00],
+            [0x00, 0x99, 0x24, 0x7F, 0x18, 0x89, 0x24, 0x00],
+        ]);
+
+        function NoteLog() {
+            const [notes, setNotes] = useState<number[]>([]);
+            useOnTrigger((event) => {
+                setNotes((previous) => [...previous, event.note]);
+            });
+            return <span data-testid="player-notes">{notes.join(',')}</span>;
+        }
+
+        render(
+            <AudioProvider>
+                <MidiFilePlayer src={bytes} tracks={[0]} lookAhead={1} autoStart>
+                    <NoteLog />
+                </MidiFilePlayer>
+            </AudioProvider>
+        );
+
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(screen.getByTestId('player-notes')).toHaveTextContent('60,67');
+        });
+    });
+
+    it('schedules MIDI file notes on the shared clock during offline renders', async () => {
+        const bytes = buildMidiFileBytes([
+            [0x00, 0x90, 0x3C, 0x64, 0x18, 0x3C, 0x00, 0x00, 0x43, 0x50, 0x18, 0x43, 0x00],
+        ]);
+        const events: string[] = [];
+
+        await renderOffline(
+            <MidiFilePlayer
+                src={bytes}
+                autoStart
+                onLoad={() => events.push('load')}
+            >
+                <TriggerLog events={events} />
+            </MidiFilePlayer>,
+            { duration: 0.5, sampleRate: 8000 }
+        );
+
+        expect(events).toEqual(['load', '60@0.000', '67@0.125']);
+    });
+
+    it('follows the transport position through tempo changes, pause and seek', async () => {
+        const bytes = patternsToMidiFile([{
+            steps: 8,
+            notes: Array.from({ length: 8 }, (_, step) => ({ step, note: 60 + step })),
+        }], { bpm: 120 });
+        const context = new MockAudioContext();
+        const events: string[] = [];
+        const onLoad = vi.fn();
+        let transport: ReturnType<typeof useTransport> | null = null;
+        function TransportControls() {
+            transport = useTransport();
+            return null;
+        }
+
+        render(
+            <AudioProvider context={context as unknown as AudioContext}>
+                <TransportProvider bpm={120} mode="manual">
+                    <TransportControls />
+                    <MidiFilePlayer src={bytes} loop onLoad={onLoad}>
+                        <TriggerLog events={events} />
+                    </MidiFilePlayer>
+                </TransportProvider>
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+        await waitFor(() => expect(onLoad).toHaveBeenCalled());
+        const advanceTo = (time: number) => {
+            context.currentTime = time;
+            act(() => transport?.update(time));
+        };
+
+        act(() => transport?.play());
+        advanceTo(0.2);
+        expect(events).toEqual(['60@0.000', '61@0.125', '62@0.250']);
+
+        // A tempo change keeps the file position
+        act(() => transport?.setBpm(60));
+        advanceTo(0.6);
+        expect(events.slice(3)).toEqual(['63@0.375', '64@0.625']);
+
+        // Pause and resume continue where playback stopped
+        act(() => transport?.pause());
+        context.currentTime = 2;
+        act(() => transport?.play());
+        advanceTo(2);
+        expect(events.slice(5)).toEqual(['65@2.000']);
+
+        // Seeking moves the file position with the transport
+        act(() => transport?.seek({ totalSteps: 2 }));
+        advanceTo(2.1);
+        expect(events.slice(6)).toEqual(['62@2.000']);
+    });
+
+    it('keeps its own-clock position when the bpm prop changes', async () => {
+        const bytes = patternsToMidiFile([{
+            steps: 8,
+            notes: Array.from({ length: 8 }, (_, step) => ({ step, note: 60 + step })),
+        }], { bpm: 120 });
+        const context = new MockAudioContext();
+        const events: string[] = [];
+        const renderPlayer = (bpm: number) => (
+            <AudioProvider context={context as unknown as AudioContext}>
+                <MidiFilePlayer src={bytes} bpm={bpm} autoStart>
+                    <TriggerLog events={events} />
+                </MidiFilePlayer>
+            </AudioProvider>
+        );
+
+        const { rerender } = render(renderPlayer(120));
+        fireEvent.click(document);
+        await waitFor(() => expect(events).toEqual(['60@0.000']));
+
+        context.currentTime = 0.2;
+        await waitFor(() => expect(events).toEqual(['60@0.000', '61@0.125', '62@0.250']));
+
+        // Half the tempo from 0.2s: the rest of the file plays twice as slow
+        rerender(renderPlayer(60));
+        context.currentTime = 0.5;
+        await waitFor(() => expect(events.slice(3)).toEqual(['63@0.550']));
+    });
+
+    it('loads MIDI file URLs once through the shared asset cache', async () => {
+        const bytes = buildMidiFileBytes([[0x00, 0x90, 0x3C, 0x64, 0x18, 0x3C, 0x00]]);
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => bytes.slice().buffer });
+        vi.stubGlobal('fetch', fetchMock);
+        const onLoad = vi.fn();
+
+        render(
+            <AudioProvider>
+                <MidiFilePlayer src="/midi/groove.mid" onLoad={onLoad} />
+                <MidiFilePlayer src="/midi/groove.mid" onLoad={onLoad} />
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(onLoad).toHaveBeenCalledTimes(2);
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(onLoad.mock.calls[0][0].tracks[0].notes).toHaveLength(1);
+
+        vi.unstubAllGlobals();
+    });
 });
+
+function TriggerLog({ events }: { events: string[] }) {
+    useOnTrigger((event) => {
+        events.push(`${event.note}@${event.time.toFixed(3)}`);
+    });
+    return null;
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import {
+    Osc,
+    Sequencer,
+    Track,
+    Voice,
+    encodeWav,
+    renderOffline,
+    useAudio,
+} from '@open-din/react';
+import { MockOfflineAudioContext } from '../helpers/mockWebAudio';
+
+describe('offline rendering', () => {
+    it('renders a tree into a buffer sized by duration, sample rate and channels', async () => {
+        const result = await renderOffline(<Osc autoStart frequency={220} />, {
+            duration: 0.25,
+            sampleRate: 8000,
+            channels: 1,
+        });
+
+        expect(result.buffer.length).toBe(2000);
+        expect(result.buffer.numberOfChannels).toBe(1);
+        expect(result.buffer.sampleRate).toBe(8000);
+    });
+
+    it('advances sequencer steps ahead of the offline render position', async () => {
+        const steps: Array<{ step: number; time: number; renderTime: number }> = [];
+        let offlineContext: BaseAudioContext | null = null;
+
+        function ContextProbe() {
+            offlineContext = useAudio().context;
+            return null;
+        }
+
+        await renderOffline(
+            <Sequencer
+                bpm={120}
+                steps={16}
+                autoStart
+                onStep={(step, time) => {
+                    steps.push({ step, time, renderTime: offlineContext?.currentTime ?? -1 });
+                }}
+            >
+                <ContextProbe />
+            </Sequencer>,
+            { duration: 0.5, sampleRate: 8000 }
+        );
+
+        expect(steps.slice(0, 4).map(({ step, time }) => [step, time])).toEqual([
+            [0, 0],
+            [1, 0.125],
+            [2, 0.25],
+            [3, 0.375],
+        ]);
+        steps.forEach(({ time, renderTime }) => {
+            expect(renderTime).toBeLessThanOrEqual(time);
+        });
+    });
+
+    it('releases voice gates on the offline render clock', async () => {
+        const gates: Array<[boolean, number]> = [];
+        let offlineContext: BaseAudioContext | null = null;
+
+        function GateProbe({ gate }: { gate: boolean }) {
+            offlineContext = useAudio().context;
+            React.useEffect(() => {
+                gates.push([gate, offlineContext?.currentTime ?? -1]);
+            }, [gate]);
+            return null;
+        }
+
+        await renderOffline(
+            <Sequencer bpm={120} steps={4} autoStart>
+                <Track pattern={[1, 0, 0, 0]}>
+                    <Voice>{({ gate }) => <GateProbe gate={gate} />}</Voice>
+                </Track>
+            </Sequencer>,
+            { duration: 0.4, sampleRate: 8000 }
+        );
+
+        // After the initial closed gate, the 0.125s note ends between the 0.096s and 0.144s render slices
+        expect(gates.slice(1)).toEqual([[true, 0], [false, 0.144]]);
+    });
+
+    it('encodes float WAV data and clamps samples', async () => {
+        const { buffer } = await renderOffline(<Osc />, { duration: 2 / 8000, sampleRate: 8000, channels: 1 });
+        buffer.getChannelData(0).set([2, -0.5]);
+
+        const wav = encodeWav(buffer, { bitDepth: 32 });
+        const view = new DataView(wav);
+
+        expect(view.getUint16(20, true)).toBe(3);
+        expect(view.getFloat32(44, true)).toBe(1);
+        expect(view.getFloat32(48, true)).toBe(-0.5);
+    });
+
+    it('rejects with the error of a failed render slice', async () => {
+        vi.spyOn(MockOfflineAudioContext.prototype, 'suspend').mockRejectedValueOnce(new Error('suspend failed'));
+
+        await expect(renderOffline(<Osc />, { duration: 1, sampleRate: 8000 })).rejects.toThrow('suspend failed');
+    });
+
+    it('rejects non-positive durations', async () => {
+        await expect(renderOffline(<Osc />, { duration: 0 })).rejects.toThrow(
+            'Offline render duration must be greater than 0'
+        );
+    });
+});
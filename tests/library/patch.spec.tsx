@@ -1,19 +1,37 @@
-import { cleanup, render, waitFor } from '@testing-library/react';
+import { act, cleanup, fireEvent, render, waitFor } from '@testing-library/react';
 import React from 'react';
 import { afterEach } from 'vitest';
 import {
+    AudioProvider,
     createMidiRuntime,
+    createVirtualMidiBackend,
     graphDocumentToPatch,
     importPatch,
+    MidiLearnProvider,
     MidiProvider,
     Patch,
+    parseMidiFile,
+    patchToMidiFile,
+    patternsToMidiFile,
     patchToGraphDocument,
     PatchOutput,
     PatchRenderer,
+    preloadPatchAssets,
+    registerPatchNodeType,
+    renderPatchOffline,
+    Sampler,
+    setPatchNodeNotes,
+    TransportProvider,
+    useMidiLearn,
+    useTransport,
+    validatePatchDocument,
+    type MidiLearnMap,
     type PatchDocument,
+    type PatchHandle,
     type PatchNode,
 } from '@open-din/react';
 import { getTransportConnections } from '../../src/patch/document';
+import { MockAudioContext } from '../helpers/mockWebAudio';
 
 afterEach(() => {
     cleanup();
@@ -145,6 +163,75 @@ describe('patch import/export runtime', () => {
         });
     });
 
+    it('applies MIDI-learned CCs to patch inputs scaled to the input range', async () => {
+        const backend = createVirtualMidiBackend({
+            inputs: [{ id: 'knobs', name: 'Knobs' }],
+            outputs: [{ id: 'out-a', name: 'CC Out' }],
+        });
+        const patch = graphDocumentToPatch({
+            name: 'Learn Patch',
+            nodes: [
+                {
+                    id: 'input-1',
+                    position: { x: 0, y: 0 },
+                    data: {
+                        type: 'input',
+                        label: 'Params',
+                        params: [
+                            { id: 'cutoff', name: 'cutoff', label: 'Cutoff', type: 'float', value: 20, defaultValue: 20, min: 20, max: 40 },
+                        ],
+                    },
+                },
+                {
+                    id: 'cc-out-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'midiCCOutput', label: 'CC Out', outputId: 'out-a', channel: 1, cc: 74, value: 0, valueFormat: 'raw' },
+                },
+            ],
+            edges: [
+                { id: 'cutoff-cc', source: 'input-1', sourceHandle: 'param:cutoff', target: 'cc-out-1', targetHandle: 'value' },
+            ],
+        });
+        const maps: MidiLearnMap[] = [];
+        let learn: ReturnType<typeof useMidiLearn> | null = null;
+
+        function LearnControls() {
+            learn = useMidiLearn();
+            return null;
+        }
+
+        render(
+            <MidiProvider backend={backend} requestOnMount>
+                <MidiLearnProvider onChange={(map) => maps.push(map)}>
+                    <LearnControls />
+                    <PatchRenderer patch={patch} midi={{ outputs: { ccOut: {} } }} />
+                </MidiLearnProvider>
+            </MidiProvider>
+        );
+
+        const sent = backend.outputs.get('out-a')!.sent;
+        await waitFor(() => {
+            expect(sent).toContainEqual([0xB0, 74, 20]);
+        });
+        expect(learn!.targets).toEqual([{ id: 'cutoff', label: 'Cutoff', min: 20, max: 40 }]);
+
+        act(() => learn!.learn('cutoff'));
+        act(() => backend.inputs.get('knobs')!.emit([0xB1, 7, 127]));
+
+        expect(maps[maps.length - 1]).toEqual({
+            version: 1,
+            bindings: [{ target: 'cutoff', kind: 'cc', inputId: 'knobs', channel: 2, number: 7 }],
+        });
+        await waitFor(() => {
+            expect(sent[sent.length - 1]).toEqual([0xB0, 74, 40]);
+        });
+
+        act(() => backend.inputs.get('knobs')!.emit([0xB1, 7, 0]));
+        await waitFor(() => {
+            expect(sent[sent.length - 1]).toEqual([0xB0, 74, 20]);
+        });
+    });
+
     it('exposes event trigger props and drives MIDI note outputs', async () => {
         const access = new MockMIDIAccess();
         const output = new MockMIDIOutput('out-a', 'Synth');
@@ -214,6 +301,19 @@ describe('patch import/export runtime', () => {
         await waitFor(() => {
             expect(output.sent.some((bytes) => bytes[0] === 0x90 && bytes[1] === 67)).toBe(true);
         });
+
+        const ref = React.createRef<PatchHandle<typeof patch>>();
+        rerender(
+            <MidiProvider runtime={runtime} requestOnMount>
+                <PatchRenderer ref={ref} patch={patch} bang={1} midi={{ outputs: { noteOut: {} } }} />
+            </MidiProvider>
+        );
+        output.sent.length = 0;
+        act(() => ref.current?.fireEvent('bang'));
+
+        await waitFor(() => {
+            expect(output.sent.some((bytes) => bytes[0] === 0x90 && bytes[1] === 67)).toBe(true);
+        });
     });
 
     it('accepts explicit midi note input bindings and routes them to note outputs', async () => {
@@ -410,6 +510,434 @@ describe('patch import/export runtime', () => {
         });
     });
 
+    it('loads midiPlayer assets from assetRoot and drives connected samplers', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new ArrayBuffer(16) });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const patch = graphDocumentToPatch({
+            name: 'MIDI Player Patch',
+            nodes: [
+                {
+                    id: 'transport-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'transport', label: 'Transport', bpm: 100, playing: false, beatsPerBar: 4, beatUnit: 4, stepsPerBeat: 4, barsPerPhrase: 4, swing: 0 },
+                },
+                {
+                    id: 'player-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'midiPlayer', label: 'MIDI Player', midiFileName: 'groove.mid', loaded: false, loop: true, tracks: [1] },
+                },
+                {
+                    id: 'sampler-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'sampler', label: 'Sampler', src: '', assetPath: '/samples/kick.wav', loop: false, playbackRate: 1, detune: 0, loaded: false },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 420, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'transport-player', source: 'transport-1', sourceHandle: 'out', target: 'player-1', targetHandle: 'transport' },
+                { id: 'player-sampler', source: 'player-1', sourceHandle: 'trigger', target: 'sampler-1', targetHandle: 'trigger' },
+                { id: 'sampler-output', source: 'sampler-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        expect(patch.nodes.find((node) => node.id === 'player-1')?.data.assetPath).toBe('/midi/groove.mid');
+
+        render(<PatchRenderer patch={patch} includeProvider assetRoot="/public" />);
+
+        await waitFor(() => {
+            expect(fetchMock).toHaveBeenCalledWith('/public/midi/groove.mid');
+            expect(fetchMock).toHaveBeenCalledWith('/public/samples/kick.wav');
+        });
+    });
+
+    it('keeps transport-connected midiPlayer nodes silent until the transport plays', async () => {
+        const bytes = patternsToMidiFile([{ steps: 4, pattern: [1, 0, 1, 0], note: 36 }], { bpm: 120 });
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => bytes.slice().buffer });
+        vi.stubGlobal('fetch', fetchMock);
+        const createBufferSource = MockAudioContext.prototype.createBufferSource;
+        const starts: number[] = [];
+        vi.spyOn(MockAudioContext.prototype, 'createBufferSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createBufferSource.call(this);
+            source.start = (when?: number) => {
+                starts.push(when ?? 0);
+            };
+            return source;
+        });
+
+        const patch = graphDocumentToPatch({
+            name: 'Stopped Player Patch',
+            nodes: [
+                {
+                    id: 'transport-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'transport', label: 'Transport', bpm: 120, playing: false, beatsPerBar: 4, beatUnit: 4, stepsPerBeat: 4, barsPerPhrase: 4, swing: 0 },
+                },
+                {
+                    id: 'player-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'midiPlayer', label: 'MIDI Player', assetPath: '/midi/kick.mid', loaded: false, loop: false },
+                },
+                {
+                    id: 'sampler-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'sampler', label: 'Sampler', src: '', assetPath: '/samples/kick.wav', loop: false, playbackRate: 1, detune: 0, loaded: false },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 420, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'transport-player', source: 'transport-1', sourceHandle: 'out', target: 'player-1', targetHandle: 'transport' },
+                { id: 'player-sampler', source: 'player-1', sourceHandle: 'trigger', target: 'sampler-1', targetHandle: 'trigger' },
+                { id: 'sampler-output', source: 'sampler-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        let transport: ReturnType<typeof useTransport> | null = null;
+        const TransportControls = () => {
+            transport = useTransport();
+            return null;
+        };
+
+        render(
+            <AudioProvider>
+                <TransportProvider bpm={120}>
+                    <TransportControls />
+                    <PatchRenderer patch={patch} />
+                </TransportProvider>
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(fetchMock).toHaveBeenCalledWith('/midi/kick.mid');
+            expect(fetchMock).toHaveBeenCalledWith('/samples/kick.wav');
+        });
+        await act(async () => {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        });
+        expect(starts).toEqual([]);
+
+        act(() => transport?.play());
+        await waitFor(() => expect(starts.length).toBeGreaterThan(0));
+    });
+
+    it('plays transport-connected midiPlayer nodes under includeProvider and offline', async () => {
+        const bytes = patternsToMidiFile([{ steps: 4, pattern: [1, 0, 1, 0], note: 36 }], { bpm: 120 });
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => ({ ok: true, arrayBuffer: async () => bytes.slice().buffer })));
+        const createBufferSource = MockAudioContext.prototype.createBufferSource;
+        const starts: number[] = [];
+        vi.spyOn(MockAudioContext.prototype, 'createBufferSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createBufferSource.call(this);
+            source.start = (when?: number) => {
+                starts.push(when ?? 0);
+            };
+            return source;
+        });
+
+        const patch = graphDocumentToPatch({
+            name: 'Playing Player Patch',
+            nodes: [
+                {
+                    id: 'transport-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'transport', label: 'Transport', bpm: 120, playing: false, beatsPerBar: 4, beatUnit: 4, stepsPerBeat: 4, barsPerPhrase: 4, swing: 0 },
+                },
+                {
+                    id: 'player-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'midiPlayer', label: 'MIDI Player', assetPath: '/midi/kick.mid', loaded: false, loop: false },
+                },
+                {
+                    id: 'sampler-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'sampler', label: 'Sampler', src: '', assetPath: '/samples/kick.wav', loop: false, playbackRate: 1, detune: 0, loaded: false },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 420, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'transport-player', source: 'transport-1', sourceHandle: 'out', target: 'player-1', targetHandle: 'transport' },
+                { id: 'player-sampler', source: 'player-1', sourceHandle: 'trigger', target: 'sampler-1', targetHandle: 'trigger' },
+                { id: 'sampler-output', source: 'sampler-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        render(<PatchRenderer patch={patch} includeProvider />);
+        fireEvent.click(document);
+        await waitFor(() => expect(starts.length).toBeGreaterThan(0));
+        cleanup();
+
+        starts.length = 0;
+        await renderPatchOffline(patch, {
+            duration: 1,
+            sampleRate: 8000,
+            prepare: (context) => preloadPatchAssets(context, patch),
+        });
+        // Both kicks of the clip play once; the transport does not loop it
+        expect(starts).toHaveLength(2);
+    });
+
+    it('renders wavetable osc nodes and drives the table position from inputs', async () => {
+        const createPeriodicWave = vi.spyOn(MockAudioContext.prototype, 'createPeriodicWave');
+        const createConstantSource = vi.spyOn(MockAudioContext.prototype, 'createConstantSource');
+
+        const patch = graphDocumentToPatch({
+            name: 'Wavetable Patch',
+            nodes: [
+                {
+                    id: 'input-1',
+                    position: { x: 0, y: 0 },
+                    data: {
+                        type: 'input',
+                        label: 'Params',
+                        params: [
+                            { id: 'morph', name: 'morph', label: 'Morph', type: 'float', value: 0.25, defaultValue: 0.25, min: 0, max: 1 },
+                        ],
+                    },
+                },
+                {
+                    id: 'osc-1',
+                    position: { x: 140, y: 0 },
+                    data: {
+                        type: 'osc',
+                        label: 'Wavetable',
+                        frequency: 110,
+                        detune: 0,
+                        waveform: 'sine',
+                        wavetable: {
+                            tables: [[1], { real: [0, 0, 0], imag: [0, 1, 0.5] }],
+                            position: 0,
+                        },
+                    },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'morph-position', source: 'input-1', sourceHandle: 'param:morph', target: 'osc-1', targetHandle: 'position' },
+                { id: 'osc-output', source: 'osc-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        const getPositionOffset = () => (
+            createConstantSource.mock.results.slice(-4)[2]?.value as ConstantSourceNode | undefined
+        )?.offset.value;
+
+        const WavetablePatch = importPatch(patch);
+        const { rerender } = render(<WavetablePatch includeProvider />);
+
+        await waitFor(() => {
+            expect(createPeriodicWave).toHaveBeenCalledTimes(2);
+            expect(getPositionOffset()).toBe(0.25);
+        });
+        const [, [real, imag]] = createPeriodicWave.mock.calls as unknown as Array<[Float32Array, Float32Array]>;
+        expect(Array.from(real)).toEqual([0, 0, 0]);
+        expect(Array.from(imag)).toEqual([0, 1, 0.5]);
+
+        rerender(<WavetablePatch includeProvider morph={0.75} />);
+        await waitFor(() => expect(getPositionOffset()).toBe(0.75));
+    });
+
+    it('renders granular sampler nodes from assets and reads the grain position from inputs', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new ArrayBuffer(16) });
+        vi.stubGlobal('fetch', fetchMock);
+        const createBufferSource = MockAudioContext.prototype.createBufferSource;
+        const offsets: number[] = [];
+        vi.spyOn(MockAudioContext.prototype, 'createBufferSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createBufferSource.call(this);
+            source.start = (_when?: number, offset?: number) => {
+                offsets.push(offset ?? 0);
+            };
+            return source;
+        });
+
+        const patch = graphDocumentToPatch({
+            name: 'Granular Patch',
+            nodes: [
+                {
+                    id: 'input-1',
+                    position: { x: 0, y: 0 },
+                    data: {
+                        type: 'input',
+                        label: 'Params',
+                        params: [
+                            { id: 'scan', name: 'scan', label: 'Scan', type: 'float', value: 0.25, defaultValue: 0.25, min: 0, max: 1 },
+                        ],
+                    },
+                },
+                {
+                    id: 'granular-1',
+                    position: { x: 140, y: 0 },
+                    data: {
+                        type: 'granularSampler',
+                        label: 'Grains',
+                        src: '',
+                        assetPath: '/samples/pad.wav',
+                        grainSize: 0.1,
+                        density: 20,
+                        position: 0,
+                        window: 'gaussian',
+                    },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'scan-position', source: 'input-1', sourceHandle: 'param:scan', target: 'granular-1', targetHandle: 'position' },
+                { id: 'granular-output', source: 'granular-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        const GranularPatch = importPatch(patch, { includeProvider: true, assetRoot: '/public' });
+        render(<GranularPatch />);
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(fetchMock).toHaveBeenCalledWith('/public/samples/pad.wav');
+            expect(offsets.length).toBeGreaterThan(0);
+        });
+        expect(offsets[0]).toBeCloseTo(0.25);
+    });
+
+    it('renders overlapping pianoRoll notes through a polyphonic voice pool', async () => {
+        const createOscillator = vi.spyOn(MockAudioContext.prototype, 'createOscillator');
+
+        const patch = graphDocumentToPatch({
+            name: 'Chord Patch',
+            nodes: [
+                {
+                    id: 'transport-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'transport', label: 'Transport', bpm: 120, playing: false, beatsPerBar: 4, beatUnit: 4, stepsPerBeat: 4, barsPerPhrase: 4, swing: 0 },
+                },
+                {
+                    id: 'roll-1',
+                    position: { x: 140, y: 0 },
+                    data: {
+                        type: 'pianoRoll',
+                        label: 'Piano Roll',
+                        steps: 16,
+                        notes: [
+                            { pitch: 60, step: 0, length: 8, velocity: 0.8 },
+                            { pitch: 64, step: 0, length: 8, velocity: 0.8 },
+                            { pitch: 67, step: 4, length: 4, velocity: 0.6 },
+                            { pitch: 72, step: 12, duration: 2, velocity: 1 },
+                        ],
+                    },
+                },
+                {
+                    id: 'voice-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'voice', label: 'Voice', portamento: 0 },
+                },
+                {
+                    id: 'osc-1',
+                    position: { x: 420, y: 0 },
+                    data: { type: 'osc', label: 'Osc', frequency: 440, detune: 0, waveform: 'sawtooth' },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 560, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'transport-roll', source: 'transport-1', sourceHandle: 'out', target: 'roll-1', targetHandle: 'transport' },
+                { id: 'roll-voice', source: 'roll-1', sourceHandle: 'trigger', target: 'voice-1', targetHandle: 'trigger' },
+                { id: 'voice-osc', source: 'voice-1', sourceHandle: 'note', target: 'osc-1', targetHandle: 'frequency' },
+                { id: 'osc-output', source: 'osc-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        render(<PatchRenderer patch={patch} includeProvider />);
+
+        await waitFor(() => {
+            expect(createOscillator).toHaveBeenCalledTimes(3);
+        });
+
+        createOscillator.mockRestore();
+    });
+
+    it('writes recorded notes back into pianoRoll and stepSequencer nodes', () => {
+        const patch = graphDocumentToPatch({
+            name: 'Record Patch',
+            nodes: [
+                { id: 'roll-1', position: { x: 0, y: 0 }, data: { type: 'pianoRoll', label: 'Piano Roll', steps: 16, notes: [] } },
+                { id: 'seq-1', position: { x: 140, y: 0 }, data: { type: 'stepSequencer', label: 'Steps', steps: 4, pattern: [0.5, 0.5, 0.5, 0.5], activeSteps: [true, false, false, false] } },
+                { id: 'osc-1', position: { x: 280, y: 0 }, data: { type: 'osc', label: 'Osc', waveform: 'sine', frequency: 440, detune: 0 } },
+            ],
+            edges: [],
+        });
+        const notes = [
+            { pitch: 60, step: 2, length: 2, velocity: 0.9 },
+            { pitch: 64, step: 8, length: 1, velocity: 0.4 },
+        ];
+
+        const withRoll = setPatchNodeNotes(patch, 'roll-1', notes);
+        expect(withRoll.nodes.find((node) => node.id === 'roll-1')?.data.notes).toEqual(notes);
+        expect(patch.nodes.find((node) => node.id === 'roll-1')?.data.notes).toEqual([]);
+
+        const withSteps = setPatchNodeNotes(withRoll, 'seq-1', notes);
+        expect(withSteps.nodes.find((node) => node.id === 'seq-1')?.data).toMatchObject({
+            activeSteps: [false, false, true, false],
+            pattern: [0.5, 0.5, 0.9, 0.5],
+        });
+
+        expect(() => setPatchNodeNotes(patch, 'osc-1', notes)).toThrow('only pianoRoll and stepSequencer nodes hold notes');
+        expect(() => setPatchNodeNotes(patch, 'missing', notes)).toThrow('Patch node "missing" does not exist.');
+    });
+
+    it('exports pianoRoll and stepSequencer nodes as a MIDI file with the transport tempo', () => {
+        const patch = graphDocumentToPatch({
+            name: 'Export Patch',
+            nodes: [
+                {
+                    id: 'transport-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'transport', label: 'Transport', bpm: 90, playing: false, beatsPerBar: 7, beatUnit: 8, stepsPerBeat: 2, barsPerPhrase: 4, swing: 0 },
+                },
+                {
+                    id: 'roll-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'pianoRoll', label: 'Lead', steps: 4, notes: [{ pitch: 67, step: 1, length: 2, velocity: 0.5 }] },
+                },
+                {
+                    id: 'seq-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'stepSequencer', label: '', steps: 4, pattern: [1, 0.8, 0.8, 0.8], activeSteps: [true, false, false, true] },
+                },
+            ],
+            edges: [],
+        });
+
+        const file = parseMidiFile(patchToMidiFile(patch, { ticksPerQuarter: 96 }));
+
+        expect(file.tracks.map((track) => track.name)).toEqual(['Export Patch', 'Lead', 'seq-1']);
+        // 90 eighth notes per minute is 45 quarter notes per minute
+        expect(file.tempos.map((tempo) => tempo.microsecondsPerQuarter)).toEqual([1_333_333]);
+        expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 7, denominator: 8 }]);
+        // Two steps per eighth-note beat: 24 ticks per step
+        expect(file.tracks[1].notes.map((note) => [note.note, note.startTick, note.durationTicks])).toEqual([[67, 24, 48]]);
+        expect(file.tracks[2].notes.map((note) => [note.note, note.startTick, note.velocity])).toEqual([[60, 0, 1], [60, 72, 102 / 127]]);
+    });
+
     it('renders nested patch nodes from inline sources before falling back to patchAsset', async () => {
         const access = new MockMIDIAccess();
         const output = new MockMIDIOutput('out-a', 'Nested CC');
@@ -471,6 +999,85 @@ describe('patch import/export runtime', () => {
         expect(fetchMock).not.toHaveBeenCalled();
     });
 
+    it('preloads sampler, convolver, midiPlayer and nested patch assets into the context cache', async () => {
+        const texturePatch = graphDocumentToPatch({
+            name: 'Texture',
+            nodes: [
+                {
+                    id: 'grains-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'granularSampler', label: 'Grains', src: '', assetPath: '/samples/pad.wav' },
+                },
+                {
+                    id: 'convolver-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'convolver', label: 'Convolver', impulseSrc: '', assetPath: '/impulses/plate.wav', normalize: true },
+                },
+                {
+                    id: 'sampler-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'sampler', label: 'Sampler', src: '', assetPath: '/samples/kick.wav' },
+                },
+            ],
+            edges: [],
+        });
+        const patch = graphDocumentToPatch({
+            name: 'Preload Patch',
+            nodes: [
+                {
+                    id: 'sampler-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'sampler', label: 'Sampler', src: '', assetPath: '/samples/kick.wav' },
+                },
+                {
+                    id: 'player-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'midiPlayer', label: 'Player', assetPath: '/midi/groove.mid' },
+                },
+                {
+                    id: 'patch-1',
+                    position: { x: 280, y: 0 },
+                    data: { type: 'patch', label: 'Texture', patchAsset: '/patches/preload-texture.patch.json' },
+                },
+            ],
+            edges: [],
+        });
+
+        const fetchMock = vi.fn().mockImplementation(async () => ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            text: async () => JSON.stringify(texturePatch),
+            arrayBuffer: async () => new ArrayBuffer(16),
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+        const context = new MockAudioContext() as unknown as AudioContext;
+        const onProgress = vi.fn();
+
+        const urls = await preloadPatchAssets(context, patch, { assetRoot: '/public', onProgress });
+
+        expect(urls).toEqual([
+            '/public/samples/kick.wav',
+            '/public/samples/pad.wav',
+            '/public/impulses/plate.wav',
+            '/public/midi/groove.mid',
+        ]);
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            '/public/patches/preload-texture.patch.json',
+            ...urls,
+        ]);
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'loaded', completed: 4, total: 4 }));
+
+        const onLoad = vi.fn();
+        render(
+            <AudioProvider context={context}>
+                <Sampler src="/public/samples/kick.wav" onLoad={onLoad} />
+            </AudioProvider>
+        );
+        await waitFor(() => expect(onLoad).toHaveBeenCalledTimes(1));
+        expect(fetchMock).toHaveBeenCalledTimes(5);
+    });
+
     it('caches repeated asset-backed Patch loads by resolved asset path', async () => {
         const assetPatch = graphDocumentToPatch({
             name: 'Asset Patch',
@@ -588,10 +1195,350 @@ describe('patch import/export runtime', () => {
         } as PatchDocument;
 
         expect(() => importPatch(unsupportedVersion)).toThrow(/Unsupported patch version/);
-        expect(() => importPatch(unknownNodeType)).toThrow(/unsupported node type|unsupported source handle|unsupported target handle|missing a valid data\.type|mismatched type metadata/i);
+        expect(() => importPatch(unknownNodeType)).toThrow(/unsupported node type|unsupported source handle|unsupported target handle|missing a valid data\.type/i);
         expect(() => importPatch(invalidHandle)).toThrow(/unsupported target handle/);
     });
 
+    it('renders the valid part of a broken patch in lenient mode and reports diagnostics', async () => {
+        const createOscillator = vi.spyOn(MockAudioContext.prototype, 'createOscillator');
+        const onDiagnostics = vi.fn();
+        const patch = {
+            version: 1,
+            name: 'Broken',
+            nodes: [
+                { id: 'osc-1', type: 'osc', position: { x: 0, y: 0 }, data: { type: 'osc', label: 'Osc', frequency: 440, detune: 0, waveform: 'sine' } },
+                { id: 'wobble-1', type: 'wobble', position: { x: 0, y: 80 }, data: { type: 'wobble', label: 'Wobble' } },
+                { id: 'output-1', type: 'output', position: { x: 140, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+            ],
+            connections: [
+                { id: 'osc-output', source: 'osc-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+                { id: 'wobble-osc', source: 'wobble-1', sourceHandle: 'out', target: 'osc-1', targetHandle: 'frequency' },
+                { id: 'bad-handle', source: 'osc-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'inn' },
+            ],
+            interface: { inputs: [], events: [], midiInputs: [], midiOutputs: [] },
+        } as unknown as PatchDocument;
+
+        render(<PatchRenderer patch={patch} includeProvider lenient onDiagnostics={onDiagnostics} />);
+
+        await waitFor(() => {
+            expect(createOscillator).toHaveBeenCalledTimes(1);
+        });
+        expect(onDiagnostics).toHaveBeenCalledTimes(1);
+        expect(onDiagnostics.mock.calls[0][0]).toEqual([
+            expect.objectContaining({ severity: 'error', code: 'unknown-node-type', nodeId: 'wobble-1' }),
+            expect.objectContaining({ severity: 'error', code: 'missing-connection-node', connectionId: 'wobble-osc' }),
+            expect.objectContaining({
+                severity: 'error',
+                code: 'unknown-target-handle',
+                connectionId: 'bad-handle',
+                handle: 'inn',
+                suggestion: 'Use handle "in".',
+            }),
+        ]);
+    });
+
+    it('drops audio cycles in lenient mode and keeps modulation loops', async () => {
+        const createOscillator = vi.spyOn(MockAudioContext.prototype, 'createOscillator');
+        const onDiagnostics = vi.fn();
+        const patch = {
+            version: 1,
+            name: 'Feedback',
+            nodes: [
+                { id: 'osc-1', type: 'osc', position: { x: 0, y: 0 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sine' } },
+                { id: 'gain-1', type: 'gain', position: { x: 140, y: 0 }, data: { type: 'gain', label: 'Gain', gain: 0.5 } },
+                { id: 'gain-2', type: 'gain', position: { x: 280, y: 0 }, data: { type: 'gain', label: 'Gain', gain: 0.5 } },
+                { id: 'output-1', type: 'output', position: { x: 420, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+            ],
+            connections: [
+                { id: 'osc-gain', source: 'osc-1', sourceHandle: 'out', target: 'gain-1', targetHandle: 'in' },
+                { id: 'gain-gain', source: 'gain-1', sourceHandle: 'out', target: 'gain-2', targetHandle: 'in' },
+                { id: 'gain-loop', source: 'gain-2', sourceHandle: 'out', target: 'gain-1', targetHandle: 'in' },
+                { id: 'gain-fm', source: 'gain-2', sourceHandle: 'out', target: 'osc-1', targetHandle: 'frequency' },
+                { id: 'gain-output', source: 'gain-2', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+            interface: { inputs: [], events: [], midiInputs: [], midiOutputs: [] },
+        } as unknown as PatchDocument;
+
+        render(<PatchRenderer patch={patch} includeProvider lenient onDiagnostics={onDiagnostics} />);
+
+        await waitFor(() => {
+            expect(createOscillator).toHaveBeenCalledTimes(1);
+        });
+        expect(onDiagnostics.mock.calls[0][0]).toEqual([
+            expect.objectContaining({ severity: 'error', code: 'cycle', connectionId: 'gain-loop', nodeId: 'gain-1' }),
+        ]);
+        expect(validatePatchDocument({
+            ...patch,
+            connections: patch.connections.filter((connection) => connection.id !== 'gain-loop'),
+        }).valid).toBe(true);
+    });
+
+    it('renders registered custom node types with their handles and props', async () => {
+        const createOscillator = vi.spyOn(MockAudioContext.prototype, 'createOscillator');
+        const crusherProps: Array<Record<string, unknown>> = [];
+        const displayProps: Array<Record<string, unknown>> = [];
+        const Crusher = ({ children, ...props }: { children?: React.ReactNode; bits?: number; mode?: string }) => {
+            crusherProps.push(props);
+            return <>{children}</>;
+        };
+        const Display = (props: { text?: string }) => {
+            displayProps.push(props);
+            return null;
+        };
+        const unregister = [
+            registerPatchNodeType({ type: 'testCrusher', component: Crusher, isAudio: true, targetHandles: ['bits'] }),
+            registerPatchNodeType({
+                type: 'testDisplay',
+                component: Display,
+                targetHandles: ['level'],
+                buildProps: (data, { resolveControlValue }) => ({
+                    text: `${String(data.prefix)}${String(resolveControlValue('level', { baseValue: 0 }).value)}`,
+                }),
+            }),
+        ];
+
+        let patch: PatchDocument;
+        try {
+            patch = graphDocumentToPatch({
+                name: 'Custom Patch',
+                nodes: [
+                    {
+                        id: 'input-1',
+                        position: { x: 0, y: 0 },
+                        data: {
+                            type: 'input',
+                            label: 'Params',
+                            params: [{ id: 'bits', name: 'bits', label: 'Bits', type: 'float', value: 8, defaultValue: 8, min: 1, max: 16 }],
+                        },
+                    },
+                    { id: 'osc-1', position: { x: 0, y: 80 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'square' } },
+                    { id: 'crusher-1', position: { x: 140, y: 0 }, data: { type: 'testCrusher', label: 'Crusher', bits: 4, mode: 'soft' } },
+                    { id: 'display-1', position: { x: 140, y: 80 }, data: { type: 'testDisplay', label: 'Display', prefix: 'Bits: ' } },
+                    { id: 'output-1', position: { x: 280, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+                ],
+                edges: [
+                    { id: 'bits-crusher', source: 'input-1', sourceHandle: 'param:bits', target: 'crusher-1', targetHandle: 'bits' },
+                    { id: 'bits-display', source: 'input-1', sourceHandle: 'param:bits', target: 'display-1', targetHandle: 'level' },
+                    { id: 'osc-crusher', source: 'osc-1', sourceHandle: 'out', target: 'crusher-1', targetHandle: 'in' },
+                    { id: 'crusher-output', source: 'crusher-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+                ],
+            });
+            expect(() => graphDocumentToPatch({
+                name: 'Bad Handle',
+                nodes: [
+                    { id: 'osc-1', data: { type: 'osc' } },
+                    { id: 'crusher-1', data: { type: 'testCrusher' } },
+                ],
+                edges: [{ id: 'bad', source: 'osc-1', sourceHandle: 'out', target: 'crusher-1', targetHandle: 'bitz' }],
+            })).toThrow(/unsupported target handle "bitz"/);
+
+            const CustomPatch = importPatch(patch, { includeProvider: true });
+            const { rerender } = render(<CustomPatch />);
+
+            await waitFor(() => expect(createOscillator).toHaveBeenCalledTimes(1));
+            expect(crusherProps[crusherProps.length - 1]).toEqual({ bits: 8, mode: 'soft' });
+            expect(displayProps[displayProps.length - 1]).toEqual({ text: 'Bits: 8' });
+
+            rerender(<CustomPatch bits={3} />);
+            await waitFor(() => expect(crusherProps[crusherProps.length - 1]).toEqual({ bits: 3, mode: 'soft' }));
+            expect(displayProps[displayProps.length - 1]).toEqual({ text: 'Bits: 3' });
+        } finally {
+            unregister.forEach((callback) => callback());
+        }
+
+        expect(() => importPatch(patch)).toThrow(/unsupported node type "testCrusher"/);
+    });
+
+    it('sets inputs through the PatchRenderer handle without re-rendering audio params', async () => {
+        const sources: Array<{ offset: { value: number }; connections: unknown[] }> = [];
+        const createConstantSource = MockAudioContext.prototype.createConstantSource;
+        vi.spyOn(MockAudioContext.prototype, 'createConstantSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createConstantSource.call(this);
+            sources.push(source as unknown as (typeof sources)[number]);
+            return source;
+        });
+        const filters: Array<{ frequency: { value: number } }> = [];
+        const createBiquadFilter = MockAudioContext.prototype.createBiquadFilter;
+        vi.spyOn(MockAudioContext.prototype, 'createBiquadFilter').mockImplementation(function (this: MockAudioContext) {
+            const filter = createBiquadFilter.call(this);
+            filters.push(filter as unknown as (typeof filters)[number]);
+            return filter;
+        });
+
+        const patch = graphDocumentToPatch({
+            name: 'Handle Patch',
+            nodes: [
+                {
+                    id: 'input-1',
+                    position: { x: 0, y: 0 },
+                    data: {
+                        type: 'input',
+                        label: 'Params',
+                        params: [
+                            { id: 'cutoff', name: 'cutoff', label: 'Cutoff', type: 'float', value: 800, defaultValue: 800, min: 20, max: 20000 },
+                            { id: 'drive', name: 'drive', label: 'Drive', type: 'float', value: 0.2, defaultValue: 0.2, min: 0, max: 1 },
+                        ],
+                    },
+                },
+                { id: 'osc-1', position: { x: 0, y: 80 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sawtooth' } },
+                { id: 'filter-1', position: { x: 140, y: 0 }, data: { type: 'filter', label: 'Filter', filterType: 'lowpass', frequency: 1000, q: 1, detune: 0, gain: 0 } },
+                { id: 'dist-1', position: { x: 280, y: 0 }, data: { type: 'distortion', label: 'Drive', drive: 0.5, level: 1, mix: 1, tone: 4000 } },
+                { id: 'output-1', position: { x: 420, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+            ],
+            edges: [
+                { id: 'cutoff-filter', source: 'input-1', sourceHandle: 'param:cutoff', target: 'filter-1', targetHandle: 'frequency' },
+                { id: 'drive-dist', source: 'input-1', sourceHandle: 'param:drive', target: 'dist-1', targetHandle: 'drive' },
+                { id: 'osc-filter', source: 'osc-1', sourceHandle: 'out', target: 'filter-1', targetHandle: 'in' },
+                { id: 'filter-dist', source: 'filter-1', sourceHandle: 'out', target: 'dist-1', targetHandle: 'in' },
+                { id: 'dist-output', source: 'dist-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        const ref = React.createRef<PatchHandle<typeof patch>>();
+        let renders = 0;
+        const view = (drive?: number) => (
+            <React.Profiler id="patch" onRender={() => { renders += 1; }}>
+                <PatchRenderer ref={ref} patch={patch} includeProvider drive={drive} />
+            </React.Profiler>
+        );
+        const { rerender, unmount } = render(view());
+
+        await waitFor(() => expect(sources).toHaveLength(1));
+        const signal = sources[0];
+        const signalOutput = signal.connections[0] as { connections: unknown[] };
+        await waitFor(() => expect(filters.some((filter) => signalOutput.connections.includes(filter.frequency))).toBe(true));
+        const filter = filters.find((candidate) => signalOutput.connections.includes(candidate.frequency));
+        expect(signal.offset.value).toBe(800);
+        expect(filter?.frequency.value).toBe(0);
+        expect(ref.current?.getInput('cutoff')).toBe(800);
+        expect(ref.current?.getInput('drive')).toBe(0.2);
+
+        const changes: Array<[string, number]> = [];
+        const unsubscribe = ref.current!.subscribe((key, value) => changes.push([key, value]));
+        const rendersBefore = renders;
+        act(() => ref.current?.setInput('cutoff', 1200, { rampTime: 0.05 }));
+
+        expect(renders).toBe(rendersBefore);
+        expect(signal.offset.value).toBe(1200);
+        expect(ref.current?.getInput('cutoff')).toBe(1200);
+        expect(changes).toEqual([['cutoff', 1200]]);
+
+        act(() => ref.current?.setInput('drive', 0.9));
+        expect(renders).toBeGreaterThan(rendersBefore);
+        expect(ref.current?.getInput('drive')).toBe(0.9);
+
+        // Re-rendering with unchanged props keeps the handle values
+        rerender(view());
+        expect(ref.current?.getInput('drive')).toBe(0.9);
+        expect(ref.current?.getInput('cutoff')).toBe(1200);
+
+        rerender(view(0.4));
+        await waitFor(() => expect(ref.current?.getInput('drive')).toBe(0.4));
+        expect(changes).toEqual([['cutoff', 1200], ['drive', 0.9], ['drive', 0.4]]);
+
+        unsubscribe();
+        act(() => ref.current?.setInput('cutoff', 400));
+        expect(changes).toHaveLength(3);
+        expect(() => ref.current?.setInput('missing' as 'cutoff', 1)).toThrow('Patch input "missing" does not exist.');
+        expect(() => ref.current?.fireEvent('missing' as never)).toThrow('Patch event "missing" does not exist.');
+
+        unmount();
+        expect(signalOutput.connections).not.toContain(filter?.frequency);
+    });
+
+    it('sets registered node target handles through the handle as signals', async () => {
+        const sources: Array<{ offset: { value: number } }> = [];
+        const createConstantSource = MockAudioContext.prototype.createConstantSource;
+        vi.spyOn(MockAudioContext.prototype, 'createConstantSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createConstantSource.call(this);
+            sources.push(source as unknown as (typeof sources)[number]);
+            return source;
+        });
+        const shaperProps: Array<Record<string, unknown>> = [];
+        const Shaper = ({ children, ...props }: { children?: React.ReactNode; amount?: unknown }) => {
+            shaperProps.push(props);
+            return <>{children}</>;
+        };
+        const unregister = registerPatchNodeType({ type: 'testShaper', component: Shaper, isAudio: true, targetHandles: ['amount'] });
+
+        try {
+            const patch = graphDocumentToPatch({
+                name: 'Shaper Patch',
+                nodes: [
+                    {
+                        id: 'input-1',
+                        position: { x: 0, y: 0 },
+                        data: {
+                            type: 'input',
+                            label: 'Params',
+                            params: [{ id: 'amount', name: 'amount', label: 'Amount', type: 'float', value: 0.2, defaultValue: 0.2, min: 0, max: 1 }],
+                        },
+                    },
+                    { id: 'osc-1', position: { x: 0, y: 80 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sine' } },
+                    { id: 'shaper-1', position: { x: 140, y: 0 }, data: { type: 'testShaper', label: 'Shaper' } },
+                    { id: 'output-1', position: { x: 280, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+                ],
+                edges: [
+                    { id: 'amount-shaper', source: 'input-1', sourceHandle: 'param:amount', target: 'shaper-1', targetHandle: 'amount' },
+                    { id: 'osc-shaper', source: 'osc-1', sourceHandle: 'out', target: 'shaper-1', targetHandle: 'in' },
+                    { id: 'shaper-output', source: 'shaper-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+                ],
+            });
+            const ref = React.createRef<PatchHandle>();
+            let renders = 0;
+
+            render(
+                <React.Profiler id="patch" onRender={() => { renders += 1; }}>
+                    <PatchRenderer ref={ref} patch={patch} includeProvider />
+                </React.Profiler>
+            );
+
+            await waitFor(() => expect(sources).toHaveLength(1));
+            await waitFor(() => expect(shaperProps[shaperProps.length - 1]?.amount).toMatchObject({ __modulationSignal: true }));
+            expect(sources[0].offset.value).toBe(0.2);
+
+            const rendersBefore = renders;
+            act(() => ref.current?.setInput('amount', 0.7));
+            expect(renders).toBe(rendersBefore);
+            expect(sources[0].offset.value).toBe(0.7);
+            expect(ref.current?.getInput('amount')).toBe(0.7);
+        } finally {
+            unregister();
+        }
+    });
+
+    it('renders a patch typed as a plain PatchDocument and drives it through the handle', async () => {
+        const patch: PatchDocument = graphDocumentToPatch({
+            name: 'Plain Patch',
+            nodes: [
+                {
+                    id: 'input-1',
+                    position: { x: 0, y: 0 },
+                    data: {
+                        type: 'input',
+                        label: 'Params',
+                        params: [{ id: 'level', name: 'level', label: 'Level', type: 'float', value: 0.5, defaultValue: 0.5, min: 0, max: 1 }],
+                    },
+                },
+                { id: 'osc-1', position: { x: 0, y: 80 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sine' } },
+                { id: 'gain-1', position: { x: 140, y: 0 }, data: { type: 'gain', label: 'Gain', gain: 1 } },
+                { id: 'output-1', position: { x: 280, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+            ],
+            edges: [
+                { id: 'level-gain', source: 'input-1', sourceHandle: 'param:level', target: 'gain-1', targetHandle: 'gain' },
+                { id: 'osc-gain', source: 'osc-1', sourceHandle: 'out', target: 'gain-1', targetHandle: 'in' },
+                { id: 'gain-output', source: 'gain-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+        const ref = React.createRef<PatchHandle>();
+
+        render(<PatchRenderer ref={ref} patch={patch} includeProvider />);
+
+        await waitFor(() => expect(ref.current?.getInput('level')).toBe(0.5));
+        act(() => ref.current?.setInput('level', 0.8));
+        expect(ref.current?.getInput('level')).toBe(0.8);
+    });
+
     it('accepts patch nodes with implicit audio and named slot handles', () => {
         const inlinePatch = graphDocumentToPatch({
             name: 'Inline Child',
@@ -726,4 +1673,37 @@ describe('patch import/export runtime', () => {
         const nodeById = new Map(patch.nodes.map((node) => [node.id, node] as const));
         expect(getTransportConnections(patch.connections, nodeById)).toEqual(new Set(['player-1']));
     });
+
+    it('renders a patch offline and encodes the result as WAV', async () => {
+        const patch = graphDocumentToPatch({
+            name: 'Offline Tone',
+            nodes: [
+                {
+                    id: 'osc-1',
+                    position: { x: 0, y: 0 },
+                    data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sine' },
+                },
+                {
+                    id: 'output-1',
+                    position: { x: 140, y: 0 },
+                    data: { type: 'output', label: 'Output', playing: true, masterGain: 0.5 },
+                },
+            ],
+            edges: [
+                { id: 'osc-output', source: 'osc-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+            ],
+        });
+
+        const { buffer, toWav } = await renderPatchOffline(patch, { duration: 0.1, sampleRate: 8000 });
+        const wav = toWav();
+        const view = new DataView(wav);
+        const ascii = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4));
+
+        expect(buffer.numberOfChannels).toBe(2);
+        expect(ascii(0)).toBe('RIFF');
+        expect(ascii(8)).toBe('WAVE');
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(8000);
+        expect(wav.byteLength).toBe(44 + buffer.length * 2 * 2);
+    });
 });
@@ -1,4 +1,5 @@
-import { render } from '@testing-library/react';
+import { cleanup, fireEvent, render, waitFor } from '@testing-library/react';
+import { afterEach } from 'vitest';
 import React from 'react';
 import {
     AudioProvider,
@@ -10,6 +11,7 @@ import {
     EQ3,
     EventTrigger,
     Flanger,
+    GranularSampler,
     LFO,
     MatrixMixer,
     Noise,
@@ -20,6 +22,13 @@ import {
     Tremolo,
     TriggeredSampler,
 } from '@open-din/react';
+import { MockAudioBuffer, MockAudioContext, MockAudioNode } from '../helpers/mockWebAudio';
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
 
 describe('sources and effects', () => {
     it('mounts representative source and effect chains without crashing', () => {
@@ -62,4 +71,88 @@ describe('sources and effects', () => {
             )
         ).not.toThrow();
     });
+
+    it('schedules windowed grains at the granular position and pitch', async () => {
+        const createBufferSource = MockAudioContext.prototype.createBufferSource;
+        const starts: Array<{ playbackRate: number; args: unknown[] }> = [];
+        vi.spyOn(MockAudioContext.prototype, 'createBufferSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createBufferSource.call(this);
+            source.start = (...args: unknown[]) => {
+                starts.push({ playbackRate: source.playbackRate.value, args });
+            };
+            return source;
+        });
+        const buffer = new MockAudioBuffer(1, 44100, 44100) as unknown as AudioBuffer;
+
+        render(
+            <AudioProvider>
+                <GranularSampler src={buffer} position={0.5} grainSize={0.1} pitch={12} density={20} autoStart />
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(starts.length).toBeGreaterThan(0);
+        });
+        expect(starts[0].playbackRate).toBe(2);
+        expect(starts[0].args).toEqual([0, 0.5, 0.2]);
+        expect(starts[1]?.args[0]).toBeCloseTo(0.05);
+    });
+
+    it('reads modulation signals around the granular position base', async () => {
+        const createBufferSource = MockAudioContext.prototype.createBufferSource;
+        const offsets: unknown[] = [];
+        vi.spyOn(MockAudioContext.prototype, 'createBufferSource').mockImplementation(function (this: MockAudioContext) {
+            const source = createBufferSource.call(this);
+            source.start = (...args: unknown[]) => {
+                offsets.push(args[1]);
+            };
+            return source;
+        });
+        const buffer = new MockAudioBuffer(1, 44100, 44100) as unknown as AudioBuffer;
+        const signal = new MockAudioNode();
+
+        render(
+            <AudioProvider>
+                <GranularSampler
+                    src={buffer}
+                    position={{ node: signal as unknown as AudioNode, __modulationSignal: true }}
+                    positionBase={0.25}
+                    grainSize={0.1}
+                    density={20}
+                    autoStart
+                />
+            </AudioProvider>
+        );
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(offsets.length).toBeGreaterThan(0);
+        });
+        expect(signal.connections).toHaveLength(1);
+        expect(offsets[0]).toBe(0.25);
+    });
+
+    it('shares one fetch per URL across samplers and reverbs', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new ArrayBuffer(16) });
+        vi.stubGlobal('fetch', fetchMock);
+        const onLoad = vi.fn();
+
+        render(
+            <AudioProvider>
+                <Reverb impulse="/samples/hit.wav">
+                    <Sampler src="/samples/hit.wav" onLoad={onLoad} />
+                    <Sampler src="/samples/hit.wav" onLoad={onLoad} />
+                    <TriggeredSampler src="/samples/hit.wav" />
+                    <GranularSampler src="/samples/hit.wav" />
+                </Reverb>
+            </AudioProvider>
+        );
+
+        await waitFor(() => {
+            expect(onLoad).toHaveBeenCalledTimes(2);
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock).toHaveBeenCalledWith('/samples/hit.wav');
+    });
 });
@@ -1,6 +1,18 @@
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React, { useState } from 'react';
-import { AudioProvider, EventTrigger, Sequencer, Track, TransportProvider, useOnTrigger, useTrigger, useTransport } from '@open-din/react';
+import {
+    AudioProvider,
+    EventTrigger,
+    getSchedulerClock,
+    renderOffline,
+    Sequencer,
+    Track,
+    TransportProvider,
+    useOnTrigger,
+    useTrigger,
+    useTransport,
+} from '@open-din/react';
+import { MockAudioContext } from '../helpers/mockWebAudio';
 
 function TransportProbe() {
     const transport = useTransport();
@@ -149,4 +161,196 @@ describe('transport and sequencer components', () => {
             expect(Number(screen.getByTestId('manual-steps').textContent ?? '0')).toBeGreaterThan(0);
         });
     });
+
+    it('emits one trigger per track note with per-note duration', async () => {
+        function NoteLog() {
+            const [notes, setNotes] = useState<string[]>([]);
+            useOnTrigger((event) => {
+                setNotes((previous) => [...previous, `${event.note}:${event.duration.toFixed(3)}`]);
+            });
+            return <span data-testid="note-log">{notes.join(',')}</span>;
+        }
+
+        render(
+            <AudioProvider>
+                <Sequencer bpm={120} steps={4} autoStart>
+                    <Track
+                        id="chords"
+                        notes={[
+                            { step: 0, note: 60, length: 2 },
+                            { step: 0, note: 64, velocity: 0.5 },
+                            { step: 0, note: 67, length: 4 },
+                            { step: 2, note: 72 },
+                        ]}
+                    >
+                        <NoteLog />
+                    </Track>
+                </Sequencer>
+            </AudioProvider>
+        );
+
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(screen.getByTestId('note-log').textContent).toMatch(/^60:0\.250,64:0\.125,67:0\.500/);
+        });
+    });
+
+    it('only fires soloed tracks while any track is soloed', async () => {
+        function TrackCount({ testId }: { testId: string }) {
+            const [count, setCount] = useState(0);
+            useOnTrigger(() => {
+                setCount((value) => value + 1);
+            });
+            return <span data-testid={testId}>{count}</span>;
+        }
+
+        render(
+            <AudioProvider>
+                <Sequencer bpm={120} steps={4} autoStart>
+                    <Track id="kick" pattern={[1, 1, 1, 1]} solo>
+                        <TrackCount testId="kick-count" />
+                    </Track>
+                    <Track id="hat" pattern={[1, 1, 1, 1]}>
+                        <TrackCount testId="hat-count" />
+                    </Track>
+                </Sequencer>
+            </AudioProvider>
+        );
+
+        fireEvent.click(document);
+
+        await waitFor(() => {
+            expect(Number(screen.getByTestId('kick-count').textContent)).toBeGreaterThan(0);
+        });
+        expect(screen.getByTestId('hat-count')).toHaveTextContent('0');
+    });
+
+    it('follows the surrounding transport tempo, swing and position', async () => {
+        const steps: string[] = [];
+
+        await renderOffline(
+            <TransportProvider bpm={120} swing={0.5}>
+                <Sequencer
+                    steps={4}
+                    autoStart
+                    onStep={(step, time) => {
+                        steps.push(`${step}@${time.toFixed(5)}`);
+                    }}
+                >
+                    {null}
+                </Sequencer>
+            </TransportProvider>,
+            { duration: 0.6, sampleRate: 8000 }
+        );
+
+        expect(steps.slice(0, 5)).toEqual([
+            '0@0.00000',
+            '1@0.15625',
+            '2@0.25000',
+            '3@0.40625',
+            '0@0.50000',
+        ]);
+    });
+
+    it('shares one scheduler clock per audio context and interval', () => {
+        const context = new MockAudioContext() as unknown as BaseAudioContext;
+        const setIntervalSpy = vi.spyOn(globalThis, 'setInterval');
+        const clock = getSchedulerClock(context);
+        const first = vi.fn();
+        const second = vi.fn();
+
+        expect(getSchedulerClock(context)).toBe(clock);
+        expect(getSchedulerClock(context, 50)).not.toBe(clock);
+
+        const unsubscribeFirst = clock.subscribe(first);
+        const unsubscribeSecond = clock.subscribe(second);
+        clock.tick();
+
+        expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledWith(0);
+        expect(second).toHaveBeenCalledWith(0);
+
+        unsubscribeFirst();
+        unsubscribeSecond();
+        setIntervalSpy.mockRestore();
+    });
+
+    it('follows tempo map changes while playing', async () => {
+        const bars: string[] = [];
+
+        await renderOffline(
+            <TransportProvider
+                bpm={120}
+                tempoMap={[{ bar: 1, bpm: 240, beatsPerBar: 2 }]}
+                onBar={(bar, time) => {
+                    bars.push(`${bar}@${time.toFixed(3)}`);
+                }}
+            >
+                <Sequencer autoStart>{null}</Sequencer>
+            </TransportProvider>,
+            { duration: 3.05, sampleRate: 8000 }
+        );
+
+        expect(bars.slice(0, 4)).toEqual(['0@0.000', '1@2.000', '2@2.500', '3@3.000']);
+    });
+
+    it('wraps at the loop region and reports markers', async () => {
+        const events: string[] = [];
+
+        await renderOffline(
+            <TransportProvider
+                bpm={240}
+                loopRegion={{ start: { bar: 1 }, end: { bar: 2 } }}
+                markers={[{ name: 'verse', position: { bar: 1 } }]}
+                onBar={(bar, time) => events.push(`bar ${bar}@${time.toFixed(3)}`)}
+                onLoop={(time) => events.push(`loop@${time.toFixed(3)}`)}
+                onMarker={(name, time) => events.push(`${name}@${time.toFixed(3)}`)}
+            >
+                <Sequencer autoStart>{null}</Sequencer>
+            </TransportProvider>,
+            { duration: 2.05, sampleRate: 8000 }
+        );
+
+        expect(events.slice(0, 6)).toEqual([
+            'bar 0@0.000',
+            'bar 1@1.000',
+            'verse@1.000',
+            'loop@2.000',
+            'bar 1@2.000',
+            'verse@2.000',
+        ]);
+    });
+
+    it('seeks to markers by name and to absolute steps', async () => {
+        let transport: ReturnType<typeof useTransport> | null = null;
+
+        function MarkerProbe() {
+            transport = useTransport();
+            return <span data-testid="marker-steps">{transport.totalSteps}</span>;
+        }
+
+        render(
+            <AudioProvider>
+                <TransportProvider markers={[{ name: 'chorus', position: { bar: 2, beat: 1 } }]}>
+                    <MarkerProbe />
+                </TransportProvider>
+            </AudioProvider>
+        );
+
+        act(() => {
+            transport?.seek('chorus');
+        });
+
+        expect(screen.getByTestId('marker-steps')).toHaveTextContent('36');
+        expect(() => transport?.seek('bridge')).toThrow('Unknown transport marker "bridge".');
+
+        act(() => {
+            transport?.seek({ totalSteps: 70 });
+        });
+
+        expect(screen.getByTestId('marker-steps')).toHaveTextContent('70');
+        expect(transport?.bar).toBe(0);
+        expect(transport?.beat).toBe(1);
+    });
 });
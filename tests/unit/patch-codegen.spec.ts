@@ -0,0 +1,94 @@
+import ts from 'typescript';
+import { generatePatchModule, graphDocumentToPatch, migratePatchDocument } from '@open-din/react';
+import { formatPropertyKey } from '../../src/patch/codegen';
+
+function getSyntaxErrors(source: string): string[] {
+    const { diagnostics = [] } = ts.transpileModule(source, {
+        reportDiagnostics: true,
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    });
+    return diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+const createPatch = () => graphDocumentToPatch({
+    name: 'Lead */ Synth',
+    nodes: [
+        {
+            id: 'input-1',
+            position: { x: 0, y: 0 },
+            data: {
+                type: 'input',
+                label: 'Params',
+                params: [
+                    { id: 'cutoff', name: 'cutoff', label: 'Filter Cutoff', type: 'float', value: 800, defaultValue: 800, min: 20, max: 20000 },
+                ],
+            },
+        },
+        {
+            id: 'event-1',
+            position: { x: 0, y: 80 },
+            data: { type: 'eventTrigger', label: 'Bang', token: 0, mode: 'change', cooldownMs: 0, velocity: 1, duration: 0.1, note: 60, trackId: 'bang' },
+        },
+        { id: 'osc-1', position: { x: 0, y: 160 }, data: { type: 'osc', label: 'Osc', frequency: 220, detune: 0, waveform: 'sawtooth' } },
+        { id: 'filter-1', position: { x: 140, y: 0 }, data: { type: 'filter', label: 'Filter', filterType: 'lowpass', frequency: 1000, q: 1, detune: 0, gain: 0 } },
+        { id: 'output-1', position: { x: 280, y: 0 }, data: { type: 'output', label: 'Output', playing: false, masterGain: 0.5 } },
+    ],
+    edges: [
+        { id: 'cutoff-filter', source: 'input-1', sourceHandle: 'param:cutoff', target: 'filter-1', targetHandle: 'frequency' },
+        { id: 'osc-filter', source: 'osc-1', sourceHandle: 'out', target: 'filter-1', targetHandle: 'in' },
+        { id: 'filter-output', source: 'filter-1', sourceHandle: 'out', target: 'output-1', targetHandle: 'in' },
+    ],
+});
+
+describe('patch codegen', () => {
+    it('emits the typed document, props with input docs, and a PatchRenderer component', () => {
+        const patch = createPatch();
+        const source = generatePatchModule(patch, { sourceFile: 'lead.patch.json', includeProvider: true, assetRoot: "/it's" });
+
+        expect(source.startsWith('// Generated from lead.patch.json by generatePatchModule. Do not edit.\n')).toBe(true);
+        expect(source).toContain("import { PatchRenderer, type PatchDocument, type PatchHandle, type PatchRendererProps } from '@open-din/react';");
+
+        const documentSource = source.match(/export const leadSynthPatch = ([\s\S]*?) as const satisfies PatchDocument;/);
+        expect(documentSource).not.toBeNull();
+        expect(JSON.parse(documentSource![1])).toEqual(JSON.parse(JSON.stringify(migratePatchDocument(patch))));
+
+        expect(source).toContain('export type LeadSynthPatchHandle = PatchHandle<typeof leadSynthPatch>;');
+        expect(source).toContain("export interface LeadSynthPatchProps extends Omit<PatchRendererProps<typeof leadSynthPatch>, 'patch'> {");
+        expect(source).toContain([
+            '    /**',
+            '     * Filter Cutoff.',
+            '     *',
+            '     * Range 20 to 20000; defaults to 800.',
+            '     */',
+            '    filterCutoff?: number;',
+        ].join('\n'));
+        expect(source).toContain('    bang?: unknown;');
+        expect(source).toContain('the public inputs and events of "Lead *\\/ Synth".');
+        expect(source).toContain(
+            "createElement(PatchRenderer<typeof leadSynthPatch>, { includeProvider: true, assetRoot: '/it\\'s', ...props, patch: leadSynthPatch, ref })"
+        );
+    });
+
+    it('emits a module that parses, quoting prop keys that are not identifiers', () => {
+        expect(getSyntaxErrors(generatePatchModule(createPatch(), { sourceFile: 'lead.patch.json', assetRoot: '/assets' }))).toEqual([]);
+
+        expect(formatPropertyKey('cutoff')).toBe('cutoff');
+        expect(formatPropertyKey('cut-off')).toBe("'cut-off'");
+        expect(getSyntaxErrors(`interface Props {\n    ${formatPropertyKey('cut-off')}?: number;\n}`)).toEqual([]);
+        expect(getSyntaxErrors('interface Props {\n    cut-off?: number;\n}')).not.toEqual([]);
+    });
+
+    it('uses the requested component name and rejects invalid ones', () => {
+        const source = generatePatchModule(createPatch(), { componentName: 'Lead', importSource: '../src' });
+
+        expect(source).toContain("from '../src';");
+        expect(source).toContain('export const leadPatch = {');
+        expect(source).toContain('export const Lead = forwardRef<LeadHandle, LeadProps>(function Lead(props, ref) {');
+        expect(generatePatchModule(createPatch(), { componentName: 'LeadPatch' })).toContain('export const leadPatch = {');
+        expect(generatePatchModule(createPatch(), { componentName: 'leadPatch' })).toContain('export const leadPatchDocument = {');
+        expect(() => generatePatchModule(createPatch(), { componentName: 'Lead Synth' })).toThrow(
+            'Patch component name "Lead Synth" is not a valid identifier.'
+        );
+        expect(() => generatePatchModule({ version: 99 })).toThrow();
+    });
+});
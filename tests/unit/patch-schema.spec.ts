@@ -1,5 +1,16 @@
 import patchSchema from '../../schemas/patch.schema.json';
-import { PATCH_DOCUMENT_VERSION, graphDocumentToPatch } from '@open-din/react';
+import {
+    PATCH_DOCUMENT_VERSION,
+    createPatchSchema,
+    downgradePatchDocument,
+    graphDocumentToPatch,
+    migratePatchDocumentWithReport,
+    registerPatchNodeType,
+    validatePatchDocument,
+    type PatchDocument,
+    type VersionedPatchDocument,
+} from '@open-din/react';
+import { runPatchMigrations, type PatchMigration } from '../../src/patch/document/migrations';
 
 describe('patch schema contract', () => {
     it('keeps the published schema aligned with the current patch version and public interface shape', () => {
@@ -106,3 +117,204 @@ describe('patch schema contract', () => {
         });
     });
 });
+
+describe('patch migrations', () => {
+    const migrations: PatchMigration[] = [
+        {
+            from: 1,
+            description: 'Rename title to name',
+            up: (patch, changes) => {
+                const { title, ...rest } = patch;
+                changes.push('Renamed "title" to "name".');
+                return { ...rest, name: title };
+            },
+            down: (patch, changes) => {
+                const { name, ...rest } = patch;
+                changes.push('Renamed "name" to "title".');
+                return { ...rest, title: name };
+            },
+        },
+        {
+            from: 2,
+            description: 'Add tags',
+            up: (patch, changes) => {
+                changes.push('Added empty "tags".');
+                return { ...patch, tags: [] };
+            },
+        },
+    ];
+
+    it('walks the registered chain up and down one version at a time', () => {
+        const saved: VersionedPatchDocument = { version: 1, title: 'Saved' };
+
+        const upgraded = runPatchMigrations(saved, 3, migrations);
+        expect(upgraded.patch).toEqual({ version: 3, name: 'Saved', tags: [] });
+        expect(upgraded.report).toEqual({
+            fromVersion: 1,
+            toVersion: 3,
+            steps: [
+                { from: 1, to: 2, description: 'Rename title to name', changes: ['Renamed "title" to "name".'] },
+                { from: 2, to: 3, description: 'Add tags', changes: ['Added empty "tags".'] },
+            ],
+        });
+        expect(saved).toEqual({ version: 1, title: 'Saved' });
+
+        expect(runPatchMigrations({ version: 2, name: 'Saved' }, 1, migrations).patch).toEqual({ version: 1, title: 'Saved' });
+        expect(() => runPatchMigrations(upgraded.patch, 2, migrations)).toThrow(/cannot be downgraded to 2 without losing data/);
+        expect(() => runPatchMigrations(saved, 5, migrations)).toThrow(/No patch migration is registered between versions 3 and 4/);
+    });
+
+    it('migrates current documents without steps and rejects unknown versions', () => {
+        const patch = graphDocumentToPatch({ name: 'Current', nodes: [], edges: [] });
+
+        const { patch: migrated, report } = migratePatchDocumentWithReport(patch);
+        expect(migrated).toEqual(patch);
+        expect(report).toEqual({ fromVersion: PATCH_DOCUMENT_VERSION, toVersion: PATCH_DOCUMENT_VERSION, steps: [] });
+
+        expect(() => migratePatchDocumentWithReport({ ...patch, version: PATCH_DOCUMENT_VERSION + 1 })).toThrow(
+            /Unsupported patch version .*reads patch versions up to/
+        );
+        expect(() => migratePatchDocumentWithReport({ ...patch, version: 0 })).toThrow(/Unsupported patch version "0"/);
+        expect(downgradePatchDocument(patch, PATCH_DOCUMENT_VERSION)).toEqual(patch);
+        expect(() => downgradePatchDocument(patch, 0)).toThrow(/Cannot export patch version 0/);
+    });
+});
+
+describe('patch validation', () => {
+    const node = (id: string, type: string, data: Record<string, unknown> = {}) => ({
+        id,
+        type,
+        position: { x: 0, y: 0 },
+        data: { type, label: id, ...data },
+    });
+    const edge = (id: string, source: string, sourceHandle: string, target: string, targetHandle: string) => ({
+        id, source, sourceHandle, target, targetHandle,
+    });
+
+    it('accepts a connected patch without diagnostics', () => {
+        const patch = graphDocumentToPatch({
+            name: 'Clean',
+            nodes: [node('osc-1', 'osc', { frequency: 440 }), node('output-1', 'output')],
+            edges: [edge('osc-output', 'osc-1', 'out', 'output-1', 'in')],
+        });
+
+        expect(validatePatchDocument(patch)).toEqual({ valid: true, diagnostics: [] });
+    });
+
+    it('reports every problem at once with codes, locations and suggestions', () => {
+        const patch = {
+            version: 1,
+            name: 'Broken',
+            nodes: [
+                node('osc-1', 'osc'),
+                node('filter-1', 'filtr'),
+                node('gain-1', 'gain'),
+                node('gain-2', 'gain'),
+                node('gain-2', 'gain'),
+                node('lfo-1', 'lfo'),
+                node('output-1', 'output'),
+            ],
+            connections: [
+                edge('osc-gain', 'osc-1', 'out', 'gain-1', 'in'),
+                edge('gain-gain', 'gain-1', 'out', 'gain-2', 'in'),
+                edge('gain-loop', 'gain-2', 'out', 'gain-1', 'in'),
+                edge('gain-output', 'gain-2', 'out', 'output-1', 'in'),
+                edge('osc-bad', 'osc-1', 'output', 'output-1', 'in'),
+            ],
+            interface: {
+                inputs: [{ id: 'input-9:cutoff', key: 'cutoff', label: 'Cutoff', kind: 'input', nodeId: 'input-9', paramId: 'cutoff', handle: 'param:cutoff', defaultValue: 0, min: 0, max: 1 }],
+                events: [],
+                midiInputs: [],
+                midiOutputs: [],
+            },
+        } as unknown as PatchDocument;
+
+        const report = validatePatchDocument(patch);
+
+        expect(report.valid).toBe(false);
+        expect(report.diagnostics).toEqual([
+            expect.objectContaining({ severity: 'error', code: 'unknown-node-type', nodeId: 'filter-1', suggestion: 'Use node type "filter".' }),
+            expect.objectContaining({ severity: 'error', code: 'duplicate-node-id', nodeId: 'gain-2' }),
+            expect.objectContaining({
+                severity: 'error',
+                code: 'unknown-source-handle',
+                connectionId: 'osc-bad',
+                nodeId: 'osc-1',
+                handle: 'output',
+                suggestion: 'Use handle "out".',
+            }),
+            expect.objectContaining({ severity: 'error', code: 'cycle', connectionId: 'gain-loop', nodeId: 'gain-1' }),
+            expect.objectContaining({ severity: 'warning', code: 'unreachable-node', nodeId: 'lfo-1' }),
+            expect.objectContaining({
+                severity: 'warning',
+                code: 'dangling-interface-entry',
+                nodeId: 'input-9',
+                message: 'Patch interface input "cutoff" references missing node "input-9".',
+            }),
+        ]);
+    });
+
+    it('reports invalid documents and nodes, unsupported versions and patches without outputs', () => {
+        const patch = graphDocumentToPatch({ name: 'Silent', nodes: [node('osc-1', 'osc')], edges: [] });
+
+        expect(validatePatchDocument(patch)).toEqual({
+            valid: true,
+            diagnostics: [expect.objectContaining({ severity: 'warning', code: 'unreachable-node', message: 'Patch has no output node, so nothing it renders is heard.' })],
+        });
+        expect(validatePatchDocument({ ...patch, version: PATCH_DOCUMENT_VERSION + 1 })).toEqual({
+            valid: false,
+            diagnostics: [expect.objectContaining({ severity: 'error', code: 'unsupported-version' })],
+        });
+        expect(validatePatchDocument({ ...patch, nodes: [{ id: 'osc-1', type: 'osc', data: { label: 'Osc' } }] } as unknown as PatchDocument)).toEqual({
+            valid: false,
+            diagnostics: [expect.objectContaining({
+                severity: 'error',
+                code: 'invalid-node',
+                nodeId: 'osc-1',
+                message: 'Patch node "osc-1" is missing a valid data.type.',
+            })],
+        });
+        expect(validatePatchDocument(null as unknown as PatchDocument)).toEqual({
+            valid: false,
+            diagnostics: [expect.objectContaining({ severity: 'error', code: 'invalid-document', message: 'Patch document must be an object.' })],
+        });
+    });
+});
+
+describe('custom patch node types', () => {
+    const Component = () => null;
+
+    it('adds registered types and their data schemas to the generated schema', () => {
+        expect(createPatchSchema()).toEqual(patchSchema);
+
+        const unregister = registerPatchNodeType({
+            type: 'testRing',
+            component: Component,
+            isAudio: true,
+            schema: { properties: { ratio: { type: 'number', minimum: 0 } } },
+        });
+        try {
+            const schema = createPatchSchema() as typeof patchSchema & {
+                $defs: { patchNodeData: { allOf?: unknown[] } };
+            };
+            expect(schema.$defs.nodeType.enum).toEqual([...patchSchema.$defs.nodeType.enum, 'testRing']);
+            expect(schema.$defs.patchNodeData.allOf).toEqual([
+                {
+                    if: { properties: { type: { const: 'testRing' } }, required: ['type'] },
+                    then: { properties: { ratio: { type: 'number', minimum: 0 } } },
+                },
+            ]);
+            expect(patchSchema.$defs.nodeType.enum).not.toContain('testRing');
+
+            expect(() => registerPatchNodeType({ type: 'testRing', component: Component })).toThrow(/already registered/);
+            expect(() => registerPatchNodeType({ type: 'gain', component: Component })).toThrow(/is built in/);
+            expect(() => registerPatchNodeType({ type: 'testBad', component: Component, sourceHandles: [''] })).toThrow(
+                /empty source handle id/
+            );
+        } finally {
+            unregister();
+        }
+
+        expect(createPatchSchema()).toEqual(patchSchema);
+    });
+});
@@ -0,0 +1,43 @@
+import { secondsToTimePosition, timePositionToSeconds, type TempoMapPoint } from '../../src/transport';
+
+const tempoMap: TempoMapPoint[] = [
+    { bar: 2, bpm: 60, ramp: 'linear' },
+    { bar: 4, beatsPerBar: 3 },
+];
+// 32 steps ramping 120 -> 60 bpm: (60 * 32) / (4 * -60) * ln(60 / 120)
+const rampSeconds = -8 * Math.log(0.5);
+
+describe('tempo map conversions', () => {
+    it('converts positions with a constant tempo', () => {
+        expect(timePositionToSeconds({ bar: 1 }, { bpm: 120 })).toBe(2);
+        expect(timePositionToSeconds({ beat: 1, step: 2 }, { bpm: 120 })).toBe(0.75);
+        expect(secondsToTimePosition(2.75, { bpm: 120 })).toMatchObject({ phrase: 0, bar: 1, beat: 1, step: 2, totalSteps: 22 });
+    });
+
+    it('integrates linear ramps and meter changes', () => {
+        const config = { bpm: 120, tempoMap };
+
+        expect(timePositionToSeconds({ bar: 2 }, config)).toBeCloseTo(rampSeconds, 6);
+        expect(timePositionToSeconds({ bar: 3 }, config)).toBeCloseTo(rampSeconds + 4, 6);
+        // Bar 5 is the second bar of phrase 1 and the first full 3/4 bar after bar 4
+        expect(timePositionToSeconds({ phrase: 1, bar: 1 }, config)).toBeCloseTo(rampSeconds + 8 + 3, 6);
+
+        expect(secondsToTimePosition(rampSeconds + 8 + 1.5, config)).toMatchObject({ phrase: 1, bar: 0, beat: 1, step: 2 });
+        expect(secondsToTimePosition(rampSeconds + 8 + 3, config)).toMatchObject({ phrase: 1, bar: 1, beat: 0, step: 0 });
+    });
+
+    it('round-trips positions inside a ramp', () => {
+        const config = { bpm: 120, tempoMap };
+        const seconds = timePositionToSeconds({ bar: 1, beat: 2, step: 1 }, config);
+
+        expect(seconds).toBeGreaterThan(3);
+        expect(seconds).toBeLessThan(rampSeconds);
+        expect(secondsToTimePosition(seconds, config)).toMatchObject({ bar: 1, beat: 2, step: 1, totalSteps: 25 });
+    });
+
+    it('rejects points between bars', () => {
+        expect(() => timePositionToSeconds({ bar: 1 }, { tempoMap: [{ bar: 1.5, bpm: 90 }] })).toThrow(
+            'Tempo map points must be at whole, non-negative bars'
+        );
+    });
+});
@@ -13,6 +13,8 @@ export default defineConfig({
         'midi/index': 'src/midi/index.ts',
         'data/index': 'src/data/index.ts',
         'patch/index': 'src/patch/index.ts',
+        'patch/cli': 'src/patch/cli.ts',
+        'offline/index': 'src/offline/index.ts',
         'routing/index': 'src/routing/index.ts',
         'notes/index': 'src/notes/index.ts',
         'synths/index': 'src/synths/index.ts',